@@ -1,16 +1,29 @@
 import { z } from "zod/v3";
 import { tool } from "ai";
+import { defineExtension, type ExtensionContext } from "../src/extensions";
 
-export default async function ExampleWeatherTool() {
-  return {
-    getWeather: tool({
-      description: "Get the weather in a location",
-      inputSchema: z.object({
-        location: z.string().describe("Location to check"),
+let logger: ExtensionContext["logger"];
+
+export default defineExtension({
+  // `config` is the `extensions.example` section of config.yaml
+  setup: (ctx) => {
+    logger = ctx.logger;
+    const unit = ctx.config.unit === "fahrenheit" ? "°F" : "°C";
+    logger.logInfo(`Reporting temperatures in ${unit}`);
+
+    return {
+      getWeather: tool({
+        description: "Get the weather in a location",
+        inputSchema: z.object({
+          location: z.string().describe("Location to check"),
+        }),
+        execute: async ({ location }) => {
+          return `The weather in ${location} is sunny, 21${unit}.`;
+        },
       }),
-      execute: async ({ location }) => {
-        return `The weather in ${location} is sunny.`;
-      },
-    }),
-  };
-}
+    };
+  },
+  afterGenerate: (response, { message }) => {
+    logger.logInfo(`Answered ${message.id} with ${response.text.length} chars`);
+  },
+});
@@ -0,0 +1,192 @@
+import { timingSafeEqual } from "node:crypto";
+import type { DbUsageLedger } from "./type";
+
+export type AdminApiContext = {
+  getModels: () => {
+    default: string;
+    global: string;
+    perChannelModel: boolean;
+    configured: string[];
+    overrides: Array<{
+      channelId: string;
+      guildId: string | null;
+      model: string;
+      active: boolean;
+      updatedAt: number;
+    }>;
+  };
+  getTools: () => Promise<
+    Array<{ name: string; description: string | null; disabled: boolean }>
+  >;
+  getRecentGenerations: (limit: number) => DbUsageLedger[];
+  getConfigStatus: () => Promise<{
+    ok: boolean;
+    errors: string[];
+    warnings: string[];
+  }>;
+  reloadTools: () => Promise<void>;
+};
+
+export type AdminServerOptions = {
+  host?: string;
+  port?: number;
+  token: string;
+};
+
+const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_PORT = 8787;
+const MAX_GENERATIONS = 500;
+
+function json(body: unknown, status = 200) {
+  return Response.json(body, {
+    status,
+    headers: { "Cache-Control": "no-store" },
+  });
+}
+
+function isAuthorized(req: Request, token: string) {
+  const header = req.headers.get("authorization") ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+
+  const given = Buffer.from(match[1]!.trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Request handler of the admin API, separate from `Bun.serve` so it can be
+ * exercised without opening a port.
+ */
+export function createAdminFetchHandler(
+  ctx: AdminApiContext,
+  { token }: Pick<AdminServerOptions, "token">,
+) {
+  return async (req: Request): Promise<Response> => {
+    const url = new URL(req.url);
+
+    if (req.method === "GET" && url.pathname === "/") {
+      return new Response(ADMIN_PAGE, {
+        headers: { "Content-Type": "text/html; charset=utf-8" },
+      });
+    }
+
+    if (!url.pathname.startsWith("/api/")) {
+      return json({ error: "Not found" }, 404);
+    }
+    if (!isAuthorized(req, token)) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const route = `${req.method} ${url.pathname}`;
+    try {
+      switch (route) {
+        case "GET /api/models":
+          return json(ctx.getModels());
+        case "GET /api/tools":
+          return json({ tools: await ctx.getTools() });
+        case "POST /api/tools/reload":
+          await ctx.reloadTools();
+          return json({ ok: true, tools: await ctx.getTools() });
+        case "GET /api/generations": {
+          const limit = Number(url.searchParams.get("limit") ?? 50);
+          if (!Number.isInteger(limit) || limit < 1) {
+            return json({ error: "limit must be a positive integer" }, 400);
+          }
+          return json({
+            generations: ctx.getRecentGenerations(
+              Math.min(limit, MAX_GENERATIONS),
+            ),
+          });
+        }
+        case "GET /api/config":
+          return json(await ctx.getConfigStatus());
+        default:
+          return json({ error: "Not found" }, 404);
+      }
+    } catch (e) {
+      return json({ error: e instanceof Error ? e.message : String(e) }, 500);
+    }
+  };
+}
+
+export function startAdminServer(
+  ctx: AdminApiContext,
+  options: AdminServerOptions,
+) {
+  return Bun.serve({
+    hostname: options.host ?? DEFAULT_HOST,
+    port: options.port ?? DEFAULT_PORT,
+    fetch: createAdminFetchHandler(ctx, options),
+  });
+}
+
+const ADMIN_PAGE = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>js-llmcord admin</title>
+<style>
+  body { font: 14px/1.4 system-ui, sans-serif; margin: 2rem auto; max-width: 70rem; padding: 0 1rem; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 1.5rem; }
+  th, td { border-bottom: 1px solid #ddd; padding: .3rem .5rem; text-align: left; vertical-align: top; }
+  code { font-size: 12px; }
+  .err { color: #b00020; }
+  .muted { color: #888; }
+</style>
+</head>
+<body>
+<h1>js-llmcord</h1>
+<form id="auth">
+  <input id="token" type="password" placeholder="Admin API token" size="40">
+  <button>Load</button>
+  <button type="button" id="reload">Reload tools</button>
+</form>
+<div id="out"></div>
+<script>
+const $ = (id) => document.getElementById(id);
+$("token").value = sessionStorage.getItem("token") || "";
+const esc = (v) => String(v ?? "").replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" })[c]);
+async function api(path, init = {}) {
+  const res = await fetch(path, { ...init, headers: { Authorization: "Bearer " + $("token").value } });
+  const body = await res.json();
+  if (!res.ok) throw new Error(body.error || res.statusText);
+  return body;
+}
+const table = (head, rows) => "<table><tr>" + head.map((h) => "<th>" + esc(h) + "</th>").join("") + "</tr>" +
+  rows.map((r) => "<tr>" + r.map((c) => "<td>" + c + "</td>").join("") + "</tr>").join("") + "</table>";
+async function load() {
+  sessionStorage.setItem("token", $("token").value);
+  try {
+    const [models, tools, gens, config] = await Promise.all([
+      api("/api/models"), api("/api/tools"), api("/api/generations?limit=50"), api("/api/config"),
+    ]);
+    $("out").innerHTML =
+      "<h2>Config</h2>" + (config.ok ? "<p>Valid</p>" : "") +
+      config.errors.map((e) => '<p class="err">' + esc(e) + "</p>").join("") +
+      config.warnings.map((w) => '<p class="muted">' + esc(w) + "</p>").join("") +
+      "<h2>Models</h2><p>Default: <code>" + esc(models.default) + "</code>, global: <code>" + esc(models.global) +
+      "</code>, per-channel models " + (models.perChannelModel ? "enabled" : "disabled") + "</p>" +
+      table(["Channel", "Guild", "Model", "Active"], models.overrides.map((o) =>
+        ["<code>" + esc(o.channelId) + "</code>", esc(o.guildId), "<code>" + esc(o.model) + "</code>", o.active ? "yes" : "no"])) +
+      "<h2>Tools</h2>" +
+      table(["Tool", "Enabled", "Description"], tools.tools.map((t) =>
+        ["<code>" + esc(t.name) + "</code>", t.disabled ? "no" : "yes", esc(t.description)])) +
+      "<h2>Recent generations</h2>" +
+      table(["Time", "User", "Model", "Tokens (in/out)", "Cost"], gens.generations.map((g) =>
+        [esc(new Date(g.created_at).toLocaleString()), "<code>" + esc(g.user_id) + "</code>", "<code>" + esc(g.provider_model) + "</code>",
+         esc(g.input_tokens + " / " + g.output_tokens), g.cost_usd === null ? '<span class="muted">n/a</span>' : "$" + g.cost_usd.toFixed(4)]));
+  } catch (e) {
+    $("out").innerHTML = '<p class="err">' + esc(e.message) + "</p>";
+  }
+}
+$("auth").addEventListener("submit", (e) => { e.preventDefault(); load(); });
+$("reload").addEventListener("click", async () => {
+  try { await api("/api/tools/reload", { method: "POST" }); await load(); }
+  catch (e) { $("out").innerHTML = '<p class="err">' + esc(e.message) + "</p>"; }
+});
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,216 @@
+import db from "./db";
+import type {
+  DbBotSetting,
+  DbChannelModelOverride,
+  DbChannelResource,
+  DbChannelSystemPrompt,
+  DbToolScope,
+} from "./type";
+
+const GLOBAL_PROVIDER_MODEL_KEY = "global_provider_model";
+
+/**
+ * Persists channel-scoped bot settings (model overrides, system prompts,
+ * tool scopes, attached MCP resources) in SQLite so they survive restarts.
+ */
+export class ChannelSettingsOperator {
+  getModelOverrides() {
+    const rows = db
+      .query(`SELECT * FROM channel_model_overrides`)
+      .all() as DbChannelModelOverride[];
+    return new Map(rows.map((r) => [r.channel_id, r.provider_model]));
+  }
+
+  getModelOverride(channelId: string) {
+    return db
+      .query(`SELECT * FROM channel_model_overrides WHERE channel_id = ?`)
+      .get(channelId) as DbChannelModelOverride | null;
+  }
+
+  /** Overrides of one guild, or of every guild when `guildId` is omitted. */
+  listModelOverrides(guildId?: string) {
+    if (guildId === undefined) {
+      return db
+        .query(`SELECT * FROM channel_model_overrides ORDER BY updated_at DESC`)
+        .all() as DbChannelModelOverride[];
+    }
+    return db
+      .query(
+        `SELECT * FROM channel_model_overrides WHERE guild_id = ? ORDER BY updated_at DESC`,
+      )
+      .all(guildId) as DbChannelModelOverride[];
+  }
+
+  setModelOverride({
+    channelId,
+    guildId,
+    providerModel,
+  }: {
+    channelId: string;
+    guildId: string | null;
+    providerModel: string;
+  }) {
+    db.run(
+      "INSERT OR REPLACE INTO channel_model_overrides (channel_id, guild_id, provider_model, updated_at) VALUES (?, ?, ?, ?)",
+      [channelId, guildId, providerModel, Date.now()],
+    );
+  }
+
+  removeModelOverride(channelId: string) {
+    const { changes } = db.run(
+      "DELETE FROM channel_model_overrides WHERE channel_id = ?",
+      [channelId],
+    );
+    return changes;
+  }
+
+  clearModelOverrides(guildId: string) {
+    const { changes } = db.run(
+      "DELETE FROM channel_model_overrides WHERE guild_id = ?",
+      [guildId],
+    );
+    return changes;
+  }
+
+  getSystemPrompts() {
+    const rows = db
+      .query(`SELECT * FROM channel_system_prompts`)
+      .all() as DbChannelSystemPrompt[];
+    return new Map(rows.map((r) => [r.channel_id, r.system_prompt]));
+  }
+
+  setSystemPrompt({
+    channelId,
+    guildId,
+    systemPrompt,
+    updatedBy,
+  }: {
+    channelId: string;
+    guildId: string | null;
+    systemPrompt: string;
+    updatedBy: string;
+  }) {
+    db.run(
+      "INSERT OR REPLACE INTO channel_system_prompts (channel_id, guild_id, system_prompt, updated_by, updated_at) VALUES (?, ?, ?, ?, ?)",
+      [channelId, guildId, systemPrompt, updatedBy, Date.now()],
+    );
+  }
+
+  removeSystemPrompt(channelId: string) {
+    const { changes } = db.run(
+      "DELETE FROM channel_system_prompts WHERE channel_id = ?",
+      [channelId],
+    );
+    return changes;
+  }
+
+  getGlobalProviderModel() {
+    const row = db
+      .query(`SELECT * FROM bot_settings WHERE key = ?`)
+      .get(GLOBAL_PROVIDER_MODEL_KEY) as DbBotSetting | null;
+    return row?.value ?? null;
+  }
+
+  setGlobalProviderModel(providerModel: string) {
+    db.run(
+      "INSERT OR REPLACE INTO bot_settings (key, value, updated_at) VALUES (?, ?, ?)",
+      [GLOBAL_PROVIDER_MODEL_KEY, providerModel, Date.now()],
+    );
+  }
+
+  getToolScopes() {
+    return db.query(`SELECT * FROM tool_scopes`).all() as DbToolScope[];
+  }
+
+  setToolScope({
+    scopeType,
+    scopeId,
+    guildId,
+    toolNames,
+    mode,
+    updatedBy,
+  }: {
+    scopeType: DbToolScope["scope_type"];
+    scopeId: string;
+    guildId: string | null;
+    toolNames: string[];
+    mode: DbToolScope["mode"];
+    updatedBy: string;
+  }) {
+    const insert = db.prepare(
+      "INSERT OR REPLACE INTO tool_scopes (scope_type, scope_id, guild_id, tool_name, mode, updated_by, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?)",
+    );
+    const now = Date.now();
+    db.transaction(() => {
+      for (const toolName of toolNames) {
+        insert.run(scopeType, scopeId, guildId, toolName, mode, updatedBy, now);
+      }
+    })();
+  }
+
+  /** Remove the given tools' rules, or every rule of the scope. */
+  removeToolScopes(
+    scopeType: DbToolScope["scope_type"],
+    scopeId: string,
+    toolNames?: string[],
+  ) {
+    if (!toolNames?.length) {
+      const { changes } = db.run(
+        "DELETE FROM tool_scopes WHERE scope_type = ? AND scope_id = ?",
+        [scopeType, scopeId],
+      );
+      return changes;
+    }
+
+    const remove = db.prepare(
+      "DELETE FROM tool_scopes WHERE scope_type = ? AND scope_id = ? AND tool_name = ?",
+    );
+    return db.transaction(() =>
+      toolNames.reduce(
+        (sum, toolName) =>
+          sum + remove.run(scopeType, scopeId, toolName).changes,
+        0,
+      ),
+    )();
+  }
+
+  getChannelResources(channelId: string) {
+    return db
+      .query(
+        `SELECT * FROM channel_resources WHERE channel_id = ? ORDER BY attached_at`,
+      )
+      .all(channelId) as DbChannelResource[];
+  }
+
+  attachResource({
+    channelId,
+    uri,
+    serverKey,
+    guildId,
+    attachedBy,
+  }: {
+    channelId: string;
+    uri: string;
+    serverKey: string;
+    guildId: string | null;
+    attachedBy: string;
+  }) {
+    db.run(
+      "INSERT OR REPLACE INTO channel_resources (channel_id, uri, server_key, guild_id, attached_by, attached_at) VALUES (?, ?, ?, ?, ?, ?)",
+      [channelId, uri, serverKey, guildId, attachedBy, Date.now()],
+    );
+  }
+
+  /** Detach one resource, or all resources of the channel. */
+  detachResources(channelId: string, uri?: string) {
+    const { changes } = uri
+      ? db.run(
+          "DELETE FROM channel_resources WHERE channel_id = ? AND uri = ?",
+          [channelId, uri],
+        )
+      : db.run("DELETE FROM channel_resources WHERE channel_id = ?", [
+          channelId,
+        ]);
+    return changes;
+  }
+}
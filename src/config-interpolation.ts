@@ -0,0 +1,103 @@
+import { formatConfigPath } from "./config-schema";
+
+export type InterpolationSources = {
+  env: Record<string, string | undefined>;
+  readFile: (path: string) => Promise<string>;
+};
+
+/**
+ * `${NAME}`, `${NAME:-default}` or `${file:/path}`. `$${` escapes a literal
+ * `${`.
+ */
+const PLACEHOLDER = /\$(\$)?\{([^}]*)\}/g;
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/** Resolve placeholders in one string. Throws with a message on failure. */
+export async function interpolateString(
+  value: string,
+  sources: InterpolationSources,
+): Promise<string> {
+  const parts: Array<string | Promise<string>> = [];
+  let last = 0;
+  for (const match of value.matchAll(PLACEHOLDER)) {
+    const [whole, escaped, expr = ""] = match;
+    parts.push(value.slice(last, match.index));
+    last = match.index + whole.length;
+
+    if (escaped) {
+      parts.push(whole.slice(1));
+      continue;
+    }
+    parts.push(resolvePlaceholder(expr, sources));
+  }
+  parts.push(value.slice(last));
+
+  return (await Promise.all(parts)).join("");
+}
+
+async function resolvePlaceholder(expr: string, sources: InterpolationSources) {
+  if (expr.startsWith("file:")) {
+    const path = expr.slice("file:".length).trim();
+    if (!path) throw new Error("${file:} needs a path");
+    try {
+      // secret files usually end with a newline that is not part of the value
+      return (await sources.readFile(path)).replace(/\r?\n$/, "");
+    } catch (e) {
+      throw new Error(
+        `cannot read ${path}: ${e instanceof Error ? e.message : e}`,
+      );
+    }
+  }
+
+  const sep = expr.indexOf(":-");
+  const name = sep === -1 ? expr : expr.slice(0, sep);
+  if (!ENV_NAME.test(name)) {
+    throw new Error(`invalid placeholder \${${expr}}`);
+  }
+
+  // like the shell, `:-` also replaces an empty value
+  const value = sources.env[name];
+  if (value !== undefined && (value !== "" || sep === -1)) return value;
+  if (sep !== -1) return expr.slice(sep + 2);
+  throw new Error(`environment variable ${name} is not set`);
+}
+
+/**
+ * Resolve placeholders in every string value of a parsed config.
+ * Returns the new config and one error per failed value, with its path.
+ */
+export async function interpolateConfig(
+  raw: unknown,
+  sources: InterpolationSources,
+): Promise<{ value: unknown; errors: string[] }> {
+  const errors: string[] = [];
+
+  async function walk(value: unknown, path: PropertyKey[]): Promise<unknown> {
+    if (typeof value === "string") {
+      if (!value.includes("${")) return value;
+      try {
+        return await interpolateString(value, sources);
+      } catch (e) {
+        errors.push(
+          `${formatConfigPath(path)}: ${e instanceof Error ? e.message : e}`,
+        );
+        return value;
+      }
+    }
+    if (Array.isArray(value)) {
+      return await Promise.all(value.map((v, i) => walk(v, [...path, i])));
+    }
+    if (value !== null && typeof value === "object") {
+      const entries = await Promise.all(
+        Object.entries(value).map(
+          async ([k, v]) => [k, await walk(v, [...path, k])] as const,
+        ),
+      );
+      return Object.fromEntries(entries);
+    }
+    return value;
+  }
+
+  const value = await walk(raw, []);
+  return { value, errors };
+}
@@ -1,11 +1,72 @@
+import { watch, type FSWatcher } from "node:fs";
+import { basename, dirname, resolve } from "node:path";
 import { UTApi } from "uploadthing/server";
 import type { Config } from "./type";
+import { ConfigValidationError, validateConfig } from "./config-schema";
+import { interpolateConfig } from "./config-interpolation";
+import { Logger } from "./logger";
+
+const CONFIG_PATH = "./config.yaml";
+const RELOAD_DEBOUNCE_MS = 250;
+
+const logger = new Logger({ module: "config" });
+
+export type LoadedConfig = Config & { utApi: UTApi | null };
+export type ConfigChangeListener = (
+  next: LoadedConfig,
+  previous: LoadedConfig,
+) => void | Promise<void>;
 
 let utApiInitToken: string | null = null;
 let utApi: UTApi | null = null;
-export async function getConfig() {
-  const configPlain = await Bun.file("./config.yaml").text();
-  const config = Bun.YAML.parse(configPlain) as Config;
+
+let current: { snapshot: string; config: LoadedConfig } | null = null;
+let loading: Promise<LoadedConfig> | null = null;
+let watcher: FSWatcher | null = null;
+let reloadTimer: NodeJS.Timeout | null = null;
+const listeners = new Set<ConfigChangeListener>();
+
+async function readConfigFile() {
+  const configPlain = await Bun.file(CONFIG_PATH).text();
+  const { value, errors } = await interpolateConfig(
+    Bun.YAML.parse(configPlain),
+    {
+      env: process.env,
+      readFile: (path) => Bun.file(path).text(),
+    },
+  );
+  return { raw: value, interpolationErrors: errors };
+}
+
+function validateConfigWith(raw: unknown, interpolationErrors: string[]) {
+  const { errors, warnings } = validateConfig(raw);
+  return { errors: [...interpolationErrors, ...errors], warnings };
+}
+
+/** Validate config.yaml without loading it. */
+export async function validateConfigFile() {
+  try {
+    const { raw, interpolationErrors } = await readConfigFile();
+    return validateConfigWith(raw, interpolationErrors);
+  } catch (e) {
+    return {
+      errors: [
+        `Failed to read config.yaml: ${e instanceof Error ? e.message : e}`,
+      ],
+      warnings: [],
+    };
+  }
+}
+
+/** Read, validate and build the config. Throws without touching the cache. */
+async function loadConfig() {
+  const { raw, interpolationErrors } = await readConfigFile();
+
+  const { errors, warnings } = validateConfigWith(raw, interpolationErrors);
+  for (const warning of warnings) logger.logWarn(`config.yaml: ${warning}`);
+  if (errors.length > 0) throw new ConfigValidationError(errors);
+
+  const config = raw as Config;
 
   const utToken =
     config.uploadthing_apikey || process.env.UPLOADTHING_TOKEN || null;
@@ -15,5 +76,89 @@ export async function getConfig() {
     utApi = utToken ? new UTApi({ token: utToken }) : null;
   }
 
-  return { ...config, utApi };
+  // compare resolved values so touching the file re-reads secret files too
+  return { snapshot: JSON.stringify(raw), config: { ...config, utApi } };
+}
+
+/**
+ * The current config. Parsed once and then served from memory; changes to
+ * config.yaml are picked up by the watcher (see `startConfigWatcher`).
+ */
+export async function getConfig(): Promise<LoadedConfig> {
+  if (current) return current.config;
+  loading ??= loadConfig()
+    .then((loaded) => {
+      current = loaded;
+      return loaded.config;
+    })
+    .finally(() => {
+      loading = null;
+    });
+  return await loading;
+}
+
+/**
+ * Re-read config.yaml. An invalid file keeps the previous config in place.
+ * Returns true if a new config was applied.
+ */
+export async function reloadConfig(): Promise<boolean> {
+  let loaded: Awaited<ReturnType<typeof loadConfig>>;
+  try {
+    loaded = await loadConfig();
+  } catch (e) {
+    logger.logError(
+      "Failed to reload config.yaml, keeping the previous config",
+      e,
+    );
+    return false;
+  }
+
+  const previous = current;
+  if (previous && previous.snapshot === loaded.snapshot) return false;
+  current = loaded;
+  logger.logInfo("config.yaml reloaded");
+
+  if (previous) {
+    for (const listener of listeners) {
+      try {
+        await listener(loaded.config, previous.config);
+      } catch (e) {
+        logger.logError("Error in config change listener", e);
+      }
+    }
+  }
+  return true;
+}
+
+/** Subscribe to config reloads. Returns an unsubscribe function. */
+export function onConfigChange(listener: ConfigChangeListener) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function startConfigWatcher() {
+  if (watcher) return;
+
+  // Watch the directory: editors often save by replacing the file, which
+  // would orphan a watcher on the file itself.
+  const path = resolve(CONFIG_PATH);
+  const file = basename(path);
+  watcher = watch(dirname(path), (_event, filename) => {
+    if (filename && filename.toString() !== file) return;
+    if (reloadTimer) clearTimeout(reloadTimer);
+    reloadTimer = setTimeout(() => {
+      reloadTimer = null;
+      reloadConfig().catch((e) => logger.logError(e));
+    }, RELOAD_DEBOUNCE_MS);
+  });
+  watcher.on("error", (e) => logger.logError("config.yaml watcher error", e));
+}
+
+export function stopConfigWatcher() {
+  if (reloadTimer) clearTimeout(reloadTimer);
+  reloadTimer = null;
+  watcher?.close();
+  watcher = null;
 }
@@ -0,0 +1,321 @@
+import { z } from "zod";
+
+/**
+ * Issues raised with this param are reported as warnings: the config still
+ * loads, but something is likely off.
+ */
+const WARNING = { severity: "warning" } as const;
+
+/**
+ * Discord IDs are 64-bit snowflakes. Unquoted in YAML they are parsed as
+ * numbers and silently rounded once they exceed 2^53.
+ */
+const discordId = z
+  .union([
+    z.string().regex(/^\d+$/, "must be a numeric Discord ID"),
+    z.number(),
+  ])
+  .superRefine((value, ctx) => {
+    if (typeof value !== "number") return;
+    if (!Number.isSafeInteger(value)) {
+      ctx.addIssue({
+        code: "custom",
+        message: `lost precision when parsed (read as ${value}); quote the ID in YAML`,
+      });
+      return;
+    }
+    ctx.addIssue({
+      code: "custom",
+      message: "IDs should be quoted in YAML to avoid precision loss",
+      params: WARNING,
+    });
+  });
+
+const idList = z.array(discordId);
+const count = z.number().int().nonnegative();
+
+const providerSchema = z.looseObject({
+  base_url: z.string().optional(),
+  api_key: z.string().nullish(),
+  api_schema: z.enum(["completion", "responses"]).optional(),
+  extra_headers: z.record(z.string(), z.string()).nullish(),
+  extra_query: z.record(z.string(), z.string()).nullish(),
+  extra_body: z.record(z.string(), z.unknown()).nullish(),
+  compatibility: z
+    .strictObject({ patch_tool_call_index: z.boolean().optional() })
+    .optional(),
+});
+
+/** Known options are typed; anything else is passed on as provider options. */
+const modelSchema = z.looseObject({
+  tools: z.union([z.boolean(), z.literal("compatible")]).optional(),
+  temperature: z.number().optional(),
+  max_tokens: count.optional(),
+  top_p: z.number().optional(),
+  top_k: z.number().optional(),
+  anthropic_cache_control: z.boolean().optional(),
+  anthropic_cache_ttl: z.string().optional(),
+  anthropic_cache_tools: z.boolean().optional(),
+  ai_gateway_order: z
+    .array(z.enum(["anthropic", "bedrock", "vertex"]))
+    .optional(),
+  fallback_models: z.array(z.string()).optional(),
+  context_window: z.number().int().positive().optional(),
+});
+
+const providerModel = z
+  .string()
+  .regex(/^[^/\s]+\/\S+$/, "must be in provider/model format");
+
+const toolOptionsShape = {
+  require_approval: z.boolean().optional(),
+  timeout_ms: count.optional(),
+  max_output_chars: count.optional(),
+  max_concurrency: count.optional(),
+};
+
+const mcpServerOptionsShape = {
+  ...toolOptionsShape,
+  prefix_tool_names: z.boolean().optional(),
+  rename_tools: z
+    .record(
+      z.string(),
+      z
+        .string()
+        .regex(/^[a-zA-Z0-9_-]{1,64}$/, "must be 1-64 letters, digits, _ or -"),
+    )
+    .optional(),
+};
+
+const localMcpSchema = z.strictObject({
+  command: z.string(),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string(), z.string()).nullish(),
+  cwd: z.string().optional(),
+  ...mcpServerOptionsShape,
+});
+
+/** Remaining keys (e.g. `headers`) are forwarded to the transport. */
+const remoteMcpSchema = z.looseObject({
+  type: z.enum(["http", "sse"]),
+  url: z.string(),
+  ...mcpServerOptionsShape,
+});
+
+const toolScopeRules = z.record(
+  z.string().regex(/^\d+$/, "must be a numeric Discord ID"),
+  z
+    .strictObject({
+      allow: z.array(z.string()).optional(),
+      deny: z.array(z.string()).optional(),
+    })
+    .nullish(),
+);
+
+const budgetLimitsSchema = z.strictObject({
+  daily_usd: z.number().nonnegative().nullish(),
+  monthly_usd: z.number().nonnegative().nullish(),
+  daily_tokens: count.nullish(),
+  monthly_tokens: count.nullish(),
+});
+
+export const configSchema = z.strictObject({
+  log_level: z.enum(["debug", "info", "warn", "error"]).optional(),
+  bot_token: z.string().nullable(),
+  client_id: discordId.nullish(),
+  status_message: z.string().nullish(),
+  uploadthing_apikey: z.string().nullish(),
+  max_text: count.optional(),
+  max_images: count.optional(),
+  max_messages: count.optional(),
+  max_steps: count.optional(),
+  max_retry: count.optional(),
+  use_plain_responses: z.boolean().optional(),
+  allow_dms: z.boolean().optional(),
+  debug_message: z.boolean().optional(),
+  stats_for_nerds: z
+    .union([z.boolean(), z.strictObject({ verbose: z.boolean().optional() })])
+    .optional(),
+  per_channel_model: z.boolean().optional(),
+  experimental_overflow_splitting: z.boolean().optional(),
+  permissions: z.strictObject({
+    users: z.strictObject({
+      admin_ids: idList,
+      allowed_ids: idList,
+      blocked_ids: idList,
+    }),
+    roles: z.strictObject({
+      allowed_ids: idList,
+      blocked_ids: idList,
+    }),
+    channels: z.strictObject({
+      allowed_ids: idList,
+      blocked_ids: idList,
+    }),
+  }),
+  additional_vision_models: z.array(z.string()).nullish(),
+  providers: z.record(z.string(), providerSchema),
+  models: z.record(providerModel, modelSchema.nullish()),
+  fallback_models: z.array(providerModel).nullish(),
+  tools: z
+    .strictObject({
+      include_summary: z.boolean().optional(),
+      tool_options: z
+        .record(z.string(), z.strictObject(toolOptionsShape))
+        .nullish(),
+      approval_timeout_seconds: z.number().positive().optional(),
+      prefix_tool_names: z.boolean().optional(),
+      health_check_interval_seconds: z.number().nonnegative().optional(),
+      scopes: z
+        .strictObject({
+          channels: toolScopeRules.nullish(),
+          roles: toolScopeRules.nullish(),
+          users: toolScopeRules.nullish(),
+        })
+        .nullish(),
+      local_mcp: z.record(z.string(), localMcpSchema).nullish(),
+      remote_mcp: z.record(z.string(), remoteMcpSchema).nullish(),
+    })
+    .nullish(),
+  rag: z
+    .strictObject({
+      enable: z.boolean().optional(),
+      backend: z.enum(["postgres", "sqlite"]).optional(),
+      postgres_uri: z.string().optional(),
+      embedding_model: z.string().optional(),
+      embedding_dimensions: z.number().int().positive().optional(),
+      search: z
+        .strictObject({
+          mode: z.enum(["vector", "hybrid"]).optional(),
+          vector_weight: z.number().nonnegative().optional(),
+          keyword_weight: z.number().nonnegative().optional(),
+          rrf_k: z.number().positive().optional(),
+        })
+        .nullish(),
+      memory: z
+        .strictObject({
+          caps: z
+            .strictObject({
+              intent: count.optional(),
+              fact: count.optional(),
+              preference: count.optional(),
+            })
+            .optional(),
+          thresholds: z
+            .strictObject({
+              intent: z.number().min(0).max(1).optional(),
+              fact: z.number().min(0).max(1).optional(),
+              preference: z.number().min(0).max(1).optional(),
+            })
+            .optional(),
+          similarity_weight: z.number().nonnegative().optional(),
+          relevance_weight: z.number().nonnegative().optional(),
+          recency_weight: z.number().nonnegative().optional(),
+          recency_half_life_days: z.number().nonnegative().optional(),
+        })
+        .nullish(),
+      knowledge: z
+        .strictObject({
+          max_results: count.optional(),
+          min_similarity: z.number().min(0).max(1).optional(),
+          chunk_size: z.number().int().positive().optional(),
+          max_document_chars: z.number().int().positive().optional(),
+        })
+        .nullish(),
+    })
+    .nullish(),
+  summarization: z
+    .strictObject({
+      enable: z.boolean().optional(),
+      model: providerModel.optional(),
+      threshold: count.optional(),
+      keep_recent: count.optional(),
+      max_history: count.optional(),
+    })
+    .nullish(),
+  budgets: z
+    .strictObject({
+      exempt_admins: z.boolean().optional(),
+      user: budgetLimitsSchema.nullish(),
+      guild: budgetLimitsSchema.nullish(),
+    })
+    .nullish(),
+  admin_api: z
+    .strictObject({
+      enable: z.boolean().optional(),
+      host: z.string().optional(),
+      port: z.number().int().min(0).max(65535).optional(),
+      token: z.string().nullish(),
+    })
+    .nullish(),
+  extensions: z
+    .record(z.string(), z.record(z.string(), z.unknown()).nullish())
+    .nullish(),
+  system_prompt: z.string().nullish(),
+  additional_headers: z
+    .strictObject({
+      user_id: z
+        .strictObject({
+          enabled: z.boolean(),
+          header_name: z.string(),
+        })
+        .optional(),
+    })
+    .nullish(),
+});
+
+export class ConfigValidationError extends Error {
+  constructor(readonly errors: string[]) {
+    super(
+      `Invalid config.yaml (${errors.length} issue${errors.length === 1 ? "" : "s"}):\n` +
+        errors.map((e) => `  - ${e}`).join("\n"),
+    );
+    this.name = "ConfigValidationError";
+  }
+}
+
+/** `permissions.users.admin_ids[0]`, `models["openai/gpt-5"].tools` */
+export function formatConfigPath(path: ReadonlyArray<PropertyKey>): string {
+  let out = "";
+  for (const key of path) {
+    if (typeof key === "number") out += `[${key}]`;
+    else if (/^[A-Za-z_][\w-]*$/.test(String(key))) {
+      out += out ? `.${String(key)}` : String(key);
+    } else out += `[${JSON.stringify(String(key))}]`;
+  }
+  return out || "(root)";
+}
+
+export function validateConfig(raw: unknown): {
+  errors: string[];
+  warnings: string[];
+} {
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    return { errors: ["config.yaml must be a YAML mapping"], warnings: [] };
+  }
+
+  const result = configSchema.safeParse(raw);
+  if (result.success) return { errors: [], warnings: [] };
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  for (const issue of result.error.issues) {
+    if (issue.code === "unrecognized_keys") {
+      for (const key of issue.keys) {
+        warnings.push(
+          `${formatConfigPath([...issue.path, key])}: unknown key (typo?)`,
+        );
+      }
+      continue;
+    }
+
+    const line = `${formatConfigPath(issue.path)}: ${issue.message}`;
+    const isWarning =
+      issue.code === "custom" &&
+      (issue.params as { severity?: string } | undefined)?.severity ===
+        WARNING.severity;
+    (isWarning ? warnings : errors).push(line);
+  }
+
+  return { errors, warnings };
+}
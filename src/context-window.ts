@@ -0,0 +1,151 @@
+import { asSchema, type ModelMessage, type Tool } from "ai";
+
+/** Rough average for English text and JSON; good enough to stay in budget. */
+const CHARS_PER_TOKEN = 4;
+/** Per-message framing overhead (role markers, separators). */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+/** Flat estimate for an image/file part; providers bill these separately. */
+const ATTACHMENT_TOKENS = 1_000;
+/** Headroom for the estimate being off. */
+const SAFETY_RATIO = 0.9;
+/**
+ * Output reservation when `max_tokens` isn't configured. Some models advertise
+ * output limits close to their context size, so only reserve part of it.
+ */
+const MAX_DEFAULT_OUTPUT_SHARE = 0.25;
+
+function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function estimateJsonTokens(value: unknown): number {
+  if (value === undefined) return 0;
+  try {
+    return estimateTextTokens(JSON.stringify(value) ?? "");
+  } catch {
+    return 0;
+  }
+}
+
+export function estimateMessageTokens(message: ModelMessage): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+  if (typeof message.content === "string") {
+    return tokens + estimateTextTokens(message.content);
+  }
+
+  for (const part of message.content) {
+    switch (part.type) {
+      case "text":
+      case "reasoning":
+        tokens += estimateTextTokens(part.text);
+        break;
+      case "image":
+      case "file":
+        tokens += ATTACHMENT_TOKENS;
+        break;
+      case "tool-call":
+        tokens +=
+          estimateTextTokens(part.toolName) + estimateJsonTokens(part.input);
+        break;
+      case "tool-result":
+        tokens +=
+          estimateTextTokens(part.toolName) + estimateJsonTokens(part.output);
+        break;
+      default:
+        tokens += estimateJsonTokens(part);
+    }
+  }
+  return tokens;
+}
+
+export function estimateToolTokens(
+  tools: Record<string, Tool> | undefined,
+): number {
+  if (!tools) return 0;
+  let tokens = 0;
+  for (const [name, tool] of Object.entries(tools)) {
+    tokens +=
+      estimateTextTokens(name) + estimateTextTokens(tool.description ?? "");
+    try {
+      tokens += estimateJsonTokens(asSchema(tool.inputSchema).jsonSchema);
+    } catch {
+      // schema conversion failures surface later when the request is sent
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Input token budget for a model: its context window minus the space reserved
+ * for the response, with some headroom for estimation error.
+ */
+export function getInputTokenBudget({
+  contextWindow,
+  outputLimit,
+  maxOutputTokens,
+}: {
+  contextWindow: number;
+  outputLimit?: number | null;
+  maxOutputTokens?: number | null;
+}): number {
+  const reserved =
+    typeof maxOutputTokens === "number"
+      ? maxOutputTokens
+      : Math.min(
+          outputLimit ?? 0,
+          Math.floor(contextWindow * MAX_DEFAULT_OUTPUT_SHARE),
+        );
+  return Math.max(0, Math.floor((contextWindow - reserved) * SAFETY_RATIO));
+}
+
+/**
+ * Drop the oldest conversation turns until the estimated prompt fits in
+ * `budget` tokens.
+ *
+ * `messages` is ordered newest first, as built by `buildMessages`. System
+ * messages and the newest message are always kept, and the remaining history
+ * never starts with an assistant or tool message.
+ */
+export function fitMessagesToContextWindow({
+  messages,
+  budget,
+  reservedTokens = 0,
+}: {
+  messages: ModelMessage[];
+  budget: number;
+  reservedTokens?: number;
+}): {
+  messages: ModelMessage[];
+  droppedCount: number;
+  estimatedTokens: number;
+} {
+  const sizes = messages.map(estimateMessageTokens);
+  let estimatedTokens = reservedTokens + sizes.reduce((a, b) => a + b, 0);
+  if (estimatedTokens <= budget) {
+    return { messages, droppedCount: 0, estimatedTokens };
+  }
+
+  const keep = messages.map(() => true);
+  const isDroppable = (i: number) => i > 0 && messages[i]!.role !== "system";
+
+  for (let i = messages.length - 1; i > 0 && estimatedTokens > budget; i--) {
+    if (!isDroppable(i)) continue;
+    keep[i] = false;
+    estimatedTokens -= sizes[i]!;
+  }
+
+  // the oldest remaining turn must come from the user
+  for (let i = messages.length - 1; i > 0; i--) {
+    if (!keep[i] || !isDroppable(i)) continue;
+    if (messages[i]!.role === "user") break;
+    keep[i] = false;
+    estimatedTokens -= sizes[i]!;
+  }
+
+  const kept = messages.filter((_, i) => keep[i]);
+  return {
+    messages: kept,
+    droppedCount: messages.length - kept.length,
+    estimatedTokens,
+  };
+}
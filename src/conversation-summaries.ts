@@ -0,0 +1,99 @@
+import db from "./db";
+import type { DbConversationSummary } from "./type";
+
+/**
+ * Caches rolling conversation summaries, keyed by the oldest message that is
+ * still sent verbatim (the anchor), along with the messages each one covers.
+ */
+export class ConversationSummaryOperator {
+  get(anchorMessageId: string) {
+    return db
+      .query(`SELECT * FROM conversation_summaries WHERE anchor_message_id = ?`)
+      .get(anchorMessageId) as DbConversationSummary | null;
+  }
+
+  /** Subset of `messageIds` that anchor a cached summary. */
+  getAnchorIds(messageIds: string[]) {
+    const found = new Set<string>();
+    const MAX_BATCH = 900;
+    for (let offset = 0; offset < messageIds.length; offset += MAX_BATCH) {
+      const batch = messageIds.slice(offset, offset + MAX_BATCH);
+      const placeholders = batch.map(() => "?").join(", ");
+      const rows = db
+        .prepare(
+          `SELECT anchor_message_id FROM conversation_summaries WHERE anchor_message_id IN (${placeholders})`,
+        )
+        .all(...batch) as Array<{ anchor_message_id: string }>;
+      for (const row of rows) found.add(row.anchor_message_id);
+    }
+    return found;
+  }
+
+  getCoveredMessageIds(anchorMessageId: string) {
+    const rows = db
+      .query(
+        `SELECT message_id FROM conversation_summary_messages WHERE anchor_message_id = ?`,
+      )
+      .all(anchorMessageId) as Array<{ message_id: string }>;
+    return rows.map((r) => r.message_id);
+  }
+
+  save({
+    anchorMessageId,
+    summary,
+    providerModel,
+    coveredMessageIds,
+  }: {
+    anchorMessageId: string;
+    summary: string;
+    providerModel: string;
+    coveredMessageIds: string[];
+  }) {
+    db.transaction(() => {
+      db.run(
+        "INSERT OR REPLACE INTO conversation_summaries (anchor_message_id, summary, provider_model, created_at) VALUES (?, ?, ?, ?)",
+        [anchorMessageId, summary, providerModel, Date.now()],
+      );
+      db.run(
+        "DELETE FROM conversation_summary_messages WHERE anchor_message_id = ?",
+        [anchorMessageId],
+      );
+      const insert = db.prepare(
+        "INSERT OR IGNORE INTO conversation_summary_messages (anchor_message_id, message_id) VALUES (?, ?)",
+      );
+      for (const id of new Set(coveredMessageIds)) {
+        insert.run(anchorMessageId, id);
+      }
+    })();
+  }
+
+  /**
+   * Drop every summary anchored at or covering `messageId`.
+   * Returns the number of summaries removed.
+   */
+  invalidate(messageId: string) {
+    const rows = db
+      .query(
+        `SELECT anchor_message_id FROM conversation_summary_messages WHERE message_id = ?`,
+      )
+      .all(messageId) as Array<{ anchor_message_id: string }>;
+    const anchors = [
+      ...new Set([messageId, ...rows.map((r) => r.anchor_message_id)]),
+    ];
+
+    let removed = 0;
+    db.transaction(() => {
+      for (const anchor of anchors) {
+        removed += db.run(
+          "DELETE FROM conversation_summaries WHERE anchor_message_id = ?",
+          [anchor],
+        ).changes;
+        db.run(
+          "DELETE FROM conversation_summary_messages WHERE anchor_message_id = ?",
+          [anchor],
+        );
+      }
+    })();
+    return removed;
+  }
+}
@@ -28,5 +28,75 @@ db.run(`
     created_at INTEGER NOT NULL
   )
 `);
+db.run(`
+  CREATE TABLE IF NOT EXISTS channel_model_overrides (
+    channel_id TEXT PRIMARY KEY,
+    guild_id TEXT,
+    provider_model TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  )
+`);
+db.run(`
+  CREATE INDEX IF NOT EXISTS channel_model_overrides_guild_id_idx
+  ON channel_model_overrides (guild_id)
+`);
+db.run(`
+  CREATE TABLE IF NOT EXISTS channel_system_prompts (
+    channel_id TEXT PRIMARY KEY,
+    guild_id TEXT,
+    system_prompt TEXT NOT NULL,
+    updated_by TEXT,
+    updated_at INTEGER NOT NULL
+  )
+`);
+db.run(`
+  CREATE TABLE IF NOT EXISTS bot_settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  )
+`);
+db.run(`
+  CREATE TABLE IF NOT EXISTS conversation_summaries (
+    anchor_message_id TEXT PRIMARY KEY,
+    summary TEXT NOT NULL,
+    provider_model TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  )
+`);
+db.run(`
+  CREATE TABLE IF NOT EXISTS conversation_summary_messages (
+    anchor_message_id TEXT NOT NULL,
+    message_id TEXT NOT NULL,
+    PRIMARY KEY (anchor_message_id, message_id)
+  )
+`);
+db.run(`
+  CREATE INDEX IF NOT EXISTS conversation_summary_messages_message_id_idx
+  ON conversation_summary_messages (message_id)
+`);
+db.run(`
+  CREATE TABLE IF NOT EXISTS tool_scopes (
+    scope_type TEXT NOT NULL,
+    scope_id TEXT NOT NULL,
+    guild_id TEXT,
+    tool_name TEXT NOT NULL,
+    mode TEXT NOT NULL,
+    updated_by TEXT,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (scope_type, scope_id, tool_name)
+  )
+`);
+db.run(`
+  CREATE TABLE IF NOT EXISTS channel_resources (
+    channel_id TEXT NOT NULL,
+    uri TEXT NOT NULL,
+    server_key TEXT NOT NULL,
+    guild_id TEXT,
+    attached_by TEXT,
+    attached_at INTEGER NOT NULL,
+    PRIMARY KEY (channel_id, uri)
+  )
+`);
 
 export default db;
@@ -10,9 +10,17 @@ import {
   MessageType,
   Partials,
   type CacheType,
+  type GuildMember,
   type Interaction,
+  type User,
 } from "discord.js";
-import { getConfig } from "./config-parser";
+import {
+  getConfig,
+  onConfigChange,
+  startConfigWatcher,
+  stopConfigWatcher,
+  validateConfigFile,
+} from "./config-parser";
 import {
   getProvidersFromConfig,
   parseProviderModelString,
@@ -23,14 +31,31 @@ import {
   type DataContent,
   type FinishReason,
   type LanguageModel,
+  type LanguageModelUsage,
   type ModelMessage,
   type TextPart,
+  type Tool,
 } from "ai";
 import { getImageUrl } from "./image";
 import { ToolManager } from "./tool";
+import { formatAttachedResources, resourceContentsToText } from "./mcp-content";
+import { formatKnowledgeContext } from "./rag/documents";
+import { lazyEmbedding } from "./rag/embedding";
+import {
+  addDocument,
+  fetchDocument,
+  findRelevantKnowledge,
+  listDocuments,
+  removeDocument,
+} from "./rag/knowledge";
 import type { Config } from "./type";
-import { type StreamTextParams } from "./streaming-compatible";
+import {
+  addUsage,
+  emptyUsage,
+  type StreamTextParams,
+} from "./streaming-compatible";
 import { ModelMessageOperator } from "./model-messages";
+import { ChannelSettingsOperator } from "./channel-settings";
 import {
   getRecommendedMemoryStringForUsers,
   getUsersFromModelMessages,
@@ -40,6 +65,7 @@ import { randomUUID } from "node:crypto";
 import { runStreamAttempt } from "./discord/stream-runner";
 import { handleInteraction } from "./discord/interaction-handlers";
 import { commands } from "./discord/commands";
+import { ToolApprovalManager, withToolApproval } from "./discord/tool-approval";
 import { ensureCommands } from "./discord/ensure-commands";
 import {
   getAiGatewayOrderFromModelConfig,
@@ -51,7 +77,46 @@ import {
 import {
   ModelCapability,
   providerModelToModelsDevSpecifier,
+  type ModelCapabilityInfo,
 } from "./utils/model-capability";
+import {
+  resolveChannelOverride,
+  type ChannelRef,
+} from "./utils/channel-inheritance";
+import { renderSystemPrompt } from "./utils/prompt-template";
+import { getFallbackChain, shouldFallbackImmediately } from "./model-fallback";
+import { ConversationSummaryOperator } from "./conversation-summaries";
+import { startAdminServer, type AdminApiContext } from "./admin-server";
+import {
+  buildSummaryMessage,
+  formatTranscript,
+  getSummarizationOptions,
+  planSummarization,
+  summarizeConversation,
+  type ChainEntry,
+  type SummarizationOptions,
+} from "./summarization";
+import {
+  estimateToolTokens,
+  fitMessagesToContextWindow,
+  getInputTokenBudget,
+} from "./context-window";
+import {
+  emptyToolScopes,
+  filterToolsByScope,
+  getApplicableToolRules,
+  mergeToolScopes,
+  toolScopesFromConfig,
+  toolScopesFromRows,
+  type ToolScopeType,
+} from "./tool-scopes";
+import { UsageLedgerOperator } from "./usage/ledger";
+import db from "./db";
+import {
+  formatBudgetViolation,
+  getBudgetViolation,
+  type BudgetViolation,
+} from "./usage/budget";
 
 const Warning = {
   maxText: "⚠️ Exceeding max text length per message.",
@@ -59,6 +124,9 @@ const Warning = {
   cannotSeeImages: "⚠️ Model cannot see images.",
   unsupportedAttachments: "⚠️ Unsupported attachments.",
   messageHistoryTruncated: "⚠️ Older message history truncated.",
+  resourceUnavailable: "⚠️ Some attached resources could not be read.",
+  knowledgeUnavailable: "⚠️ The knowledge base could not be searched.",
+  memoryUnranked: "⚠️ Memories could not be matched to this message.",
 } as const;
 
 type JSONLike =
@@ -69,10 +137,16 @@ type JSONLike =
   | JSONLike[]
   | { [k: string]: JSONLike };
 
-export type ModelChannelRef = {
-  id: string;
-  parentId?: string | null;
-};
+export type ModelChannelRef = ChannelRef;
+
+/**
+ * Who a response is for: the message author, or the user who ran `/prompt`
+ * when the bot answers its own message.
+ */
+type Requester = { user: User; member: GuildMember | null };
+
+type RequestDenial =
+  { kind: "forbidden" } | { kind: "budget"; violation: BudgetViolation };
 
 /**
  * Resolve the effective provider model for a Discord channel (per-channel mode).
@@ -86,17 +160,7 @@ export function getEffectiveProviderModelPerChannel(
   overrides: Map<string, string>,
   defaultModel: string,
 ): string {
-  if (channel.parentId) {
-    const threadOverride = overrides.get(channel.id);
-    if (threadOverride) return threadOverride;
-
-    const parentOverride = overrides.get(channel.parentId);
-    if (parentOverride) return parentOverride;
-
-    return defaultModel;
-  }
-
-  return overrides.get(channel.id) ?? defaultModel;
+  return resolveChannelOverride(channel, overrides)?.value ?? defaultModel;
 }
 
 /**
@@ -125,15 +189,23 @@ export class DiscordOperator {
   private defaultProviderModel = "openai/gpt-4o";
   private globalProviderModel = "openai/gpt-4o"; // Used when per_channel_model is disabled (legacy mode)
   private channelProviderModelOverrides = new Map<string, string>();
+  private channelSystemPrompts = new Map<string, string>();
+  private toolScopes = emptyToolScopes();
   private toolManager: ToolManager;
   private cachedConfig: Config = {} as Config;
   private modelMessageOperator = new ModelMessageOperator();
+  private channelSettings = new ChannelSettingsOperator();
+  private usageLedger = new UsageLedgerOperator(db);
+  private conversationSummaries = new ConversationSummaryOperator();
   private trimInterval: NodeJS.Timeout;
   private logger = new Logger({ module: "discord" });
   private statusInterval: NodeJS.Timeout | null = null;
   private cancellationMap = new Map<string, AbortController>();
   private modelCapability = new ModelCapability();
   private visionSupportCache = new Map<string, boolean>();
+  private adminServer: ReturnType<typeof startAdminServer> | null = null;
+  private toolApprovals = new ToolApprovalManager();
+  private unsubscribeConfig: (() => void) | null = null;
 
   constructor() {
     this.client = new Client({
@@ -173,9 +245,16 @@ export class DiscordOperator {
     const firstModel = Object.keys(config.models || {})[0] ?? "openai/gpt-4o";
     this.defaultProviderModel = firstModel;
     this.globalProviderModel = firstModel;
+    this.loadPersistedModels(config);
+    this.channelSystemPrompts = this.channelSettings.getSystemPrompts();
+    this.loadToolScopes();
 
     await this.client.login(config.bot_token);
     await this.toolManager.init();
+    this.startAdminServer(config);
+
+    this.unsubscribeConfig = onConfigChange(this.configChanged);
+    startConfigWatcher();
 
     this.statusInterval = setInterval(
       () => this.setStatus().catch(this.logger.logError),
@@ -184,6 +263,146 @@ export class DiscordOperator {
     this.logger.logDebug("Discord operator initialized");
   }
 
+  private startAdminServer(config: Config) {
+    const adminApi = config.admin_api;
+    if (!adminApi?.enable) return;
+
+    const token = adminApi.token || process.env.ADMIN_API_TOKEN;
+    if (!token) {
+      this.logger.logError(
+        "admin_api is enabled but no token is configured, not starting the admin API",
+      );
+      return;
+    }
+
+    try {
+      this.adminServer = startAdminServer(this.getAdminApiContext(), {
+        host: adminApi.host,
+        port: adminApi.port,
+        token,
+      });
+      this.logger.logInfo(`Admin API listening on ${this.adminServer.url}`);
+    } catch (e) {
+      this.logger.logError("Failed to start the admin API", e);
+    }
+  }
+
+  private getAdminApiContext(): AdminApiContext {
+    return {
+      getModels: () => ({
+        default: this.defaultProviderModel,
+        global: this.globalProviderModel,
+        perChannelModel: this.cachedConfig.per_channel_model ?? false,
+        configured: Object.keys(this.cachedConfig.models || {}),
+        overrides: this.channelSettings.listModelOverrides().map((r) => ({
+          channelId: r.channel_id,
+          guildId: r.guild_id,
+          model: r.provider_model,
+          active: this.channelProviderModelOverrides.has(r.channel_id),
+          updatedAt: r.updated_at,
+        })),
+      }),
+      getTools: async () => {
+        const tools = (await this.toolManager.getAllTools()) ?? {};
+        return Object.entries(tools).map(([name, tool]) => ({
+          name,
+          description: tool.description ?? null,
+          disabled: this.toolManager.disabledTools.has(name),
+        }));
+      },
+      getRecentGenerations: (limit) => this.usageLedger.getRecent(limit),
+      getConfigStatus: () => this.getConfigStatus(),
+      reloadTools: async () => {
+        this.logger.logInfo("[Admin API] reload-tools");
+        await this.toolManager.destroy();
+        await this.toolManager.init();
+      },
+    };
+  }
+
+  /** Schema validation plus checks that need the loaded providers. */
+  private async getConfigStatus() {
+    const { errors, warnings } = await validateConfigFile();
+    if (errors.length > 0) return { ok: false, errors, warnings };
+
+    const config = await getConfig();
+
+    const models = Object.keys(config.models || {});
+    if (models.length === 0) errors.push("No models configured");
+
+    const providers = await getProvidersFromConfig();
+    for (const providerModel of models) {
+      const { provider } = parseProviderModelString(providerModel);
+      if (!providers[provider]) {
+        errors.push(
+          `Model [${providerModel}] uses unconfigured provider [${provider}]`,
+        );
+      }
+    }
+
+    for (const providerModel of models) {
+      const { skipped } = getFallbackChain(providerModel, config);
+      for (const model of skipped) {
+        warnings.push(
+          `Fallback model [${model}] of [${providerModel}] is not in models`,
+        );
+      }
+    }
+
+    return { ok: errors.length === 0, errors, warnings };
+  }
+
+  /**
+   * Restore `/model` switches saved in SQLite. Models that are no longer
+   * configured are skipped (but kept in the DB) so a config change cannot
+   * route messages to an unknown model.
+   */
+  private loadPersistedModels(config: Config) {
+    const models = config.models || {};
+
+    const persistedGlobal = this.channelSettings.getGlobalProviderModel();
+    if (persistedGlobal && persistedGlobal in models) {
+      this.globalProviderModel = persistedGlobal;
+    } else if (persistedGlobal) {
+      this.logger.logWarn(
+        `Ignoring persisted global model [${persistedGlobal}]: not found in config.models`,
+      );
+    }
+
+    this.channelProviderModelOverrides.clear();
+    for (const [channelId, model] of this.channelSettings.getModelOverrides()) {
+      if (!(model in models)) {
+        this.logger.logWarn(
+          `Ignoring persisted model override [${model}] for channel ${channelId}: not found in config.models`,
+        );
+        continue;
+      }
+      this.channelProviderModelOverrides.set(channelId, model);
+    }
+
+    this.logger.logInfo(
+      `Loaded ${this.channelProviderModelOverrides.size} persisted channel model override(s)`,
+    );
+  }
+
+  /**
+   * Resolve the system prompt for a channel: thread override, then parent
+   * channel override, then `system_prompt` from config.
+   */
+  private getSystemPromptForChannel(channel: ChannelRef) {
+    const override = resolveChannelOverride(channel, this.channelSystemPrompts);
+    if (override) {
+      return {
+        prompt: override.value,
+        source: override.channelId === channel.id ? "channel" : "parent",
+      } as const;
+    }
+    return {
+      prompt: this.cachedConfig.system_prompt || null,
+      source: "default",
+    } as const;
+  }
+
   private async clientReady() {
     this.cachedConfig = await getConfig();
     this.visionSupportCache.clear();
@@ -204,6 +423,23 @@ export class DiscordOperator {
     }
   }
 
+  private configChanged = async (next: Config, prev: Config) => {
+    this.cachedConfig = next;
+    this.logger.setLogLevel(next.log_level ?? "info");
+    this.visionSupportCache.clear();
+
+    const firstModel = Object.keys(next.models || {})[0] ?? "openai/gpt-4o";
+    this.defaultProviderModel = firstModel;
+    if (!(this.globalProviderModel in (next.models || {}))) {
+      this.globalProviderModel = firstModel;
+    }
+    this.loadPersistedModels(next);
+
+    if (next.status_message !== prev.status_message) await this.setStatus();
+
+    await this.toolManager.reconcile(prev.tools, next.tools);
+  };
+
   private setStatus = async () => {
     const status = (this.cachedConfig.status_message || "").slice(0, 128);
 
@@ -232,15 +468,151 @@ export class DiscordOperator {
           this.defaultProviderModel,
           this.globalProviderModel,
         ),
-      setProviderModelForChannel: (channelId: string, model: string) => {
+      setProviderModelForChannel: (
+        channelId: string,
+        model: string,
+        guildId: string | null,
+      ) => {
         this.channelProviderModelOverrides.set(channelId, model);
+        this.channelSettings.setModelOverride({
+          channelId,
+          guildId,
+          providerModel: model,
+        });
       },
       setGlobalProviderModel: (model: string) => {
         this.globalProviderModel = model;
+        this.channelSettings.setGlobalProviderModel(model);
+      },
+      listProviderModelOverrides: (scope: {
+        guildId: string | null;
+        channelId: string;
+      }) => {
+        const rows = scope.guildId
+          ? this.channelSettings.listModelOverrides(scope.guildId)
+          : [this.channelSettings.getModelOverride(scope.channelId)].filter(
+              (r) => r !== null,
+            );
+        return rows.map((r) => ({
+          channelId: r.channel_id,
+          model: r.provider_model,
+          active: this.channelProviderModelOverrides.has(r.channel_id),
+          updatedAt: r.updated_at,
+        }));
+      },
+      clearProviderModelOverrides: (scope: {
+        guildId: string | null;
+        channelId?: string | null;
+      }) => {
+        if (scope.channelId) {
+          this.channelProviderModelOverrides.delete(scope.channelId);
+          return this.channelSettings.removeModelOverride(scope.channelId);
+        }
+        if (!scope.guildId) return 0;
+
+        for (const r of this.channelSettings.listModelOverrides(
+          scope.guildId,
+        )) {
+          this.channelProviderModelOverrides.delete(r.channel_id);
+        }
+        return this.channelSettings.clearModelOverrides(scope.guildId);
       },
+      getSystemPromptForChannel: (channel: ChannelRef) =>
+        this.getSystemPromptForChannel(channel),
+      setSystemPromptForChannel: ({
+        channelId,
+        guildId,
+        prompt,
+        userId,
+      }: {
+        channelId: string;
+        guildId: string | null;
+        prompt: string;
+        userId: string;
+      }) => {
+        this.channelSystemPrompts.set(channelId, prompt);
+        this.channelSettings.setSystemPrompt({
+          channelId,
+          guildId,
+          systemPrompt: prompt,
+          updatedBy: userId,
+        });
+      },
+      resetSystemPromptForChannel: (channelId: string) => {
+        this.channelSystemPrompts.delete(channelId);
+        return this.channelSettings.removeSystemPrompt(channelId) > 0;
+      },
+      getToolRules: (target: {
+        channel: ChannelRef;
+        roleIds: string[];
+        userId: string;
+      }) => this.getToolRules(target),
+      setToolScope: (input: {
+        scopeType: ToolScopeType;
+        scopeId: string;
+        guildId: string | null;
+        toolNames: string[];
+        mode: "allow" | "deny";
+        userId: string;
+      }) => {
+        this.channelSettings.setToolScope({
+          ...input,
+          updatedBy: input.userId,
+        });
+        this.loadToolScopes();
+      },
+      removeToolScopes: (
+        scopeType: ToolScopeType,
+        scopeId: string,
+        toolNames?: string[],
+      ) => {
+        const removed = this.channelSettings.removeToolScopes(
+          scopeType,
+          scopeId,
+          toolNames,
+        );
+        this.loadToolScopes();
+        return removed;
+      },
+      usageLedger: this.usageLedger,
       toolManager: this.toolManager,
       cancellationMap: this.cancellationMap,
+      toolApprovals: this.toolApprovals,
       modelMessageOperator: this.modelMessageOperator,
+      getChannelResources: (channelId: string) =>
+        this.channelSettings.getChannelResources(channelId),
+      attachResource: (input) => this.channelSettings.attachResource(input),
+      detachResources: (channelId: string, uri?: string) =>
+        this.channelSettings.detachResources(channelId, uri),
+      knowledgeBase: {
+        add: async ({ guildId, url, title, fileName, addedBy }) => {
+          const document = await fetchDocument(url);
+          const resolvedTitle = title ?? document.title ?? fileName ?? url;
+          const { chunks } = await addDocument({
+            guild_id: guildId,
+            title: resolvedTitle,
+            // attachment URLs expire, so files are cited by name
+            source: fileName ?? url,
+            full_content: document.content,
+            added_by: addedBy,
+          });
+          return { title: resolvedTitle, chunks };
+        },
+        list: listDocuments,
+        remove: removeDocument,
+      },
+      getRequestDenial: ({ user, member, channel, guildId }) => {
+        const denial = this.getRequestDenial(
+          { user, member },
+          channel,
+          guildId,
+        );
+        if (!denial) return null;
+        return denial.kind === "budget"
+          ? formatBudgetViolation(denial.violation)
+          : "You don't have permission to use the bot here.";
+      },
+      runPrompt: (input) => this.runPrompt(input),
       retryFromMessage: async (msg: Message) =>
         await this.generateForMessage(msg, { bypassMentionGate: true }),
       logger: this.logger,
@@ -250,11 +622,12 @@ export class DiscordOperator {
 
   private async prepareMessageCreate(
     msg: Message,
+    requester: Requester,
     options?: { bypassMentionGate?: boolean },
   ) {
     this.cachedConfig = await getConfig();
     // prevent infinite loop
-    if (msg.author.bot) return false;
+    if (requester.user.bot) return false;
     const isDM = msg.channel.type === ChannelType.DM;
     const bypassMentionGate = options?.bypassMentionGate ?? false;
     if (
@@ -265,27 +638,54 @@ export class DiscordOperator {
       return false;
     }
 
-    const { roleIds, channelIds } = this.getChannelsAndRolesFromMessage(msg);
+    const denial = this.getRequestDenial(requester, msg.channel, msg.guildId);
+    if (denial?.kind === "forbidden") return false;
+    if (denial?.kind === "budget") {
+      await this.replyBudgetExceeded(msg, denial.violation);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Why the bot must not respond to `requester` in `channel`: permissions
+   * or an exceeded budget. Null if it may.
+   */
+  private getRequestDenial(
+    requester: Requester,
+    channel: Message["channel"],
+    guildId: string | null,
+  ): RequestDenial | null {
+    const { roleIds, channelIds } = this.getChannelsAndRoles(
+      channel,
+      requester.member,
+    );
     const canRespond = this.getChannelPermission({
-      messageAuthorId: msg.author.id,
-      isDM,
+      messageAuthorId: requester.user.id,
+      isDM: channel.type === ChannelType.DM,
       roleIds,
       channelIds,
     });
-    if (!canRespond) return false;
-    const effectiveModel = getEffectiveProviderModel(
-      msg.channel,
-      this.cachedConfig.per_channel_model ?? false,
-      this.channelProviderModelOverrides,
-      this.defaultProviderModel,
-      this.globalProviderModel,
-    );
+    if (!canRespond) return { kind: "forbidden" };
+
+    const violation = this.getBudgetViolation(requester.user.id, guildId);
+    if (violation) {
+      this.logger.logInfo(
+        `Budget exceeded (user ID: ${requester.user.id}): ${violation.scope} ${violation.period} ${violation.metric} limit`,
+      );
+      return { kind: "budget", violation };
+    }
+    return null;
+  }
+
+  private async resolveModel(effectiveModel: string) {
     const { provider, model, gatewayAdapter } =
       parseProviderModelString(effectiveModel);
     const providers = await getProvidersFromConfig();
     if (!providers[provider]) {
       this.logger.logError(`Configuration not found for provider: ${provider}`);
-      return false;
+      return null;
     }
     if (gatewayAdapter) {
       this.logger.logInfo(
@@ -319,35 +719,97 @@ export class DiscordOperator {
     };
   }
 
-  private async prepareStreamOptions(
-    msg: Message,
-    options?: { bypassMentionGate?: boolean },
-  ) {
-    const prepared = await this.prepareMessageCreate(msg, options);
-    if (!prepared) return false;
-    const {
-      modelInstance,
-      isAnthropic,
-      provider,
-      gatewayAdapter,
-      effectiveModel,
-    } = prepared;
+  private getBudgetViolation(userId: string, guildId: string | null) {
+    return getBudgetViolation({
+      budgets: this.cachedConfig.budgets,
+      adminIds: decodeIds(this.cachedConfig.permissions.users.admin_ids),
+      userId,
+      guildId,
+      getTotals: (filter) => this.usageLedger.getTotals(filter),
+    });
+  }
 
-    let { messages, userWarnings, currentMessageImageIds } =
-      await this.buildMessages(msg, effectiveModel);
+  private async replyBudgetExceeded(msg: Message, violation: BudgetViolation) {
+    await this.replyWarning(msg, formatBudgetViolation(violation));
+  }
 
+  private async replyWarning(msg: Message, warning: string) {
+    const content = `⚠️ ${warning}`;
     const usePlainResponses = this.cachedConfig.use_plain_responses ?? false;
-    let warnEmbed: EmbedBuilder | null = null;
-    if (!usePlainResponses) {
-      warnEmbed = new EmbedBuilder();
-      const sorted = Array.from(userWarnings).sort();
-      if (sorted.length) {
-        warnEmbed.setFields(
-          sorted.map((w) => ({ name: w, value: "", inline: false })),
+    await msg
+      .reply({
+        ...(usePlainResponses
+          ? { content }
+          : {
+              embeds: [
+                new EmbedBuilder().setDescription(content).setColor(16705372),
+              ],
+            }),
+        allowedMentions: { parse: [], repliedUser: false },
+      })
+      .catch((e) => this.logger.logError(e));
+  }
+
+  private async recordUsage({
+    msg,
+    userId,
+    providerModel,
+    usage,
+    responseMessageIds,
+  }: {
+    msg: Message;
+    userId: string;
+    providerModel: string;
+    usage: LanguageModelUsage | null;
+    responseMessageIds: string[];
+  }) {
+    if (!usage) return;
+
+    let costUsd: number | null = null;
+    const spec = providerModelToModelsDevSpecifier(providerModel);
+    if (spec) {
+      try {
+        const info = await this.modelCapability.resolve(spec);
+        costUsd = this.modelCapability.estimateCostUsd(info, usage) ?? null;
+      } catch (e) {
+        this.logger.logDebug(
+          `[usage] cost lookup failed for '${spec}' (from '${providerModel}')`,
         );
+        this.logger.logDebug(e);
       }
     }
 
+    this.usageLedger.record({
+      messageId: responseMessageIds.at(-1) ?? null,
+      userId,
+      channelId: msg.channel.id,
+      guildId: msg.guildId,
+      providerModel,
+      usage,
+      costUsd,
+    });
+  }
+
+  private async prepareStreamOptions(
+    msg: Message,
+    requester: Requester,
+    effectiveModel: string,
+    embedSearch: () => Promise<number[] | null>,
+  ) {
+    const prepared = await this.resolveModel(effectiveModel);
+    if (!prepared) return null;
+    const { modelInstance, isAnthropic, provider, gatewayAdapter } = prepared;
+
+    let { messages, userWarnings, currentMessageImageIds } =
+      await this.buildMessages(msg, requester, effectiveModel, embedSearch);
+    // extensions see the conversation oldest first
+    messages = (
+      await this.toolManager.extensionHost.beforeGenerate(
+        messages.toReversed(),
+        { message: msg, providerModel: effectiveModel },
+      )
+    ).toReversed();
+
     const params = this.cachedConfig.models[effectiveModel];
     const {
       tools: useTools,
@@ -359,6 +821,8 @@ export class DiscordOperator {
       max_tokens,
       top_p,
       top_k,
+      fallback_models: _fallbackModels,
+      context_window,
       ...rest
     } = params ?? {};
     const toolsDisabledForModel = useTools === false;
@@ -393,9 +857,62 @@ export class DiscordOperator {
 
     const restPart = providerOptions ? ({ providerOptions } as const) : {};
 
+    const controller = new AbortController();
+    const id = randomUUID();
+    this.cancellationMap.set(id, controller);
+
     let tools = toolsDisabledForModel
       ? undefined
       : await this.toolManager.getTools();
+    if (tools) {
+      tools = filterToolsByScope(
+        tools,
+        this.getToolRules({
+          channel: msg.channel,
+          roleIds: requester.member?.roles.cache.keys() ?? [],
+          userId: requester.user.id,
+        }),
+      );
+      tools = this.withToolApproval(
+        msg,
+        requester.user.id,
+        tools,
+        controller.signal,
+      );
+    }
+
+    const limits = await this.getModelLimits(effectiveModel, context_window);
+    if (limits) {
+      const budget = getInputTokenBudget({
+        contextWindow: limits.context,
+        outputLimit: limits.output,
+        maxOutputTokens: typeof max_tokens === "number" ? max_tokens : null,
+      });
+      const fitted = fitMessagesToContextWindow({
+        messages,
+        budget,
+        reservedTokens: estimateToolTokens(tools),
+      });
+      if (fitted.droppedCount > 0) {
+        this.logger.logInfo(
+          `Dropped ${fitted.droppedCount} oldest message(s) to fit the context window of [${effectiveModel}] (~${fitted.estimatedTokens}/${budget} tokens)`,
+        );
+        messages = fitted.messages;
+        userWarnings.add(Warning.messageHistoryTruncated);
+      }
+    }
+
+    const usePlainResponses = this.cachedConfig.use_plain_responses ?? false;
+    let warnEmbed: EmbedBuilder | null = null;
+    if (!usePlainResponses) {
+      warnEmbed = new EmbedBuilder();
+      const sorted = Array.from(userWarnings).sort();
+      if (sorted.length) {
+        warnEmbed.setFields(
+          sorted.map((w) => ({ name: w, value: "", inline: false })),
+        );
+      }
+    }
 
     if (anthropicCacheControl) {
       this.logger.logDebug(
@@ -412,10 +929,6 @@ export class DiscordOperator {
       }
     }
 
-    const controller = new AbortController();
-    const id = randomUUID();
-    this.cancellationMap.set(id, controller);
-
     const opts: StreamTextParams = {
       model: modelInstance,
       messages: messages.reverse(),
@@ -464,6 +977,57 @@ export class DiscordOperator {
     };
   }
 
+  private loadToolScopes() {
+    this.toolScopes = toolScopesFromRows(this.channelSettings.getToolScopes());
+  }
+
+  /** Tool rules from config.yaml and `/tools` that apply to a message. */
+  private getToolRules(target: {
+    channel: ChannelRef;
+    roleIds: Iterable<string>;
+    userId: string;
+  }) {
+    const scopes = mergeToolScopes(
+      toolScopesFromConfig(this.cachedConfig.tools?.scopes),
+      this.toolScopes,
+    );
+    return getApplicableToolRules(scopes, target);
+  }
+
+  private withToolApproval(
+    msg: Message,
+    requesterId: string,
+    tools: Record<string, Tool>,
+    signal: AbortSignal,
+  ) {
+    const toolsConfig = this.cachedConfig.tools;
+    const adminIds = decodeIds(this.cachedConfig.permissions.users.admin_ids);
+    const timeoutSeconds = toolsConfig?.approval_timeout_seconds;
+
+    return withToolApproval(
+      tools,
+      (name) =>
+        toolsConfig?.tool_options?.[name]?.require_approval ??
+        this.toolManager.getMcpServerOptions(name)?.require_approval ??
+        false,
+      async ({ toolName, input }) => {
+        this.logger.logInfo(
+          `[Tool Call] Waiting for approval: \`${toolName}\``,
+        );
+        const outcome = await this.toolApprovals.request({
+          target: msg,
+          toolName,
+          input,
+          canDecide: (userId) => userId === requesterId || adminIds.has(userId),
+          timeoutMs: timeoutSeconds ? timeoutSeconds * 1000 : undefined,
+          signal,
+        });
+        this.logger.logInfo(`[Tool Call] \`${toolName}\`: ${outcome}`);
+        return outcome;
+      },
+    );
+  }
+
   private logStreamWarning(warns: CallWarning[] | null | undefined) {
     if (!warns || warns.length === 0) return;
     this.logger.logWarn("Warnings from model provider:");
@@ -513,45 +1077,101 @@ export class DiscordOperator {
     }
   }
 
+  /**
+   * Answer a `/prompt` as if `user` had sent it. The rendered prompt becomes
+   * the stored history of the bot message that shows it.
+   */
+  private async runPrompt({
+    message,
+    user,
+    member,
+    messages,
+  }: {
+    message: Message;
+    user: User;
+    member: GuildMember | null;
+    messages: ModelMessage[];
+  }) {
+    await this.modelMessageOperator.create({
+      messageId: message.id,
+      // history is read newest first
+      messages: messages.toReversed(),
+    });
+    return this.generateForMessage(message, {
+      bypassMentionGate: true,
+      requester: { user, member },
+    });
+  }
+
   private messageCreate = async (msg: Message) => {
+    if (msg.author.id !== this.client.user?.id) {
+      // not awaited so slow hooks don't delay the response
+      void this.toolManager.extensionHost.onMessage(msg);
+    }
     await this.generateForMessage(msg);
   };
 
   private async generateForMessage(
     msg: Message,
-    options?: { bypassMentionGate?: boolean },
+    options?: { bypassMentionGate?: boolean; requester?: Requester },
   ) {
-    const streamOptions = await this.prepareStreamOptions(msg, options);
-    if (!streamOptions) return false;
+    const requester = options?.requester ?? {
+      user: msg.author,
+      member: msg.member,
+    };
+    const shouldRespond = await this.prepareMessageCreate(
+      msg,
+      requester,
+      options,
+    );
+    if (!shouldRespond) return false;
 
-    const {
-      id,
-      opts,
-      messages,
-      currentMessageImageIds,
-      compatibleMode,
-      usePlainResponses,
-      warnEmbed,
-      anthropicCacheControl,
-      effectiveModel,
-    } = streamOptions;
+    const primaryModel = getEffectiveProviderModel(
+      msg.channel,
+      this.cachedConfig.per_channel_model ?? false,
+      this.channelProviderModelOverrides,
+      this.defaultProviderModel,
+      this.globalProviderModel,
+    );
+    const { chain, skipped } = getFallbackChain(
+      primaryModel,
+      this.cachedConfig,
+    );
+    for (const model of skipped) {
+      this.logger.logWarn(
+        `Fallback model '${model}' is not configured in models, skipping`,
+      );
+    }
 
     const typingInterval = setInterval(() => this.sendTyping(msg), 1000 * 5);
     try {
       this.sendTyping(msg);
 
-      const generateStream = async () => {
-        await runStreamAttempt({
-          ctx: {
-            logger: this.logger,
-            config: this.cachedConfig,
-            curProviderModel: effectiveModel,
-            safeEdit: this.safeEdit.bind(this),
-            logStreamWarning: this.logStreamWarning.bind(this),
-            logStreamFinishReason: this.logStreamFinishReason.bind(this),
-            modelMessageOperator: this.modelMessageOperator,
-          },
+      const maxRetry = Math.max(1, this.cachedConfig.max_retry ?? 3);
+      let lastError: unknown = null;
+      // models that could not be resolved are skipped without an attempt
+      let lastAttempted: string | null = null;
+      // what memories and knowledge base excerpts are matched against,
+      // embedded once for every model tried
+      const embedSearch = lazyEmbedding(
+        msg.content.replace(/<@[!&]?\d+>/g, "").trim(),
+      );
+      for (const [index, effectiveModel] of chain.entries()) {
+        const streamOptions = await this.prepareStreamOptions(
           msg,
+          requester,
+          effectiveModel,
+          embedSearch,
+        );
+        if (!streamOptions) continue;
+        if (lastAttempted) {
+          this.logger.logWarn(
+            `Falling back from [${lastAttempted}] to [${effectiveModel}]`,
+          );
+        }
+        lastAttempted = effectiveModel;
+
+        const {
           id,
           opts,
           messages,
@@ -560,35 +1180,137 @@ export class DiscordOperator {
           usePlainResponses,
           warnEmbed,
           anthropicCacheControl,
-          typingInterval,
-        });
-      };
+        } = streamOptions;
+
+        // streamText only reports provider errors through onError; keep the
+        // last one so the fallback decision can look at its status code.
+        let streamError: unknown = null;
+        opts.onError = ({ error }) => {
+          streamError = error;
+          this.logger.logError("Error from model provider", error);
+        };
+        // a failed or cancelled attempt never reports its total, so add up
+        // the steps it finished to charge them anyway
+        let attemptUsage = emptyUsage();
+        const onStepFinish = opts.onStepFinish;
+        opts.onStepFinish = (step) => {
+          addUsage(attemptUsage, step.usage);
+          return onStepFinish?.(step);
+        };
 
-      const maxRetry = Math.max(1, this.cachedConfig.max_retry ?? 3);
-      for (let i = 0; i < maxRetry; i++) {
         try {
-          await generateStream();
-          return true;
-        } catch (e) {
-          if (i + 1 === maxRetry) throw e;
-          this.logger.logError(
-            `Encountered error while generating response, trying ({${i + 1}/${maxRetry}}`,
-            e,
-          );
+          for (let i = 0; i < maxRetry; i++) {
+            streamError = null;
+            attemptUsage = emptyUsage();
+            try {
+              const result = await runStreamAttempt({
+                ctx: {
+                  logger: this.logger,
+                  config: this.cachedConfig,
+                  curProviderModel: effectiveModel,
+                  fallbackFrom: index > 0 ? primaryModel : null,
+                  safeEdit: this.safeEdit.bind(this),
+                  logStreamWarning: this.logStreamWarning.bind(this),
+                  logStreamFinishReason: this.logStreamFinishReason.bind(this),
+                  modelMessageOperator: this.modelMessageOperator,
+                },
+                msg,
+                id,
+                opts,
+                messages,
+                currentMessageImageIds,
+                compatibleMode,
+                usePlainResponses,
+                warnEmbed,
+                anthropicCacheControl,
+                typingInterval,
+              });
+              if (index > 0) {
+                this.logger.logInfo(
+                  `Answered by fallback model [${effectiveModel}] (primary: [${primaryModel}])`,
+                );
+              }
+              await this.recordUsage({
+                msg,
+                userId: requester.user.id,
+                providerModel: effectiveModel,
+                usage: result.totalUsage,
+                responseMessageIds: result.responseMessageIds,
+              }).catch((e) => this.logger.logError("Error recording usage", e));
+              await this.toolManager.extensionHost.afterGenerate(
+                {
+                  text: result.text,
+                  messages: result.responseMessages,
+                  usage: result.totalUsage,
+                  messageIds: result.responseMessageIds,
+                },
+                { message: msg, providerModel: effectiveModel },
+              );
+              return true;
+            } catch (e) {
+              if (
+                (attemptUsage.inputTokens ?? attemptUsage.outputTokens) !==
+                undefined
+              ) {
+                await this.recordUsage({
+                  msg,
+                  userId: requester.user.id,
+                  providerModel: effectiveModel,
+                  usage: attemptUsage,
+                  responseMessageIds: [],
+                }).catch((e) =>
+                  this.logger.logError("Error recording usage", e),
+                );
+              }
+              // cancelled by the user: don't retry or fall back
+              if (opts.abortSignal?.aborted) throw e;
+
+              lastError = streamError ?? e;
+              if (i + 1 === maxRetry) break;
+              if (shouldFallbackImmediately(lastError)) {
+                this.logger.logError(
+                  `Model [${effectiveModel}] is unavailable, skipping retries`,
+                  lastError,
+                );
+                break;
+              }
+              this.logger.logError(
+                `Encountered error while generating response, trying ({${i + 1}/${maxRetry}}`,
+                e,
+              );
+            }
+          }
+        } finally {
+          this.cancellationMap.delete(id);
         }
       }
 
-      return true;
+      if (lastError) throw lastError;
+      if (!lastAttempted) {
+        this.logger.logError(
+          `No model of [${chain.join(", ")}] could be resolved, not responding`,
+        );
+        await this.replyWarning(
+          msg,
+          "No configured model is available right now. Please contact an admin.",
+        );
+      }
+      return false;
     } catch (e) {
       this.logger.logError("Error while generating response", e);
       return false;
     } finally {
       clearInterval(typingInterval);
-      this.cancellationMap.delete(id);
     }
   }
 
   private messageDelete = async (msg: { id: string }) => {
+    const removed = this.conversationSummaries.invalidate(msg.id);
+    if (removed > 0) {
+      this.logger.logDebug(
+        `Invalidated ${removed} conversation summary(ies) covering ${msg.id}`,
+      );
+    }
     await this.modelMessageOperator.removeAll(msg.id);
   };
 
@@ -615,14 +1337,22 @@ export class DiscordOperator {
     return true;
   }
 
-  private async buildMessages(msg: Message, effectiveModel: string) {
+  private async buildMessages(
+    msg: Message,
+    requester: Requester,
+    effectiveModel: string,
+    embedSearch: () => Promise<number[] | null>,
+  ) {
     const params = this.cachedConfig.models[effectiveModel];
     const { tools: useTools } = params ?? {};
     const toolsDisabledForModel = useTools === false;
-    const maxMessages = this.cachedConfig.max_messages ?? 25;
+    const summarization = getSummarizationOptions(this.cachedConfig);
+    const maxMessages =
+      summarization?.maxHistory ?? this.cachedConfig.max_messages ?? 25;
 
     let currMsg: Message | null = msg;
-    const messages: ModelMessage[] = []; // new -> old
+    let messages: ModelMessage[] = []; // new -> old
+    const chain: ChainEntry[] = []; // new -> old
     const userWarnings = new Set<string>();
     let currentMessageImageIds: string[] = [];
     while (currMsg && messages.length < maxMessages) {
@@ -633,6 +1363,12 @@ export class DiscordOperator {
           history = history.slice(0, maxMessages - messages.length);
         }
         messages.push(...history.flatMap((h) => h.model_message));
+        chain.push(
+          ...history.map((h) => ({
+            messageId: h.message_id,
+            messages: h.model_message,
+          })),
+        );
 
         const lastId = history.at(-1)!.parent_message_id;
 
@@ -651,6 +1387,7 @@ export class DiscordOperator {
 
         if (message) {
           messages.push(message);
+          chain.push({ messageId: currMsg.id, messages: [message] });
 
           // a parent not in db
           if (currMsg.id !== msg.id) {
@@ -671,15 +1408,33 @@ export class DiscordOperator {
     }
 
     this.logger.logInfo(
-      `Message received (user ID: ${msg.author.id}, attachments: ${msg.attachments.size}, conversation length: ${messages.length}):\n${msg.content}`,
+      `Message received (user ID: ${requester.user.id}, attachments: ${msg.attachments.size}, conversation length: ${messages.length}):\n${msg.content}`,
     );
 
+    if (summarization) {
+      messages = await this.condenseHistory({
+        msg,
+        requesterId: requester.user.id,
+        chain,
+        options: summarization,
+        effectiveModel,
+        userWarnings,
+      });
+    }
+
     if (!toolsDisabledForModel && this.cachedConfig.rag?.enable) {
+      let queryEmbedding: number[] | null = null;
+      try {
+        queryEmbedding = await embedSearch();
+      } catch (e) {
+        this.logger.logWarn("Could not embed the message for memories", e);
+        userWarnings.add(Warning.memoryUnranked);
+      }
       const userIds = getUsersFromModelMessages(messages);
-      const memories = await getRecommendedMemoryStringForUsers([
-        ...userIds,
-        "self",
-      ]);
+      const memories = await getRecommendedMemoryStringForUsers(
+        [...userIds, "self"],
+        queryEmbedding,
+      );
       messages.push(...memories);
 
       messages.push({
@@ -693,12 +1448,47 @@ export class DiscordOperator {
       });
     }
 
-    if (this.cachedConfig.system_prompt) {
+    const resources = await this.readAttachedResources(msg.channel.id);
+    if (resources.failed > 0) userWarnings.add(Warning.resourceUnavailable);
+    if (resources.read.length > 0) {
+      messages.push({
+        role: "system",
+        content: formatAttachedResources(resources.read),
+      });
+    }
+
+    if (this.cachedConfig.rag?.enable && msg.guildId) {
+      try {
+        const excerpts = await findRelevantKnowledge(msg.guildId, embedSearch);
+        if (excerpts.length > 0) {
+          messages.push({
+            role: "system",
+            content: formatKnowledgeContext(excerpts),
+          });
+        }
+      } catch (e) {
+        this.logger.logWarn("Could not search the knowledge base", e);
+        userWarnings.add(Warning.knowledgeUnavailable);
+      }
+    }
+
+    const { prompt: systemPrompt } = this.getSystemPromptForChannel(
+      msg.channel,
+    );
+    if (systemPrompt) {
       const { date, time } = nowIsoLike();
-      let sys = (this.cachedConfig.system_prompt || "")
-        .replace("{date}", date)
-        .replace("{time}", time)
-        .trim();
+      const isDM = msg.channel.type === ChannelType.DM;
+      let sys = renderSystemPrompt(systemPrompt, {
+        date,
+        time,
+        channel_name:
+          "name" in msg.channel && msg.channel.name
+            ? msg.channel.name
+            : "direct message",
+        channel_id: msg.channel.id,
+        guild_name: msg.guild?.name ?? (isDM ? "direct message" : ""),
+        guild_id: msg.guildId ?? "",
+      }).trim();
       sys +=
         "\n\n" +
         "<discord-system>\n" +
@@ -719,6 +1509,128 @@ export class DiscordOperator {
     return { messages, userWarnings, currentMessageImageIds };
   }
 
+  /** Contents of the MCP resources attached with `/resource attach`. */
+  private async readAttachedResources(channelId: string) {
+    const rows = this.channelSettings.getChannelResources(channelId);
+    const maxText = this.cachedConfig.max_text ?? 100000;
+    const results = await Promise.allSettled(
+      rows.map(async (row) => ({
+        uri: row.uri,
+        text: resourceContentsToText(
+          await this.toolManager.readMcpResource(row.server_key, row.uri),
+          maxText,
+        ),
+      })),
+    );
+
+    const read: Array<{ uri: string; text: string }> = [];
+    let failed = 0;
+    results.forEach((r, i) => {
+      if (r.status === "fulfilled") {
+        read.push(r.value);
+        return;
+      }
+      failed++;
+      this.logger.logWarn(
+        `Could not read resource [${rows[i]!.uri}]`,
+        r.reason,
+      );
+    });
+    return { read, failed };
+  }
+
+  /**
+   * Replace the older part of a long reply chain with a cached (or freshly
+   * written) summary. Falls back to plain truncation if summarizing fails.
+   */
+  private async condenseHistory({
+    msg,
+    requesterId,
+    chain,
+    options,
+    effectiveModel,
+    userWarnings,
+  }: {
+    msg: Message;
+    requesterId: string;
+    chain: ChainEntry[];
+    options: SummarizationOptions;
+    effectiveModel: string;
+    userWarnings: Set<string>;
+  }): Promise<ModelMessage[]> {
+    const all = chain.flatMap((e) => e.messages);
+    const cachedAnchorIds = this.conversationSummaries.getAnchorIds(
+      chain.map((e) => e.messageId),
+    );
+    const plan = planSummarization(chain, options, cachedAnchorIds);
+    if (!plan) return all;
+
+    const recent = chain.slice(0, plan.anchorIndex + 1);
+    const anchorId = recent.at(-1)!.messageId;
+    const withSummary = (summary: string) => [
+      ...recent.flatMap((e) => e.messages),
+      buildSummaryMessage(summary),
+    ];
+
+    if (plan.reuse) {
+      const cached = this.conversationSummaries.get(anchorId);
+      if (cached) return withSummary(cached.summary);
+    }
+
+    const previousAnchorId =
+      plan.previousAnchorIndex !== null
+        ? chain[plan.previousAnchorIndex]!.messageId
+        : null;
+    const previous = previousAnchorId
+      ? this.conversationSummaries.get(previousAnchorId)
+      : null;
+    const toSummarize = chain.slice(
+      plan.anchorIndex + 1,
+      previous ? plan.previousAnchorIndex! + 1 : undefined,
+    );
+
+    const providerModel = options.model ?? effectiveModel;
+    try {
+      const resolved = await this.resolveModel(providerModel);
+      if (!resolved) throw new Error(`Cannot resolve model: ${providerModel}`);
+
+      const { summary, usage } = await summarizeConversation({
+        model: resolved.modelInstance,
+        transcript: formatTranscript(toSummarize),
+        previousSummary: previous?.summary,
+      });
+
+      this.conversationSummaries.save({
+        anchorMessageId: anchorId,
+        summary,
+        providerModel,
+        coveredMessageIds: [
+          ...(previousAnchorId
+            ? this.conversationSummaries.getCoveredMessageIds(previousAnchorId)
+            : []),
+          ...toSummarize.map((e) => e.messageId),
+        ],
+      });
+      this.logger.logInfo(
+        `Summarized ${toSummarize.length} message(s) older than ${anchorId} with [${providerModel}]`,
+      );
+
+      await this.recordUsage({
+        msg,
+        userId: requesterId,
+        providerModel,
+        usage,
+        responseMessageIds: [],
+      }).catch((e) => this.logger.logError("Error recording usage", e));
+
+      return withSummary(summary);
+    } catch (e) {
+      this.logger.logError("Failed to summarize conversation history", e);
+      userWarnings.add(Warning.messageHistoryTruncated);
+      return all.slice(0, this.cachedConfig.max_messages ?? 25);
+    }
+  }
+
   private async messageToModelMessages(msg: Message, effectiveModel: string) {
     const hasImageAttachments = [...msg.attachments.values()].some((att) =>
       att.contentType?.startsWith("image"),
@@ -950,23 +1862,52 @@ export class DiscordOperator {
     }
   }
 
-  private getChannelsAndRolesFromMessage(msg: Message) {
+  /**
+   * Context and output limits of a model. A `context_window` set in the model
+   * config takes priority over models.dev. Returns null when unknown.
+   */
+  private async getModelLimits(
+    providerModel: string,
+    contextWindowOverride: unknown,
+  ): Promise<{ context: number; output: number | null } | null> {
+    const spec = providerModelToModelsDevSpecifier(providerModel);
+    let info: ModelCapabilityInfo | null = null;
+    if (spec) {
+      try {
+        info = await this.modelCapability.resolve(spec);
+      } catch (e) {
+        this.logger.logDebug(
+          `[context] capability lookup failed for '${spec}' (from '${providerModel}')`,
+        );
+        this.logger.logDebug(e);
+      }
+    }
+
+    const context =
+      typeof contextWindowOverride === "number" && contextWindowOverride > 0
+        ? contextWindowOverride
+        : info?.limit.context;
+    if (!context) return null;
+
+    return { context, output: info?.limit.output || null };
+  }
+
+  private getChannelsAndRoles(
+    channel: Message["channel"],
+    member: GuildMember | null,
+  ) {
     const roleIds = new Set(
-      msg.member?.roles.cache ? [...msg.member.roles.cache.keys()] : [],
+      member?.roles.cache ? [...member.roles.cache.keys()] : [],
     );
 
     const channelIds = new Set<string>();
-    channelIds.add(msg.channel.id);
+    channelIds.add(channel.id);
 
-    if ("parentId" in msg.channel && msg.channel.parentId) {
-      channelIds.add(msg.channel.parentId);
+    if ("parentId" in channel && channel.parentId) {
+      channelIds.add(channel.parentId);
     }
-    if (
-      "parent" in msg.channel &&
-      msg.channel.parent &&
-      msg.channel.parent.parentId
-    ) {
-      channelIds.add(msg.channel.parent.parentId);
+    if ("parent" in channel && channel.parent && channel.parent.parentId) {
+      channelIds.add(channel.parent.parentId);
     }
 
     return { roleIds, channelIds };
@@ -1030,6 +1971,9 @@ export class DiscordOperator {
 
   async destroy() {
     clearInterval(this.trimInterval);
+    stopConfigWatcher();
+    this.unsubscribeConfig?.();
+    this.unsubscribeConfig = null;
     if (this.statusInterval) clearInterval(this.statusInterval);
 
     this.client.off("messageDelete", this.messageDelete);
@@ -1039,6 +1983,9 @@ export class DiscordOperator {
     this.client.off("shardResume", this.setStatus);
     this.client.off("shardReconnecting", this.setStatus);
 
+    this.adminServer?.stop(true);
+    this.adminServer = null;
+
     await this.client.destroy();
   }
 }
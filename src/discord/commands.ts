@@ -19,22 +19,264 @@ export const commands: Record<string, ApplicationCommandData> = {
       },
     ],
   },
+  "model-overrides": {
+    name: "model-overrides",
+    description: "List or clear per-channel model overrides",
+    type: ApplicationCommandType.ChatInput,
+    options: [
+      {
+        type: ApplicationCommandOptionType.Subcommand,
+        name: "list",
+        description: "List model overrides in this server",
+      },
+      {
+        type: ApplicationCommandOptionType.Subcommand,
+        name: "clear",
+        description: "Clear model overrides in this server",
+        options: [
+          {
+            type: ApplicationCommandOptionType.Channel,
+            name: "channel",
+            description: "Only clear the override of this channel or thread",
+            required: false,
+          },
+        ],
+      },
+    ],
+  },
+  "system-prompt": {
+    name: "system-prompt",
+    description: "View or change the system prompt of this channel or thread",
+    type: ApplicationCommandType.ChatInput,
+    options: [
+      {
+        type: ApplicationCommandOptionType.Subcommand,
+        name: "view",
+        description: "Show the effective system prompt",
+      },
+      {
+        type: ApplicationCommandOptionType.Subcommand,
+        name: "set",
+        description: "Set the system prompt of this channel or thread",
+        options: [
+          {
+            type: ApplicationCommandOptionType.String,
+            name: "prompt",
+            description:
+              "New system prompt (omit to edit it in a multi-line dialog)",
+            required: false,
+            maxLength: 6000,
+          },
+        ],
+      },
+      {
+        type: ApplicationCommandOptionType.Subcommand,
+        name: "reset",
+        description: "Remove the system prompt override of this channel",
+      },
+    ],
+  },
+  usage: {
+    name: "usage",
+    description: "Show token usage and estimated cost",
+    type: ApplicationCommandType.ChatInput,
+    options: [
+      {
+        type: ApplicationCommandOptionType.String,
+        name: "period",
+        description: "Time range (default: this month)",
+        required: false,
+        choices: [
+          { name: "Today", value: "today" },
+          { name: "This month", value: "month" },
+          { name: "All time", value: "all" },
+        ],
+      },
+      {
+        type: ApplicationCommandOptionType.User,
+        name: "user",
+        description: "Only show usage of this user",
+        required: false,
+      },
+    ],
+  },
   "reload-tools": {
     name: "reload-tools",
     description: "Reload tools",
     type: ApplicationCommandType.ChatInput,
+    options: [
+      {
+        type: ApplicationCommandOptionType.String,
+        name: "server",
+        description: "Only reconnect this MCP server (see `/mcp-status`)",
+        required: false,
+      },
+    ],
+  },
+  "mcp-status": {
+    name: "mcp-status",
+    description: "Show the state of each MCP server",
+    type: ApplicationCommandType.ChatInput,
   },
   tools: {
     name: "tools",
     description:
-      "Toggle tools for the models (use `/list-tools` to see available tools)",
+      "Toggle tools, or limit them per channel, role or user (see `/list-tools`)",
     type: ApplicationCommandType.ChatInput,
     options: [
       {
         type: ApplicationCommandOptionType.String,
         name: "tools",
-        description: "Tools to toggle on/off (comma-separated)",
+        description: "Tools to change (comma-separated)",
+        required: false,
+      },
+      {
+        type: ApplicationCommandOptionType.String,
+        name: "scope",
+        description: "Where the change applies (default: everywhere)",
+        required: false,
+        choices: [
+          { name: "Everywhere", value: "global" },
+          { name: "This channel or thread", value: "channel" },
+          { name: "A role", value: "role" },
+          { name: "A user", value: "user" },
+        ],
+      },
+      {
+        type: ApplicationCommandOptionType.String,
+        name: "action",
+        description: "What to do (default: toggle everywhere)",
+        required: false,
+        choices: [
+          { name: "Toggle on/off", value: "toggle" },
+          { name: "Allow only these tools", value: "allow" },
+          { name: "Deny these tools", value: "deny" },
+          { name: "Clear rules", value: "clear" },
+        ],
+      },
+      {
+        type: ApplicationCommandOptionType.Role,
+        name: "role",
+        description: "Role for scope 'A role'",
+        required: false,
+      },
+      {
+        type: ApplicationCommandOptionType.User,
+        name: "user",
+        description: "User for scope 'A user'",
+        required: false,
+      },
+    ],
+  },
+  prompt: {
+    name: "prompt",
+    description: "Run a prompt template from an MCP server",
+    type: ApplicationCommandType.ChatInput,
+    options: [
+      {
+        type: ApplicationCommandOptionType.String,
+        name: "name",
+        description: "Prompt to run",
         required: true,
+        autocomplete: true,
+      },
+      {
+        type: ApplicationCommandOptionType.String,
+        name: "arguments",
+        description: "name=value pairs separated by commas, or a JSON object",
+        required: false,
+      },
+    ],
+  },
+  resource: {
+    name: "resource",
+    description: "Attach MCP resources to this channel or thread",
+    type: ApplicationCommandType.ChatInput,
+    options: [
+      {
+        type: ApplicationCommandOptionType.Subcommand,
+        name: "attach",
+        description: "Include a resource in every conversation here",
+        options: [
+          {
+            type: ApplicationCommandOptionType.String,
+            name: "uri",
+            description: "Resource URI",
+            required: true,
+            autocomplete: true,
+          },
+        ],
+      },
+      {
+        type: ApplicationCommandOptionType.Subcommand,
+        name: "detach",
+        description: "Detach a resource, or all of them",
+        options: [
+          {
+            type: ApplicationCommandOptionType.String,
+            name: "uri",
+            description: "Resource URI (default: all)",
+            required: false,
+            autocomplete: true,
+          },
+        ],
+      },
+      {
+        type: ApplicationCommandOptionType.Subcommand,
+        name: "list",
+        description: "List the resources attached here",
+      },
+    ],
+  },
+  kb: {
+    name: "kb",
+    description: "Manage this server's knowledge base",
+    type: ApplicationCommandType.ChatInput,
+    options: [
+      {
+        type: ApplicationCommandOptionType.Subcommand,
+        name: "add",
+        description: "Add a document from a file or URL (admin only)",
+        options: [
+          {
+            type: ApplicationCommandOptionType.Attachment,
+            name: "file",
+            description: "Text or markdown file",
+            required: false,
+          },
+          {
+            type: ApplicationCommandOptionType.String,
+            name: "url",
+            description: "Page or file URL",
+            required: false,
+          },
+          {
+            type: ApplicationCommandOptionType.String,
+            name: "title",
+            description:
+              "Title used in citations (default: file name or page title)",
+            required: false,
+          },
+        ],
+      },
+      {
+        type: ApplicationCommandOptionType.Subcommand,
+        name: "list",
+        description: "List the documents in the knowledge base",
+      },
+      {
+        type: ApplicationCommandOptionType.Subcommand,
+        name: "remove",
+        description: "Remove a document (admin only)",
+        options: [
+          {
+            type: ApplicationCommandOptionType.String,
+            name: "document",
+            description: "Document to remove",
+            required: true,
+            autocomplete: true,
+          },
+        ],
       },
     ],
   },
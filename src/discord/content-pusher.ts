@@ -25,6 +25,7 @@ export async function startContentPusher({
   useSmartSplitting,
   logger,
   safeEdit,
+  getStatus,
 }: {
   baseMsg: Message;
   getContent: () => string;
@@ -34,6 +35,8 @@ export async function startContentPusher({
   useSmartSplitting: boolean;
   logger: Logger;
   safeEdit: SafeEdit;
+  /** Status shown as a field on the last message, e.g. tool progress. */
+  getStatus?: (streaming: boolean) => { name: string; value: string } | null;
 }): Promise<{
   lastMsg: Message;
   responseQueue: string[];
@@ -54,16 +57,22 @@ export async function startContentPusher({
   // Cache the last embed state we sent, to avoid spamming the Discord API.
   const sentDescriptions: string[] = [];
   const sentColors: number[] = [];
+  const sentStatuses: string[] = [];
 
   // Last computed display chunks (no indicator).
   let responseQueue: string[] = [];
 
-  const buildEmbed = (description: string, color: number) => {
+  const buildEmbed = (
+    description: string,
+    color: number,
+    status: { name: string; value: string } | null,
+  ) => {
     const emb = warnEmbed
       ? new EmbedBuilder(warnEmbed.toJSON())
       : new EmbedBuilder();
     emb.setDescription(description || "*\<empty_string\>*");
     emb.setColor(color);
+    if (status) emb.addFields({ ...status, inline: false });
     return emb;
   };
 
@@ -99,15 +108,19 @@ export async function startContentPusher({
 
     responseQueue = displayChunks;
 
-    if (displayChunks.length === 0) {
+    const status = getStatus?.(streaming) ?? null;
+    // show tool progress even before the model has written any text
+    const chunks = displayChunks.length === 0 && status ? [""] : displayChunks;
+
+    if (chunks.length === 0) {
       return false;
     }
 
     let didUpdate = false;
 
-    for (let i = 0; i < displayChunks.length; i++) {
-      const chunk = displayChunks[i] ?? "";
-      const isLast = i === displayChunks.length - 1;
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i] ?? "";
+      const isLast = i === chunks.length - 1;
       const showStreamIndicator = streaming && isLast;
 
       const description = showStreamIndicator
@@ -117,7 +130,10 @@ export async function startContentPusher({
         ? EMBED_COLOR_INCOMPLETE
         : EMBED_COLOR_COMPLETE;
 
-      const emb = buildEmbed(description, color);
+      const chunkStatus = isLast ? status : null;
+      const statusKey = chunkStatus ? chunkStatus.value : "";
+
+      const emb = buildEmbed(description, color, chunkStatus);
 
       if (i >= chunkMessages.length) {
         const parent = i === 0 ? baseMsg : chunkMessages[i - 1]!;
@@ -130,14 +146,20 @@ export async function startContentPusher({
         discordMessageCreated.push(msg.id);
         sentDescriptions[i] = description;
         sentColors[i] = color;
+        sentStatuses[i] = statusKey;
         didUpdate = true;
         continue;
       }
 
-      if (sentDescriptions[i] !== description || sentColors[i] !== color) {
+      if (
+        sentDescriptions[i] !== description ||
+        sentColors[i] !== color ||
+        sentStatuses[i] !== statusKey
+      ) {
         await safeEdit(chunkMessages[i]!, { embeds: [emb] });
         sentDescriptions[i] = description;
         sentColors[i] = color;
+        sentStatuses[i] = statusKey;
         didUpdate = true;
       }
     }
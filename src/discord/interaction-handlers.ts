@@ -7,11 +7,36 @@ import {
   TextInputBuilder,
   TextInputStyle,
   type CacheType,
+  type GuildMember,
   type Interaction,
   type Message,
+  type User,
 } from "discord.js";
+import type { ModelMessage } from "ai";
+import { formatExtensionErrors, type ExtensionLoadError } from "../extensions";
 import type { Logger } from "../logger";
-import type { Config } from "../type";
+import { formatMcpStatus, type McpServerStatus } from "../mcp-status";
+import {
+  parsePromptArguments,
+  promptMessagesToModelMessages,
+  type McpPromptInfo,
+  type McpPromptMessage,
+  type McpResourceContents,
+  type McpResourceInfo,
+} from "../mcp-content";
+import type { Config, DbChannelResource, ToolScopeRule } from "../type";
+import type { KnowledgeDocument } from "../rag/knowledge";
+import type { ChannelRef } from "../utils/channel-inheritance";
+import { SYSTEM_PROMPT_PLACEHOLDERS } from "../utils/prompt-template";
+import { formatUsd, getBudgetWindowStart } from "../usage/budget";
+import type { UsageSummaryRow } from "../usage/ledger";
+import type { ToolApprovalDecision } from "./tool-approval";
+import { isToolAllowed, type ToolScopeType } from "../tool-scopes";
+import {
+  groupToolNames,
+  TOOL_SOURCE_LABELS,
+  type ToolOrigin,
+} from "../tool-names";
 
 export type InteractionHandlerContext = {
   getConfig: () => Promise<Config>;
@@ -21,15 +46,130 @@ export type InteractionHandlerContext = {
     id: string;
     parentId?: string | null;
   }) => string;
-  setProviderModelForChannel: (channelId: string, model: string) => void;
+  setProviderModelForChannel: (
+    channelId: string,
+    model: string,
+    guildId: string | null,
+  ) => void;
   setGlobalProviderModel: (model: string) => void;
+  listProviderModelOverrides: (scope: {
+    guildId: string | null;
+    channelId: string;
+  }) => Array<{
+    channelId: string;
+    model: string;
+    active: boolean;
+    updatedAt: number;
+  }>;
+  clearProviderModelOverrides: (scope: {
+    guildId: string | null;
+    channelId?: string | null;
+  }) => number;
+  getSystemPromptForChannel: (channel: ChannelRef) => {
+    prompt: string | null;
+    source: "channel" | "parent" | "default";
+  };
+  setSystemPromptForChannel: (input: {
+    channelId: string;
+    guildId: string | null;
+    prompt: string;
+    userId: string;
+  }) => void;
+  resetSystemPromptForChannel: (channelId: string) => boolean;
+  getToolRules: (target: {
+    channel: ChannelRef;
+    roleIds: string[];
+    userId: string;
+  }) => ToolScopeRule[];
+  setToolScope: (input: {
+    scopeType: ToolScopeType;
+    scopeId: string;
+    guildId: string | null;
+    toolNames: string[];
+    mode: "allow" | "deny";
+    userId: string;
+  }) => void;
+  removeToolScopes: (
+    scopeType: ToolScopeType,
+    scopeId: string,
+    toolNames?: string[],
+  ) => number;
+  usageLedger: {
+    summarize: (filter: {
+      since?: number;
+      userId?: string;
+      guildId?: string;
+    }) => {
+      total: UsageSummaryRow;
+      byUser: UsageSummaryRow[];
+      byModel: UsageSummaryRow[];
+    };
+  };
   toolManager: {
     disabledTools: Set<string>;
     getAllTools: () => Promise<Record<string, any> | undefined>;
+    getToolOrigins: () => Map<string, ToolOrigin>;
+    getExtensionErrors: () => ExtensionLoadError[];
     destroy: () => Promise<void>;
     init: () => Promise<void>;
+    reloadMcpServer: (name: string) => Promise<McpServerStatus | null>;
+    getMcpStatus: () => McpServerStatus[];
+    listMcpPrompts: () => Promise<McpPromptInfo[]>;
+    getMcpPrompt: (
+      serverKey: string,
+      name: string,
+      args: Record<string, string>,
+    ) => Promise<{ description?: string; messages: McpPromptMessage[] }>;
+    listMcpResources: () => Promise<McpResourceInfo[]>;
+    readMcpResource: (
+      serverKey: string,
+      uri: string,
+    ) => Promise<McpResourceContents[]>;
+  };
+  getChannelResources: (channelId: string) => DbChannelResource[];
+  attachResource: (input: {
+    channelId: string;
+    uri: string;
+    serverKey: string;
+    guildId: string | null;
+    attachedBy: string;
+  }) => void;
+  detachResources: (channelId: string, uri?: string) => number;
+  knowledgeBase: {
+    add: (input: {
+      guildId: string;
+      url: string;
+      title: string | null;
+      fileName: string | null;
+      addedBy: string;
+    }) => Promise<{ title: string; chunks: number }>;
+    list: (guildId: string) => Promise<KnowledgeDocument[]>;
+    remove: (guildId: string, id: string) => Promise<string | null>;
   };
+  /**
+   * Why the bot must not respond to `user` in `channel` (permissions or an
+   * exceeded budget), or null if it may.
+   */
+  getRequestDenial: (input: {
+    user: User;
+    member: GuildMember | null;
+    channel: Message["channel"];
+    guildId: string | null;
+  }) => string | null;
+  runPrompt: (input: {
+    message: Message;
+    user: User;
+    member: GuildMember | null;
+    messages: ModelMessage[];
+  }) => Promise<boolean>;
   cancellationMap: Map<string, AbortController>;
+  toolApprovals: {
+    decide: (
+      id: string,
+      userId: string,
+      approved: boolean,
+    ) => ToolApprovalDecision;
+  };
   modelMessageOperator: {
     getReasoning: (messageId: string) => any;
     removeMany: (messageIds: string[]) => Promise<void>;
@@ -138,6 +278,62 @@ export async function handleInteraction(
       });
       return;
     }
+
+    const approval = /^tool_(approve|deny)_(.+)$/.exec(interaction.customId);
+    if (approval) {
+      const [, action, id] = approval;
+      ctx.logger.logDebug(`[Interaction] tool_${action}`);
+      const decision = ctx.toolApprovals.decide(
+        id!,
+        interaction.user.id,
+        action === "approve",
+      );
+
+      const content = {
+        approved: "Tool call approved.",
+        denied: "Tool call denied.",
+        forbidden:
+          "Only the person who sent the message or an admin can decide.",
+        expired: "This approval request is no longer active.",
+      }[decision];
+      await interaction.reply({
+        content,
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+  }
+
+  if (
+    interaction.isModalSubmit() &&
+    interaction.customId.startsWith("system_prompt_modal:")
+  ) {
+    ctx.logger.logDebug("[Interaction] system_prompt_modal");
+    const channelId = interaction.customId.replace("system_prompt_modal:", "");
+    const adminIds = ctx.decodeIds(cachedConfig.permissions.users.admin_ids);
+
+    let output = "";
+    const prompt = interaction.fields
+      .getTextInputValue("system_prompt_text")
+      .trim();
+    if (!adminIds.has(interaction.user.id)) {
+      output = "You don't have permission to manage system prompts.";
+    } else if (!prompt) {
+      output =
+        "System prompt cannot be empty, use `/system-prompt reset` instead.";
+    } else {
+      ctx.setSystemPromptForChannel({
+        channelId,
+        guildId: interaction.guildId,
+        prompt,
+        userId: interaction.user.id,
+      });
+      output = `System prompt updated for <#${channelId}>.`;
+      ctx.logger.logInfo(output);
+    }
+
+    await interaction.reply({ content: output, flags: MessageFlags.Ephemeral });
+    return;
   }
 
   if (interaction.type === InteractionType.ApplicationCommandAutocomplete) {
@@ -175,6 +371,82 @@ export async function handleInteraction(
         }
       }
     }
+
+    if (interaction.commandName === "kb" && focused.name === "document") {
+      const query = String(focused.value || "").toLowerCase();
+      try {
+        const documents = interaction.guildId
+          ? await ctx.knowledgeBase.list(interaction.guildId)
+          : [];
+        await interaction.respond(
+          documents
+            .map((d) => ({
+              name: clipChoice(`${d.title} – ${d.source}`),
+              value: d.id,
+            }))
+            .filter((c) => c.name.toLowerCase().includes(query))
+            .slice(0, 25),
+        );
+      } catch (e) {
+        ctx.logger.logError(e);
+        if (!interaction.responded)
+          await interaction.respond([]).catch(() => {});
+      }
+    }
+
+    if (interaction.commandName === "prompt" && focused.name === "name") {
+      const query = String(focused.value || "").toLowerCase();
+      try {
+        const prompts = await ctx.toolManager.listMcpPrompts();
+        const choices = prompts
+          .filter((p) =>
+            `${p.server} ${p.name} ${p.description ?? ""}`
+              .toLowerCase()
+              .includes(query),
+          )
+          .map((p) => ({
+            name: clipChoice(
+              `${p.name} (${p.server})${p.description ? ` – ${p.description}` : ""}`,
+            ),
+            value: `${p.serverKey}/${p.name}`,
+          }))
+          .filter((c) => c.value.length <= MAX_CHOICE_LENGTH);
+        await interaction.respond(choices.slice(0, 25));
+      } catch (e) {
+        ctx.logger.logError(e);
+        if (!interaction.responded)
+          await interaction.respond([]).catch(() => {});
+      }
+    }
+
+    if (interaction.commandName === "resource" && focused.name === "uri") {
+      const query = String(focused.value || "").toLowerCase();
+      try {
+        const detaching = interaction.options.getSubcommand() === "detach";
+        const choices = detaching
+          ? ctx.getChannelResources(interaction.channelId).map((r) => ({
+              name: clipChoice(r.uri),
+              value: r.uri,
+            }))
+          : (await ctx.toolManager.listMcpResources()).map((r) => ({
+              name: clipChoice(`${r.name} (${r.server}) – ${r.uri}`),
+              value: r.uri,
+            }));
+        await interaction.respond(
+          choices
+            .filter(
+              (c) =>
+                c.value.length <= MAX_CHOICE_LENGTH &&
+                c.name.toLowerCase().includes(query),
+            )
+            .slice(0, 25),
+        );
+      } catch (e) {
+        ctx.logger.logError(e);
+        if (!interaction.responded)
+          await interaction.respond([]).catch(() => {});
+      }
+    }
     return;
   }
 
@@ -205,7 +477,11 @@ export async function handleInteraction(
           break;
         case userIsAdmin:
           if (isPerChannelEnabled) {
-            ctx.setProviderModelForChannel(interaction.channelId, model);
+            ctx.setProviderModelForChannel(
+              interaction.channelId,
+              model,
+              interaction.guildId,
+            );
           } else {
             ctx.setGlobalProviderModel(model);
           }
@@ -224,32 +500,271 @@ export async function handleInteraction(
     });
   }
 
+  if (interaction.commandName === "model-overrides") {
+    const adminIds = ctx.decodeIds(cachedConfig.permissions.users.admin_ids);
+    const userIsAdmin = adminIds.has(interaction.user.id);
+    const subcommand = interaction.options.getSubcommand(true);
+
+    let output = "";
+    if (!userIsAdmin) {
+      output = "You don't have permission to manage model overrides.";
+    } else if (subcommand === "list") {
+      const overrides = ctx.listProviderModelOverrides({
+        guildId: interaction.guildId,
+        channelId: interaction.channelId,
+      });
+      const lines: string[] = [];
+      if (!(cachedConfig.per_channel_model ?? false)) {
+        lines.push(
+          "⚠️ `per_channel_model` is disabled, overrides are stored but not applied.",
+        );
+      }
+      if (overrides.length === 0) {
+        lines.push("No model overrides.");
+      } else {
+        lines.push("**Model overrides:**");
+        for (const o of overrides) {
+          const stale = o.active ? "" : " *(not in config.models, ignored)*";
+          lines.push(`- <#${o.channelId}>: \`${o.model}\`${stale}`);
+        }
+      }
+      output = lines.join("\n");
+    } else if (subcommand === "clear") {
+      const channel = interaction.options.getChannel("channel", false);
+      const cleared = ctx.clearProviderModelOverrides({
+        guildId: interaction.guildId,
+        channelId:
+          channel?.id ?? (interaction.guildId ? null : interaction.channelId),
+      });
+      output = channel
+        ? `Cleared ${cleared} model override(s) for <#${channel.id}>.`
+        : `Cleared ${cleared} model override(s).`;
+      ctx.logger.logInfo(output);
+    }
+
+    await interaction.reply({
+      content: output.slice(0, 2000),
+      flags: isDM ? MessageFlags.Ephemeral : undefined,
+    });
+  }
+
+  if (interaction.commandName === "system-prompt") {
+    const adminIds = ctx.decodeIds(cachedConfig.permissions.users.admin_ids);
+    const userIsAdmin = adminIds.has(interaction.user.id);
+    const subcommand = interaction.options.getSubcommand(true);
+    const channel = interaction.channel;
+
+    let output = "";
+    if (!userIsAdmin) {
+      output = "You don't have permission to manage system prompts.";
+    } else if (!channel) {
+      output = "Unable to determine channel for system prompt.";
+    } else if (subcommand === "view") {
+      const { prompt, source } = ctx.getSystemPromptForChannel({
+        id: channel.id,
+        parentId: "parentId" in channel ? channel.parentId : undefined,
+      });
+      const sourceLabel = {
+        channel: "this channel",
+        parent: "the parent channel",
+        default: "config",
+      }[source];
+      // keep the code block intact when the prompt itself contains fences
+      output = prompt
+        ? `**System prompt** (from ${sourceLabel}):\n` +
+          "```\n" +
+          prompt.replaceAll("```", "`\u200b``").slice(0, 1800) +
+          "\n```"
+        : "No system prompt set.";
+    } else if (subcommand === "set") {
+      const prompt = interaction.options.getString("prompt", false)?.trim();
+      if (!prompt) {
+        const { prompt: current } = ctx.getSystemPromptForChannel({
+          id: channel.id,
+          parentId: "parentId" in channel ? channel.parentId : undefined,
+        });
+
+        const modal = new ModalBuilder()
+          .setCustomId(`system_prompt_modal:${channel.id}`)
+          .setTitle("System prompt");
+
+        const input = new TextInputBuilder()
+          .setCustomId("system_prompt_text")
+          .setLabel("System prompt for this channel")
+          .setStyle(TextInputStyle.Paragraph)
+          .setPlaceholder(
+            SYSTEM_PROMPT_PLACEHOLDERS.map((p) => `{${p}}`).join(" "),
+          )
+          .setMaxLength(4000)
+          .setRequired(true);
+        if (current) input.setValue(current.slice(0, 4000));
+
+        const row = new ActionRowBuilder<TextInputBuilder>().addComponents(
+          input,
+        );
+        modal.addComponents(row);
+
+        await interaction.showModal(modal);
+        return;
+      }
+
+      ctx.setSystemPromptForChannel({
+        channelId: channel.id,
+        guildId: interaction.guildId,
+        prompt,
+        userId: interaction.user.id,
+      });
+      output = `System prompt updated for <#${channel.id}>.`;
+      ctx.logger.logInfo(output);
+    } else if (subcommand === "reset") {
+      const removed = ctx.resetSystemPromptForChannel(channel.id);
+      output = removed
+        ? `System prompt override removed for <#${channel.id}>.`
+        : "This channel has no system prompt override.";
+      ctx.logger.logInfo(output);
+    }
+
+    await interaction.reply({
+      content: output,
+      flags: isDM ? MessageFlags.Ephemeral : undefined,
+    });
+  }
+
+  if (interaction.commandName === "usage") {
+    const adminIds = ctx.decodeIds(cachedConfig.permissions.users.admin_ids);
+    if (!adminIds.has(interaction.user.id)) {
+      await interaction.reply({
+        content: "You don't have permission to view usage.",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    const period = interaction.options.getString("period", false) ?? "month";
+    const user = interaction.options.getUser("user", false);
+    const since =
+      period === "today"
+        ? getBudgetWindowStart("daily")
+        : period === "month"
+          ? getBudgetWindowStart("monthly")
+          : undefined;
+
+    const { total, byUser, byModel } = ctx.usageLedger.summarize({
+      since,
+      userId: user?.id,
+      guildId: interaction.guildId ?? undefined,
+    });
+
+    const periodLabel =
+      period === "today"
+        ? "today"
+        : period === "month"
+          ? "this month"
+          : "all time";
+    const scopeLabel = interaction.guildId ? "this server" : "all servers";
+    const lines = [
+      `**Usage ${periodLabel} in ${scopeLabel}${user ? ` for <@${user.id}>` : ""}**`,
+      formatUsageRow("Total", total),
+    ];
+    if (!user && byUser.length) {
+      lines.push("", "**By user**");
+      lines.push(...byUser.map((r) => formatUsageRow(`<@${r.key}>`, r)));
+    }
+    if (byModel.length) {
+      lines.push("", "**By model**");
+      lines.push(...byModel.map((r) => formatUsageRow(`\`${r.key}\``, r)));
+    }
+
+    await interaction.reply({
+      content: lines.join("\n").slice(0, 2000),
+      allowedMentions: { parse: [] },
+      flags: isDM ? MessageFlags.Ephemeral : undefined,
+    });
+  }
+
   if (interaction.commandName === "tools") {
-    const toolsRaw = interaction.options.getString("tools", true);
+    const toolNames = (interaction.options.getString("tools", false) ?? "")
+      .split(",")
+      .map((t) => t.trim())
+      .filter(Boolean);
+    const scope = interaction.options.getString("scope", false) ?? "global";
+    const action = interaction.options.getString("action", false) ?? "toggle";
     const adminIds = ctx.decodeIds(cachedConfig.permissions.users.admin_ids);
     const userIsAdmin = adminIds.has(interaction.user.id);
 
     let output = "";
     if (!userIsAdmin) {
-      output = "You don't have permission to change the model.";
-    } else {
-      const tools = toolsRaw.split(",").map((t) => t.trim());
+      output = "You don't have permission to change tools.";
+    } else if (action !== "clear" && toolNames.length === 0) {
+      output = "Specify the tools to change.";
+    } else if (scope === "global") {
       const outputs: string[] = [];
-      for (const tool of tools) {
-        if (ctx.toolManager.disabledTools.has(tool)) {
-          ctx.toolManager.disabledTools.delete(tool);
-          outputs.push(`- ◉ \`${tool}\``);
-        } else {
+      const targets =
+        action === "clear" && toolNames.length === 0
+          ? [...ctx.toolManager.disabledTools]
+          : toolNames;
+      for (const tool of targets) {
+        const disable =
+          action === "toggle"
+            ? !ctx.toolManager.disabledTools.has(tool)
+            : action === "deny";
+        if (disable) {
           ctx.toolManager.disabledTools.add(tool);
           outputs.push(`- ○ \`${tool}\``);
+        } else {
+          ctx.toolManager.disabledTools.delete(tool);
+          outputs.push(`- ◉ \`${tool}\``);
         }
       }
-      output = "**Updated tools:**\n" + outputs.join("\n");
+      output = outputs.length
+        ? "**Updated tools:**\n" + outputs.join("\n")
+        : "No tools are disabled.";
+      ctx.logger.logInfo(output);
+    } else {
+      const scopeType = scope as ToolScopeType;
+      const scopeId =
+        scopeType === "channel"
+          ? interaction.channelId
+          : scopeType === "role"
+            ? interaction.options.getRole("role", false)?.id
+            : interaction.options.getUser("user", false)?.id;
+      const label =
+        scopeType === "channel"
+          ? `<#${scopeId}>`
+          : scopeType === "role"
+            ? `<@&${scopeId}>`
+            : `<@${scopeId}>`;
+
+      if (!scopeId) {
+        output = `Choose the ${scopeType} to change.`;
+      } else if (action === "toggle") {
+        output = "Use allow, deny or clear to change a scope.";
+      } else if (action === "clear") {
+        const removed = ctx.removeToolScopes(
+          scopeType,
+          scopeId,
+          toolNames.length ? toolNames : undefined,
+        );
+        output = `Removed ${removed} tool rule(s) for ${label}.`;
+      } else {
+        ctx.setToolScope({
+          scopeType,
+          scopeId,
+          guildId: interaction.guildId,
+          toolNames,
+          mode: action as "allow" | "deny",
+          userId: interaction.user.id,
+        });
+        output =
+          `**${action === "allow" ? "Allowed" : "Denied"} for ${label}:**\n` +
+          toolNames.map((t) => `- \`${t}\``).join("\n");
+      }
       ctx.logger.logInfo(output);
     }
 
     await interaction.reply({
       content: output,
+      allowedMentions: { parse: [] },
       flags: isDM ? MessageFlags.Ephemeral : undefined,
     });
   }
@@ -261,26 +776,386 @@ export async function handleInteraction(
     });
 
     const allTools = await ctx.toolManager.getAllTools();
-    const tools = Object.keys(allTools || {});
-    const list: string[] = [];
-    for (const tool of tools) {
-      const { description } = allTools?.[tool] || {};
-      let output = "";
-      if (ctx.toolManager.disabledTools.has(tool)) {
-        output = `- ○ \`${tool}\``;
-      } else {
-        output = `- ◉ \`${tool}\``;
+    const member = interaction.member;
+    const rules = ctx.getToolRules({
+      channel: interaction.channel ?? { id: interaction.channelId },
+      roleIds: !member
+        ? []
+        : Array.isArray(member.roles)
+          ? member.roles
+          : [...member.roles.cache.keys()],
+      userId: interaction.user.id,
+    });
+    const list = formatExtensionErrors(ctx.toolManager.getExtensionErrors());
+    const grouped = groupToolNames(ctx.toolManager.getToolOrigins());
+    for (const [source, byName] of grouped) {
+      for (const [name, tools] of byName) {
+        list.push(
+          source === "rag"
+            ? `**${TOOL_SOURCE_LABELS[source]}**`
+            : `**${TOOL_SOURCE_LABELS[source]}** · \`${name}\``,
+        );
+        for (const tool of tools) {
+          const { description } = allTools?.[tool] || {};
+          let output = "";
+          if (ctx.toolManager.disabledTools.has(tool)) {
+            output = `- ○ \`${tool}\``;
+          } else if (!isToolAllowed(tool, rules)) {
+            output = `- ⊘ \`${tool}\` (not available here)`;
+          } else {
+            output = `- ◉ \`${tool}\``;
+          }
+          if (toolDetail && toolDetail === tool) {
+            output += `\n  - ${description}`;
+          }
+          list.push(output);
+        }
+      }
+    }
+    await interaction.editReply({
+      content: (list.join("\n") || "No tools available.").slice(0, 2000),
+    });
+  }
+
+  if (interaction.commandName === "prompt") {
+    // checked before anything is fetched from MCP or posted
+    const denial = interaction.channel
+      ? ctx.getRequestDenial({
+          user: interaction.user,
+          member: interaction.inCachedGuild() ? interaction.member : null,
+          channel: interaction.channel,
+          guildId: interaction.guildId,
+        })
+      : "Prompts can't be run in this channel.";
+    if (denial) {
+      await interaction.reply({
+        content: `⚠️ ${denial}`,
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    const value = interaction.options.getString("name", true);
+    const slash = value.indexOf("/");
+    const prompts = await ctx.toolManager.listMcpPrompts();
+    const prompt =
+      slash > 0
+        ? prompts.find(
+            (p) =>
+              p.serverKey === value.slice(0, slash) &&
+              p.name === value.slice(slash + 1),
+          )
+        : prompts.find((p) => p.name === value);
+    if (!prompt) {
+      await interaction.reply({
+        content: `No MCP prompt named \`${value}\`.`,
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    let args: Record<string, string>;
+    try {
+      args = parsePromptArguments(
+        interaction.options.getString("arguments", false),
+        prompt.arguments,
+      );
+    } catch (e) {
+      await interaction.reply({
+        content: e instanceof Error ? e.message : String(e),
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    await interaction.deferReply();
+    let messages: ModelMessage[];
+    let preview: string;
+    try {
+      const rendered = await ctx.toolManager.getMcpPrompt(
+        prompt.serverKey,
+        prompt.name,
+        args,
+      );
+      messages = promptMessagesToModelMessages(rendered.messages, {
+        id: interaction.user.id,
+        username: interaction.user.username,
+      });
+      preview = rendered.messages
+        .map((m) => (m.content.type === "text" ? m.content.text : ""))
+        .filter(Boolean)
+        .join("\n\n");
+    } catch (e) {
+      ctx.logger.logError(`Error getting MCP prompt [${value}]`, e);
+      await interaction.editReply({
+        content: `Could not get prompt \`${prompt.name}\` from \`${prompt.server}\`.`,
+      });
+      return;
+    }
+
+    const header = `📝 \`${prompt.name}\` from \`${prompt.server}\`, run by <@${interaction.user.id}>`;
+    const body = preview.replaceAll("```", "` ` `");
+    const maxBody = 2000 - header.length - 10;
+    const message = await interaction.editReply({
+      content:
+        `${header}\n\`\`\`\n` +
+        (body.length > maxBody ? `${body.slice(0, maxBody - 1)}…` : body) +
+        "\n```",
+      allowedMentions: { parse: [] },
+    });
+    ctx.logger.logInfo(`[Interaction] prompt ${value}`);
+
+    const ran = await ctx.runPrompt({
+      message,
+      user: interaction.user,
+      member: interaction.inCachedGuild() ? interaction.member : null,
+      messages,
+    });
+    if (!ran) {
+      await interaction.followUp({
+        content: "The prompt could not be run here.",
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+    return;
+  }
+
+  if (interaction.commandName === "resource") {
+    const subcommand = interaction.options.getSubcommand();
+    const channelId = interaction.channelId;
+
+    if (subcommand === "list") {
+      const resources = ctx.getChannelResources(channelId);
+      await interaction.reply({
+        content: resources.length
+          ? resources
+              .map((r) => `- \`${r.uri}\` (${r.server_key})`)
+              .join("\n")
+              .slice(0, 2000)
+          : "No resources attached here.",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    // attached resources are read into every conversation in the channel
+    const adminIds = ctx.decodeIds(cachedConfig.permissions.users.admin_ids);
+    if (!adminIds.has(interaction.user.id)) {
+      await interaction.reply({
+        content: "You don't have permission to manage channel resources.",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    if (subcommand === "detach") {
+      const uri = interaction.options.getString("uri", false) ?? undefined;
+      const removed = ctx.detachResources(channelId, uri);
+      await interaction.reply({
+        content:
+          removed === 0
+            ? "Nothing to detach."
+            : uri
+              ? `Detached \`${uri}\`.`
+              : `Detached ${removed} resource(s).`,
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    const uri = interaction.options.getString("uri", true);
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    const resource = (await ctx.toolManager.listMcpResources()).find(
+      (r) => r.uri === uri,
+    );
+    if (!resource) {
+      await interaction.editReply({
+        content: `No MCP server lists the resource \`${uri}\`.`,
+      });
+      return;
+    }
+    try {
+      await ctx.toolManager.readMcpResource(resource.serverKey, uri);
+    } catch (e) {
+      ctx.logger.logError(`Error reading MCP resource [${uri}]`, e);
+      await interaction.editReply({
+        content: `Could not read \`${uri}\` from \`${resource.server}\`.`,
+      });
+      return;
+    }
+    ctx.attachResource({
+      channelId,
+      uri,
+      serverKey: resource.serverKey,
+      guildId: interaction.guildId,
+      attachedBy: interaction.user.id,
+    });
+    ctx.logger.logInfo(`[Interaction] resource attach ${uri} (${channelId})`);
+    await interaction.editReply({
+      content: `Attached \`${uri}\` from \`${resource.server}\`; it is included in conversations here until detached.`,
+    });
+    return;
+  }
+
+  if (interaction.commandName === "kb") {
+    const subcommand = interaction.options.getSubcommand();
+    const guildId = interaction.guildId;
+    if (!guildId) {
+      await interaction.reply({
+        content: "The knowledge base is only available in servers.",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+    if (!cachedConfig.rag?.enable) {
+      await interaction.reply({
+        content: "The knowledge base requires `rag.enable` in config.yaml.",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    if (subcommand === "list") {
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+      try {
+        const documents = await ctx.knowledgeBase.list(guildId);
+        await interaction.editReply({
+          content: documents.length
+            ? documents
+                .map(
+                  (d) =>
+                    `- **${d.title}** (${d.chunk_count} chunks) – ${d.source}, added by <@${d.added_by}>`,
+                )
+                .join("\n")
+                .slice(0, 2000)
+            : "The knowledge base is empty. Add documents with `/kb add`.",
+          allowedMentions: { parse: [] },
+        });
+      } catch (e) {
+        ctx.logger.logError("Error listing knowledge base", e);
+        await interaction.editReply({
+          content: "Could not read the knowledge base.",
+        });
       }
-      if (toolDetail && toolDetail === tool) output += `\n  - ${description}`;
-      list.push(output);
+      return;
+    }
+
+    const adminIds = ctx.decodeIds(cachedConfig.permissions.users.admin_ids);
+    if (!adminIds.has(interaction.user.id)) {
+      await interaction.reply({
+        content: "You don't have permission to manage the knowledge base.",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
     }
-    await interaction.editReply({ content: list.join("\n").slice(0, 2000) });
+
+    if (subcommand === "remove") {
+      const id = interaction.options.getString("document", true);
+      await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+      try {
+        const title = await ctx.knowledgeBase.remove(guildId, id);
+        await interaction.editReply({
+          content: title ? `Removed **${title}**.` : "No such document.",
+        });
+        if (title)
+          ctx.logger.logInfo(`[Interaction] kb remove ${id} (${guildId})`);
+      } catch (e) {
+        ctx.logger.logError("Error removing knowledge base document", e);
+        await interaction.editReply({
+          content: "Could not remove the document.",
+        });
+      }
+      return;
+    }
+
+    const file = interaction.options.getAttachment("file", false);
+    const url = interaction.options.getString("url", false);
+    if (!file === !url) {
+      await interaction.reply({
+        content: "Provide either a file or a URL.",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+    if (url && !/^https?:\/\//i.test(url)) {
+      await interaction.reply({
+        content: "The URL must start with http:// or https://.",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+    try {
+      const added = await ctx.knowledgeBase.add({
+        guildId,
+        url: file?.url ?? url!,
+        title: interaction.options.getString("title", false),
+        fileName: file?.name ?? null,
+        addedBy: interaction.user.id,
+      });
+      ctx.logger.logInfo(`[Interaction] kb add ${added.title} (${guildId})`);
+      await interaction.editReply({
+        content: `Added **${added.title}** (${added.chunks} chunks) to the knowledge base.`,
+      });
+    } catch (e) {
+      ctx.logger.logError("Error adding knowledge base document", e);
+      await interaction.editReply({
+        content:
+          `Could not add the document: ${e instanceof Error ? e.message : String(e)}`.slice(
+            0,
+            2000,
+          ),
+      });
+    }
+    return;
+  }
+
+  if (interaction.commandName === "mcp-status") {
+    // server errors can name internal hosts and credentials
+    const adminIds = ctx.decodeIds(cachedConfig.permissions.users.admin_ids);
+    if (!adminIds.has(interaction.user.id)) {
+      await interaction.reply({
+        content: "You don't have permission to view MCP server status.",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+    await interaction.reply({
+      content: formatMcpStatus(
+        ctx.toolManager.getMcpStatus(),
+        Date.now(),
+      ).slice(0, 2000),
+      flags: isDM ? MessageFlags.Ephemeral : undefined,
+    });
+    return;
   }
 
   if (interaction.commandName === "reload-tools") {
+    // reconnects servers for everyone and shows their errors
+    const adminIds = ctx.decodeIds(cachedConfig.permissions.users.admin_ids);
+    if (!adminIds.has(interaction.user.id)) {
+      await interaction.reply({
+        content: "You don't have permission to reload tools.",
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+    const server = interaction.options.getString("server", false);
     await interaction.deferReply({
       flags: isDM ? MessageFlags.Ephemeral : undefined,
     });
+    if (server) {
+      const status = await ctx.toolManager.reloadMcpServer(server);
+      ctx.logger.logDebug(`[Interaction] reload-tools ${server}`);
+      await interaction.editReply({
+        content: status
+          ? formatMcpStatus([status], Date.now()).slice(0, 2000)
+          : `No MCP server named \`${server}\`.`,
+        allowedMentions: { parse: [] },
+      });
+      return;
+    }
     await interaction.editReply({ content: "Reloading tools..." });
     await ctx.toolManager.destroy();
     await ctx.toolManager.init();
@@ -289,6 +1164,21 @@ export async function handleInteraction(
   }
 }
 
+/** Autocomplete names and values are limited to 100 characters. */
+const MAX_CHOICE_LENGTH = 100;
+
+function clipChoice(text: string) {
+  return text.length > MAX_CHOICE_LENGTH
+    ? `${text.slice(0, MAX_CHOICE_LENGTH - 1)}…`
+    : text;
+}
+
+function formatUsageRow(label: string, row: UsageSummaryRow) {
+  const tokens = Intl.NumberFormat("en-US").format(row.tokens);
+  const unpriced = row.unpriced ? ` (${row.unpriced} unpriced)` : "";
+  return `- ${label}: ${row.requests} requests, ${tokens} tokens, ${formatUsd(row.cost_usd)}${unpriced}`;
+}
+
 async function collectBotReplyChain(
   start: Message,
 ): Promise<
@@ -16,6 +16,7 @@ function lastPathSegment(providerModel: string): string {
 
 export function buildStatsForNerdsLogLine(input: {
   providerModel: string;
+  fallbackFrom?: string | null;
   totalUsage: LanguageModelUsage | null;
   ttftSeconds: number | null;
   totalSeconds: number | null;
@@ -31,6 +32,7 @@ export function buildStatsForNerdsLogLine(input: {
 
 export function buildStatsForNerdsField(input: {
   providerModel: string;
+  fallbackFrom?: string | null;
   totalUsage: LanguageModelUsage | null;
   ttftSeconds: number | null;
   totalSeconds: number | null;
@@ -56,16 +58,20 @@ export function buildStatsForNerdsField(input: {
 
 function buildStatsForNerds({
   providerModel,
+  fallbackFrom,
   totalUsage,
   ttftSeconds,
   totalSeconds,
 }: {
   providerModel: string;
+  fallbackFrom?: string | null;
   totalUsage: LanguageModelUsage | null;
   ttftSeconds: number | null;
   totalSeconds: number | null;
 }) {
-  const model = lastPathSegment(providerModel);
+  const model = fallbackFrom
+    ? `${lastPathSegment(providerModel)} (fallback from ${lastPathSegment(fallbackFrom)})`
+    : lastPathSegment(providerModel);
 
   const inputTokens = totalUsage?.inputTokens;
   const { cacheReadTokens, cacheWriteTokens, noCacheTokens } =
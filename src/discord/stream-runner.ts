@@ -12,6 +12,7 @@ import {
   type CallWarning,
   type FinishReason,
   type LanguageModelUsage,
+  type ModelMessage,
 } from "ai";
 
 import {
@@ -23,8 +24,14 @@ import type { Logger } from "../logger";
 import type { Config } from "../type";
 import { stripToolTraffic, buildToolAuditNote } from "../tool-transform";
 import type { ModelMessageOperator } from "../model-messages";
+import { NoContentGeneratedError } from "../model-fallback";
 import type { AnthropicCacheControl } from "../utils/anthropic-cache";
 import { startContentPusher, getPusherConstants } from "./content-pusher";
+import {
+  TOOL_PROGRESS_FIELD_NAME,
+  ToolProgressTracker,
+  withToolProgress,
+} from "./tool-progress";
 import {
   buildStatsForNerdsField,
   buildStatsForNerdsLogLine,
@@ -38,6 +45,8 @@ export type StreamAttemptContext = {
   logger: Logger;
   config: Config;
   curProviderModel: string;
+  /** Primary model of the request when `curProviderModel` is a fallback. */
+  fallbackFrom?: string | null;
   safeEdit: (
     msg: Message,
     options: Parameters<Message["edit"]>[0],
@@ -47,6 +56,13 @@ export type StreamAttemptContext = {
   modelMessageOperator: ModelMessageOperator;
 };
 
+export type StreamAttemptResult = {
+  totalUsage: LanguageModelUsage | null;
+  responseMessageIds: string[];
+  text: string;
+  responseMessages: ModelMessage[];
+};
+
 export async function runStreamAttempt({
   ctx,
   msg,
@@ -71,7 +87,7 @@ export async function runStreamAttempt({
   warnEmbed: EmbedBuilder | null;
   anthropicCacheControl: AnthropicCacheControl | null;
   typingInterval: NodeJS.Timeout;
-}): Promise<void> {
+}): Promise<StreamAttemptResult> {
   let btnMessage: Message | null = null;
 
   try {
@@ -88,15 +104,24 @@ export async function runStreamAttempt({
       allowedMentions: { parse: [], repliedUser: false },
     });
 
+    const toolProgress = new ToolProgressTracker();
+    const tools = opts.tools && withToolProgress(opts.tools, toolProgress);
+    const getToolStatus = (streaming: boolean) => {
+      const value = toolProgress.render(streaming);
+      return value ? { name: TOOL_PROGRESS_FIELD_NAME, value } : null;
+    };
+
     let pendingBoundarySeparator = false;
     const stream = compatibleMode
       ? streamTextWithCompatibleTools({
           ...opts,
+          tools,
           logger: ctx.logger,
           anthropicCacheControl,
         })
       : streamText({
           ...opts,
+          tools,
           onStepFinish: (step) => {
             opts.onStepFinish?.(step);
             if ((step as { toolCalls?: unknown[] }).toolCalls?.length) {
@@ -160,6 +185,7 @@ export async function runStreamAttempt({
       useSmartSplitting,
       logger: ctx.logger,
       safeEdit: ctx.safeEdit,
+      getStatus: getToolStatus,
     });
 
     await streamingDonePromise;
@@ -177,7 +203,7 @@ export async function runStreamAttempt({
           msg.channel.messages.delete(messageId),
         ),
       );
-      throw new Error("No content generated");
+      throw new NoContentGeneratedError(reason);
     }
 
     if (usePlainResponses) {
@@ -198,7 +224,7 @@ export async function runStreamAttempt({
     const statsForNerds = getStatsForNerdsOptions(ctx.config.stats_for_nerds);
 
     const totalUsage: LanguageModelUsage | null =
-      statsForNerds.enabled && "totalUsage" in stream
+      "totalUsage" in stream
         ? (((await (stream as { totalUsage?: Promise<unknown> }).totalUsage) as
             | LanguageModelUsage
             | null
@@ -223,6 +249,7 @@ export async function runStreamAttempt({
 
       const field = buildStatsForNerdsField({
         providerModel: ctx.curProviderModel,
+        fallbackFrom: ctx.fallbackFrom,
         totalUsage,
         ttftSeconds,
         totalSeconds,
@@ -237,6 +264,8 @@ export async function runStreamAttempt({
         const desc = responseQueue.at(-1) ?? "";
         emb.setDescription(desc || "*<empty_string>*");
         emb.setColor(3447003);
+        const toolStatus = getToolStatus(false);
+        if (toolStatus) emb.addFields({ ...toolStatus, inline: false });
         emb.addFields(field);
 
         await ctx.safeEdit(lastMsg, { embeds: [emb] });
@@ -293,12 +322,20 @@ export async function runStreamAttempt({
       ctx.logger.logInfo(
         buildStatsForNerdsLogLine({
           providerModel: ctx.curProviderModel,
+          fallbackFrom: ctx.fallbackFrom,
           totalUsage,
           ttftSeconds,
           totalSeconds,
         }),
       );
     }
+
+    return {
+      totalUsage,
+      responseMessageIds: discordMessageCreated,
+      text: contentAcc,
+      responseMessages: resp.messages,
+    };
   } finally {
     await btnMessage?.delete().catch(() => {});
   }
@@ -0,0 +1,184 @@
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  type MessageCreateOptions,
+  type MessageEditOptions,
+} from "discord.js";
+import type { Tool } from "ai";
+import { randomUUID } from "node:crypto";
+
+export const DEFAULT_APPROVAL_TIMEOUT_MS = 2 * 60 * 1000;
+
+export type ToolApprovalOutcome =
+  "approved" | "denied" | "timeout" | "cancelled";
+
+/** Thrown from a tool's execute so the model receives an error result. */
+export class ToolApprovalDeniedError extends Error {
+  constructor(
+    readonly toolName: string,
+    readonly outcome: Exclude<ToolApprovalOutcome, "approved">,
+  ) {
+    const reason = {
+      denied: "the user denied the request",
+      timeout: "nobody approved the request in time",
+      cancelled: "the request was cancelled",
+    }[outcome];
+    super(`Tool "${toolName}" was not run: ${reason}.`);
+    this.name = "ToolApprovalDeniedError";
+  }
+}
+
+/** Where the approval prompt is posted, usually the triggering message. */
+export type ToolApprovalTarget = {
+  reply: (
+    options: MessageCreateOptions,
+  ) => Promise<{ edit: (options: MessageEditOptions) => Promise<unknown> }>;
+};
+
+export type ToolApprovalDecision =
+  "approved" | "denied" | "forbidden" | "expired";
+
+type PendingApproval = {
+  canDecide: (userId: string) => boolean;
+  settle: (outcome: ToolApprovalOutcome, userId?: string) => void;
+};
+
+const MAX_INPUT_PREVIEW = 1500;
+
+function formatInput(input: unknown) {
+  let text: string;
+  try {
+    text = JSON.stringify(input, null, 2) ?? "undefined";
+  } catch {
+    text = String(input);
+  }
+  if (text.length > MAX_INPUT_PREVIEW) {
+    text = `${text.slice(0, MAX_INPUT_PREVIEW)}\n…`;
+  }
+  return "```json\n" + text.replaceAll("```", "`\u200b``") + "\n```";
+}
+
+function formatOutcome(outcome: ToolApprovalOutcome, userId?: string) {
+  switch (outcome) {
+    case "approved":
+      return `✅ Approved by <@${userId}>`;
+    case "denied":
+      return `❌ Denied by <@${userId}>`;
+    case "timeout":
+      return "⌛ Timed out, not run";
+    case "cancelled":
+      return "🚫 Cancelled";
+  }
+}
+
+/**
+ * Pending tool-call approvals. `request` posts Approve/Deny buttons and
+ * resolves once someone allowed to decide clicks one, the timeout expires or
+ * the generation is cancelled.
+ */
+export class ToolApprovalManager {
+  private pending = new Map<string, PendingApproval>();
+
+  async request(input: {
+    target: ToolApprovalTarget;
+    toolName: string;
+    input: unknown;
+    canDecide: (userId: string) => boolean;
+    timeoutMs?: number;
+    signal?: AbortSignal;
+  }): Promise<ToolApprovalOutcome> {
+    const { target, toolName, signal } = input;
+    const timeoutMs = input.timeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS;
+    if (signal?.aborted) return "cancelled";
+
+    const id = randomUUID();
+    const content = `🔧 **${toolName}** needs approval\n${formatInput(input.input)}`;
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(`tool_approve_${id}`)
+        .setLabel("Approve")
+        .setStyle(ButtonStyle.Success),
+      new ButtonBuilder()
+        .setCustomId(`tool_deny_${id}`)
+        .setLabel("Deny")
+        .setStyle(ButtonStyle.Danger),
+    );
+
+    const prompt = await target.reply({
+      content,
+      components: [row],
+      allowedMentions: { parse: [] },
+    });
+
+    return await new Promise<ToolApprovalOutcome>((resolve) => {
+      const onAbort = () => settle("cancelled");
+      const timer = setTimeout(() => settle("timeout"), timeoutMs);
+
+      const settle = (outcome: ToolApprovalOutcome, userId?: string) => {
+        if (!this.pending.delete(id)) return;
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+        prompt
+          .edit({
+            content: `${content}\n${formatOutcome(outcome, userId)}`,
+            components: [],
+            allowedMentions: { parse: [] },
+          })
+          .catch(() => {});
+        resolve(outcome);
+      };
+
+      this.pending.set(id, { canDecide: input.canDecide, settle });
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /** Handle a button click. */
+  decide(id: string, userId: string, approved: boolean): ToolApprovalDecision {
+    const pending = this.pending.get(id);
+    if (!pending) return "expired";
+    if (!pending.canDecide(userId)) return "forbidden";
+    pending.settle(approved ? "approved" : "denied", userId);
+    return approved ? "approved" : "denied";
+  }
+}
+
+/**
+ * Wrap the tools that need approval so their execute waits for it first and
+ * throws `ToolApprovalDeniedError` if it is not given.
+ */
+export function withToolApproval(
+  tools: Record<string, Tool>,
+  needsApproval: (toolName: string) => boolean,
+  requestApproval: (request: {
+    toolName: string;
+    input: unknown;
+    signal?: AbortSignal;
+  }) => Promise<ToolApprovalOutcome>,
+): Record<string, Tool> {
+  const wrapped: Record<string, Tool> = {};
+  for (const [name, tool] of Object.entries(tools)) {
+    const execute = tool.execute;
+    if (!execute || !needsApproval(name)) {
+      wrapped[name] = tool;
+      continue;
+    }
+
+    wrapped[name] = {
+      ...tool,
+      execute: async (input, options) => {
+        const outcome = await requestApproval({
+          toolName: name,
+          input,
+          signal: options?.abortSignal,
+        });
+        if (outcome !== "approved") {
+          throw new ToolApprovalDeniedError(name, outcome);
+        }
+        return execute(input, options);
+      },
+    } as Tool;
+  }
+  return wrapped;
+}
@@ -0,0 +1,170 @@
+import type { Tool } from "ai";
+import { performance } from "node:perf_hooks";
+import { isToolErrorResult } from "../tool-limits";
+
+const MAX_INPUT_SUMMARY = 60;
+const MAX_LIVE_LINES = 8;
+/** Embed field values are limited to 1024 characters. */
+const MAX_FIELD_LENGTH = 1024;
+const MAX_SUMMARY_ITEMS = 5;
+
+export const TOOL_PROGRESS_FIELD_NAME = "Tools";
+
+type ToolCallProgress = {
+  toolName: string;
+  input: string;
+  state: "running" | "succeeded" | "failed";
+  startedAt: number;
+  endedAt: number | null;
+};
+
+const STATE_ICONS = {
+  running: "⏳",
+  succeeded: "✅",
+  failed: "❌",
+} as const;
+
+/** One-line, backtick-free preview of a tool input. */
+export function summarizeToolInput(
+  input: unknown,
+  maxLength = MAX_INPUT_SUMMARY,
+): string {
+  let text: string;
+  try {
+    text = typeof input === "string" ? input : (JSON.stringify(input) ?? "");
+  } catch {
+    text = String(input);
+  }
+  text = text.replaceAll("`", "'").replace(/\s+/g, " ").trim();
+  if (text === "{}") return "";
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+function formatSeconds(ms: number) {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+/** Tool calls of one stream attempt, rendered for the response embed. */
+export class ToolProgressTracker {
+  private calls = new Map<string, ToolCallProgress>();
+
+  constructor(private now: () => number = () => performance.now()) {}
+
+  get size() {
+    return this.calls.size;
+  }
+
+  start(callId: string, toolName: string, input: unknown) {
+    this.calls.set(callId, {
+      toolName,
+      input: summarizeToolInput(input),
+      state: "running",
+      startedAt: this.now(),
+      endedAt: null,
+    });
+  }
+
+  finish(callId: string, ok: boolean) {
+    const call = this.calls.get(callId);
+    if (!call || call.state !== "running") return;
+    call.state = ok ? "succeeded" : "failed";
+    call.endedAt = this.now();
+  }
+
+  /** One line per call while the response is streaming. */
+  renderLive(): string | null {
+    if (this.calls.size === 0) return null;
+
+    const calls = [...this.calls.values()];
+    const shown = calls.slice(-MAX_LIVE_LINES);
+    const lines = shown.map((call) => {
+      let line = `${STATE_ICONS[call.state]} \`${call.toolName}\``;
+      if (call.input) line += ` \`${call.input}\``;
+      if (call.endedAt !== null) {
+        line += ` · ${formatSeconds(call.endedAt - call.startedAt)}`;
+      }
+      return line;
+    });
+    if (calls.length > shown.length) {
+      lines.unshift(`…${calls.length - shown.length} earlier call(s)`);
+    }
+    return clip(lines.join("\n"));
+  }
+
+  /** Compact summary once the response is complete. */
+  renderSummary(): string | null {
+    if (this.calls.size === 0) return null;
+
+    const calls = [...this.calls.values()];
+    if (calls.length <= MAX_SUMMARY_ITEMS) {
+      return clip(
+        calls
+          .map((call) => {
+            const duration =
+              call.endedAt === null
+                ? ""
+                : ` ${formatSeconds(call.endedAt - call.startedAt)}`;
+            return `\`${call.toolName}\` ${STATE_ICONS[call.state]}${duration}`;
+          })
+          .join(" · "),
+      );
+    }
+
+    const failed = calls.filter((c) => c.state === "failed").length;
+    const total = calls.reduce(
+      (sum, c) => sum + (c.endedAt === null ? 0 : c.endedAt - c.startedAt),
+      0,
+    );
+    const counts =
+      failed > 0
+        ? `${calls.length - failed} ${STATE_ICONS.succeeded}, ${failed} ${STATE_ICONS.failed}`
+        : `all ${STATE_ICONS.succeeded}`;
+    return `${calls.length} tool calls (${counts}) · ${formatSeconds(total)}`;
+  }
+
+  render(streaming: boolean) {
+    return streaming ? this.renderLive() : this.renderSummary();
+  }
+}
+
+function clip(text: string) {
+  return text.length > MAX_FIELD_LENGTH
+    ? `${text.slice(0, MAX_FIELD_LENGTH - 1)}…`
+    : text;
+}
+
+/**
+ * Wrap tool executes so the tracker sees every call start and finish. Works
+ * for native and compatible tool calling alike, since both call `execute`.
+ */
+export function withToolProgress(
+  tools: Record<string, Tool>,
+  tracker: ToolProgressTracker,
+): Record<string, Tool> {
+  let fallbackId = 0;
+  const wrapped: Record<string, Tool> = {};
+  for (const [name, tool] of Object.entries(tools)) {
+    const execute = tool.execute;
+    if (!execute) {
+      wrapped[name] = tool;
+      continue;
+    }
+
+    wrapped[name] = {
+      ...tool,
+      execute: async (input, options) => {
+        const callId = options?.toolCallId ?? `call_${++fallbackId}`;
+        tracker.start(callId, name, input);
+        try {
+          const result = await execute(input, options);
+          tracker.finish(callId, !isToolErrorResult(result));
+          return result;
+        } catch (e) {
+          tracker.finish(callId, false);
+          throw e;
+        }
+      },
+    } as Tool;
+  }
+  return wrapped;
+}
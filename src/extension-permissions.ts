@@ -0,0 +1,133 @@
+import { isBuiltin } from "module";
+import path from "path";
+import { z } from "zod";
+import { formatConfigPath } from "./config-schema";
+
+const DEFAULT_TIMEOUT_SECONDS = 30;
+
+/**
+ * `extensions/<name>.manifest.json`. An extension with a manifest runs in a
+ * worker and only gets the capabilities listed here.
+ */
+const manifestSchema = z.strictObject({
+  permissions: z
+    .strictObject({
+      /** Hostnames `fetch` may reach; `*.example.com` matches subdomains. */
+      network: z.array(z.string().min(1)).default([]),
+      /** Paths `ctx.fs` may use, relative to the project root. */
+      filesystem: z
+        .strictObject({
+          read: z.array(z.string().min(1)).default([]),
+          write: z.array(z.string().min(1)).default([]),
+        })
+        .default({ read: [], write: [] }),
+      /** Environment variables copied into the worker. */
+      env: z.array(z.string().min(1)).default([]),
+    })
+    .default({ network: [], filesystem: { read: [], write: [] }, env: [] }),
+  /** Limit for setup and for each tool call; the worker is killed after it. */
+  timeout_seconds: z.number().positive().default(DEFAULT_TIMEOUT_SECONDS),
+});
+
+export type ExtensionManifest = z.infer<typeof manifestSchema>;
+
+export function parseExtensionManifest(raw: unknown): ExtensionManifest {
+  const result = manifestSchema.safeParse(raw);
+  if (result.success) return result.data;
+  const issues = result.error.issues.map(
+    (issue) => `${formatConfigPath(issue.path)}: ${issue.message}`,
+  );
+  throw new Error(`Invalid manifest: ${issues.join("; ")}`);
+}
+
+export function isHostAllowed(url: string | URL, hosts: string[]) {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  return hosts.some((pattern) => {
+    const host = pattern.toLowerCase();
+    if (host === "*") return true;
+    if (host.startsWith("*.")) return hostname.endsWith(host.slice(1));
+    return hostname === host;
+  });
+}
+
+/** Whether `target` is one of `allowed` or inside one of them. */
+export function isPathAllowed(target: string, allowed: string[], root: string) {
+  const resolved = path.resolve(root, target);
+  return allowed.some((entry) => {
+    const relative = path.relative(path.resolve(root, entry), resolved);
+    return (
+      relative === "" ||
+      (!relative.startsWith("..") && !path.isAbsolute(relative))
+    );
+  });
+}
+
+export function pickEnv(
+  env: Record<string, string | undefined>,
+  names: string[],
+): Record<string, string> {
+  const picked: Record<string, string> = {};
+  for (const name of names) {
+    const value = env[name];
+    if (value !== undefined) picked[name] = value;
+  }
+  return picked;
+}
+
+/** Builtins without filesystem, network or process access. */
+const SAFE_BUILTINS = new Set([
+  "assert",
+  "buffer",
+  "crypto",
+  "events",
+  "path",
+  "querystring",
+  "stream",
+  "string_decoder",
+  "url",
+  "util",
+  "zlib",
+]);
+
+/**
+ * Imports a sandboxed extension may not use. Files and network are reached
+ * through `ctx.fs` and `fetch`, which check the manifest.
+ */
+export function findForbiddenImports(specifiers: string[]) {
+  return specifiers.filter((specifier) => {
+    if (specifier.startsWith("bun:")) return true;
+    if (specifier === "bun") return true;
+    if (!isBuiltin(specifier)) return false;
+    const name = specifier.replace(/^node:/, "").split("/")[0]!;
+    return !SAFE_BUILTINS.has(name);
+  });
+}
+
+/**
+ * What the worker can't guard at runtime, so sandboxed code using it is
+ * rejected before it runs: `Bun.fetch` is read-only, and `import()` of a
+ * builtin can't be intercepted, so only literal specifiers (checked like
+ * static imports) are allowed.
+ */
+const UNGUARDED_APIS: Array<[name: string, pattern: RegExp]> = [
+  [
+    "Bun.fetch",
+    /\bBun\s*(?:\??\.\s*fetch\b|\[\s*(["'`])fetch\1\s*\])|\{[^{}]*\bfetch\b[^{}]*\}\s*=\s*Bun\b/,
+  ],
+  [
+    "import() with a computed specifier",
+    /\bimport\s*\(\s*(?!(["'`])[^"'`$]*\1\s*[,)])/,
+  ],
+];
+
+/** Unguarded APIs used by transpiled extension `code`. */
+export function findUnguardedApis(code: string) {
+  return UNGUARDED_APIS.filter(([, pattern]) => pattern.test(code)).map(
+    ([name]) => name,
+  );
+}
@@ -0,0 +1,241 @@
+import {
+  jsonSchema,
+  tool,
+  type JSONSchema7,
+  type ModelMessage,
+  type Tool,
+  type ToolExecutionOptions,
+} from "ai";
+import path from "path";
+import {
+  findForbiddenImports,
+  findUnguardedApis,
+  pickEnv,
+  type ExtensionManifest,
+} from "./extension-permissions";
+import type { Logger } from "./logger";
+import type { Config } from "./type";
+
+export type SandboxRequest = { id: number } & (
+  | {
+      type: "init";
+      name: string;
+      file: string;
+      config: Record<string, unknown>;
+      manifest: ExtensionManifest;
+      /** Base for the manifest's filesystem paths. */
+      root: string;
+      logLevel: Config["log_level"];
+    }
+  | {
+      type: "call";
+      tool: string;
+      input: unknown;
+      toolCallId: string;
+      messages: ModelMessage[];
+    }
+  | { type: "teardown" }
+);
+
+export type SandboxResponse =
+  | { type: "result"; id: number; output: unknown }
+  | { type: "error"; id: number; message: string };
+
+export type SandboxToolDefinition = {
+  name: string;
+  description?: string;
+  inputSchema: JSONSchema7;
+};
+
+type PendingRequest = {
+  resolve: (output: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+};
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+const WORKER_URL = new URL("./extension-worker.ts", import.meta.url);
+const PROJECT_ROOT = path.join(import.meta.dirname, "..");
+
+/**
+ * Imports and unguarded APIs used by `file` and by the local files it
+ * imports. Packages from `node_modules` are not followed.
+ */
+async function scanSources(
+  file: string,
+  seen = new Set<string>(),
+): Promise<string[]> {
+  if (seen.has(file)) return [];
+  seen.add(file);
+  const loader = file.endsWith(".js") ? "js" : "ts";
+  const source = await Bun.file(file).text();
+  const transpiler = new Bun.Transpiler({ loader });
+  // the transpiled code has constant specifiers like `"node:" + "net"` folded
+  const code = transpiler.transformSync(source);
+  const specifiers = transpiler.scanImports(code).map((i) => i.path);
+  const apis = findUnguardedApis(code);
+
+  const nested = await Promise.all(
+    specifiers
+      .filter((s) => s.startsWith("."))
+      .map((s) => scanSources(Bun.resolveSync(s, path.dirname(file)), seen)),
+  );
+  return [...findForbiddenImports(specifiers), ...apis, ...nested.flat()];
+}
+
+/**
+ * An extension running in a Bun Worker. Tool calls are forwarded to the
+ * worker; if it crashes or exceeds the manifest's timeout it is terminated
+ * and started again on the next call.
+ */
+export class SandboxedExtension {
+  private worker: Worker | null = null;
+  private starting: Promise<unknown> | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 0;
+  private stopped = false;
+
+  constructor(
+    private readonly options: {
+      name: string;
+      file: string;
+      config: Record<string, unknown>;
+      manifest: ExtensionManifest;
+      logger: Logger;
+      logLevel: Config["log_level"];
+    },
+  ) {}
+
+  /** Start the worker and run the extension's setup. */
+  async start(): Promise<Record<string, Tool>> {
+    const definitions = (await this.spawn()) as SandboxToolDefinition[];
+    const tools: Record<string, Tool> = {};
+    for (const def of definitions) {
+      tools[def.name] = tool({
+        description: def.description,
+        inputSchema: jsonSchema(def.inputSchema),
+        execute: (input, options) => this.call(def.name, input, options),
+      });
+    }
+    return tools;
+  }
+
+  /** Run the extension's teardown, then terminate the worker. */
+  async stop() {
+    this.stopped = true;
+    const worker = this.worker;
+    if (!worker) return;
+    try {
+      await this.request(worker, { type: "teardown" });
+    } catch (e) {
+      this.options.logger.logError("Teardown failed:", e);
+    }
+    this.terminate("stopped");
+  }
+
+  private async spawn() {
+    const { name, file, config, manifest, logLevel } = this.options;
+    const forbidden = await scanSources(file);
+    if (forbidden.length > 0) {
+      throw new Error(
+        `Sandboxed extension [${name}] may not use ${[...new Set(forbidden)].join(", ")}`,
+      );
+    }
+
+    const worker = new Worker(WORKER_URL, {
+      env: pickEnv(process.env, manifest.permissions.env),
+    });
+    this.worker = worker;
+    worker.addEventListener("message", (event: MessageEvent) =>
+      this.onMessage(event.data as SandboxResponse),
+    );
+    worker.addEventListener("error", (event: ErrorEvent) => {
+      if (this.worker === worker) this.terminate(`crashed: ${event.message}`);
+    });
+    worker.addEventListener("close", () => {
+      if (this.worker === worker) this.terminate("exited");
+    });
+
+    try {
+      return await this.request(worker, {
+        type: "init",
+        name,
+        file,
+        config,
+        manifest,
+        root: PROJECT_ROOT,
+        logLevel,
+      });
+    } catch (e) {
+      if (this.worker === worker) this.terminate("failed to start");
+      throw e;
+    }
+  }
+
+  private async call(
+    toolName: string,
+    input: unknown,
+    options: ToolExecutionOptions,
+  ) {
+    if (this.stopped) {
+      throw new Error(`Extension [${this.options.name}] is unloaded`);
+    }
+    if (!this.worker) {
+      this.starting ??= this.spawn().finally(() => (this.starting = null));
+      await this.starting;
+    }
+    if (!this.worker) {
+      throw new Error(`Extension [${this.options.name}] is not running`);
+    }
+    return this.request(this.worker, {
+      type: "call",
+      tool: toolName,
+      input,
+      toolCallId: options.toolCallId,
+      messages: options.messages,
+    });
+  }
+
+  private request(
+    worker: Worker,
+    body: DistributiveOmit<SandboxRequest, "id">,
+  ): Promise<unknown> {
+    const id = ++this.nextId;
+    const { timeout_seconds } = this.options.manifest;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => this.terminate(`timed out after ${timeout_seconds}s`),
+        timeout_seconds * 1000,
+      );
+      this.pending.set(id, { resolve, reject, timer });
+      worker.postMessage({ ...body, id } satisfies SandboxRequest);
+    });
+  }
+
+  private onMessage(response: SandboxResponse) {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+    clearTimeout(pending.timer);
+    if (response.type === "result") pending.resolve(response.output);
+    else pending.reject(new Error(response.message));
+  }
+
+  /** Kill the worker and fail whatever it was still working on. */
+  private terminate(reason: string) {
+    const worker = this.worker;
+    this.worker = null;
+    worker?.terminate();
+
+    const error = new Error(`Extension [${this.options.name}] ${reason}`);
+    if (reason !== "stopped") this.options.logger.logError(error.message);
+    for (const pending of this.pending.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+    this.pending.clear();
+  }
+}
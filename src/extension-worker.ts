@@ -0,0 +1,273 @@
+import { asSchema, type Tool } from "ai";
+import { readFile, writeFile } from "fs/promises";
+import Module from "module";
+import path from "path";
+import { pathToFileURL } from "url";
+import {
+  findForbiddenImports,
+  isHostAllowed,
+  isPathAllowed,
+  type ExtensionManifest,
+} from "./extension-permissions";
+import type {
+  SandboxRequest,
+  SandboxResponse,
+  SandboxToolDefinition,
+} from "./extension-sandbox";
+import type { Extension, ExtensionContext, SandboxFs } from "./extensions";
+import { Logger } from "./logger";
+
+declare var self: Worker;
+
+const MAX_REDIRECTS = 20;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+let extension: Extension = {};
+let tools: Record<string, Tool> = {};
+
+function denied(what: string) {
+  // not an arrow function, so `new` on a denied class throws the same error
+  return function () {
+    throw new Error(`${what} is not available to sandboxed extensions`);
+  };
+}
+
+/**
+ * `fetch` that checks the host of the request and of every redirect. Only
+ * standard options are passed on, so Bun's `unix`, `proxy` and `tls` are
+ * dropped.
+ */
+function createGuardedFetch(hosts: string[]) {
+  const realFetch = globalThis.fetch;
+  return async (
+    input: string | URL | Request,
+    init?: RequestInit,
+  ): Promise<Response> => {
+    const request =
+      input instanceof Request
+        ? new Request(input, init)
+        : new Request(String(input), init);
+    let url = request.url;
+    let method = request.method;
+    let body = request.body ? await request.arrayBuffer() : null;
+    const headers = new Headers(request.headers);
+
+    for (let redirects = 0; ; redirects++) {
+      if (!isHostAllowed(url, hosts)) {
+        throw new Error(
+          `Network access to ${url} is not allowed by the manifest`,
+        );
+      }
+      const response = await realFetch(url, {
+        method,
+        headers,
+        body,
+        signal: request.signal,
+        redirect: "manual",
+      });
+      const location = response.headers.get("location");
+      if (
+        !REDIRECT_STATUSES.has(response.status) ||
+        !location ||
+        request.redirect === "manual"
+      ) {
+        return response;
+      }
+      if (request.redirect === "error") {
+        throw new TypeError(`Unexpected redirect from ${url} to ${location}`);
+      }
+      if (redirects === MAX_REDIRECTS) {
+        throw new TypeError(`Too many redirects from ${request.url}`);
+      }
+
+      const next = new URL(location, url);
+      if (
+        (response.status === 303 && method !== "HEAD") ||
+        ([301, 302].includes(response.status) && method === "POST")
+      ) {
+        method = "GET";
+        body = null;
+        headers.delete("content-type");
+        headers.delete("content-length");
+      }
+      if (next.origin !== new URL(url).origin) headers.delete("authorization");
+      url = next.href;
+    }
+  };
+}
+
+/** Replace the runtime APIs that bypass the manifest. */
+function restrictGlobals({ permissions }: ExtensionManifest) {
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = Object.assign(
+    createGuardedFetch(permissions.network),
+    realFetch,
+  );
+
+  globalThis.WebSocket = new Proxy(globalThis.WebSocket, {
+    construct(target, args: [string | URL, ...unknown[]]) {
+      if (!isHostAllowed(args[0], permissions.network)) {
+        throw new Error(
+          `Network access to ${args[0]} is not allowed by the manifest`,
+        );
+      }
+      return Reflect.construct(target, args);
+    },
+  });
+
+  Object.assign(Bun, {
+    file: denied("Bun.file (use ctx.fs)"),
+    write: denied("Bun.write (use ctx.fs)"),
+    spawn: denied("Bun.spawn"),
+    spawnSync: denied("Bun.spawnSync"),
+    $: denied("Bun.$"),
+    connect: denied("Bun.connect"),
+    listen: denied("Bun.listen"),
+    serve: denied("Bun.serve"),
+    udpSocket: denied("Bun.udpSocket"),
+    sql: denied("Bun.sql"),
+    SQL: denied("Bun.SQL"),
+    s3: denied("Bun.s3"),
+    S3Client: denied("Bun.S3Client"),
+  });
+  Object.assign(globalThis, { Worker: denied("Worker") });
+
+  // code built from strings could `import()` anything, since the source
+  // scan only sees the extension's own files
+  const deniedFunction = Object.assign(denied("The Function constructor"), {
+    prototype: Function.prototype,
+  });
+  Object.assign(globalThis, { eval: denied("eval"), Function: deniedFunction });
+  for (const fn of [
+    function () {},
+    async function () {},
+    function* () {},
+    async function* () {},
+  ]) {
+    Object.defineProperty(Object.getPrototypeOf(fn), "constructor", {
+      value: deniedFunction,
+    });
+  }
+
+  // `require` and `import.meta.require` both end up here, whatever the
+  // specifier; static imports were checked before the worker started
+  const realRequire = Module.prototype.require;
+  Module.prototype.require = Object.assign(function (
+    this: NodeJS.Module,
+    id: string,
+  ) {
+    if (findForbiddenImports([id]).length > 0) {
+      throw new Error(`${id} is not available to sandboxed extensions`);
+    }
+    return realRequire.call(this, id);
+  }, realRequire);
+}
+
+function createFs({ permissions }: ExtensionManifest, root: string): SandboxFs {
+  const { read, write } = permissions.filesystem;
+  const resolve = (file: string, allowed: string[], access: string) => {
+    if (!isPathAllowed(file, allowed, root)) {
+      throw new Error(
+        `${access} access to ${file} is not allowed by the manifest`,
+      );
+    }
+    return path.resolve(root, file);
+  };
+  return {
+    readFile: (file) =>
+      readFile(resolve(file, [...read, ...write], "Read"), "utf8"),
+    writeFile: (file, data) => writeFile(resolve(file, write, "Write"), data),
+  };
+}
+
+async function init(request: Extract<SandboxRequest, { type: "init" }>) {
+  const { name, file, config, manifest, root, logLevel } = request;
+  restrictGlobals(manifest);
+
+  const logger = new Logger({ module: `extension:${name}`, logLevel });
+  const ctx: ExtensionContext = {
+    name,
+    config,
+    logger,
+    fs: createFs(manifest, root),
+  };
+  const { default: exported } = await import(pathToFileURL(file).href);
+  if (typeof exported === "function") {
+    tools = await exported();
+  } else if (typeof exported === "object" && exported !== null) {
+    extension = exported;
+    tools = (await extension.setup?.(ctx)) ?? {};
+    if (
+      extension.beforeGenerate ||
+      extension.afterGenerate ||
+      extension.onMessage
+    ) {
+      logger.logWarn("Hooks are not run for sandboxed extensions");
+    }
+  } else {
+    throw new Error(
+      `Extension [${name}] must export a default function or extension object`,
+    );
+  }
+
+  return Promise.all(
+    Object.entries(tools).map(
+      async ([toolName, t]): Promise<SandboxToolDefinition> => ({
+        name: toolName,
+        description: t.description,
+        inputSchema: await asSchema(t.inputSchema).jsonSchema,
+      }),
+    ),
+  );
+}
+
+async function call(request: Extract<SandboxRequest, { type: "call" }>) {
+  const execute = tools[request.tool]?.execute;
+  if (!execute) throw new Error(`Unknown tool [${request.tool}]`);
+  const result = await execute(request.input, {
+    toolCallId: request.toolCallId,
+    messages: request.messages,
+  });
+  if (result && typeof result === "object" && Symbol.asyncIterator in result) {
+    let last: unknown;
+    for await (const part of result as AsyncIterable<unknown>) last = part;
+    return last;
+  }
+  return result;
+}
+
+async function handle(request: SandboxRequest) {
+  switch (request.type) {
+    case "init":
+      return init(request);
+    case "call":
+      return call(request);
+    case "teardown":
+      return extension.teardown?.();
+  }
+}
+
+function respond(response: SandboxResponse) {
+  try {
+    self.postMessage(response);
+  } catch (e) {
+    self.postMessage({
+      type: "error",
+      id: response.id,
+      message: `Result could not be sent: ${e instanceof Error ? e.message : String(e)}`,
+    } satisfies SandboxResponse);
+  }
+}
+
+self.onmessage = async (event: MessageEvent<SandboxRequest>) => {
+  const request = event.data;
+  try {
+    respond({ type: "result", id: request.id, output: await handle(request) });
+  } catch (e) {
+    respond({
+      type: "error",
+      id: request.id,
+      message: e instanceof Error ? e.message : String(e),
+    });
+  }
+};
@@ -1,37 +1,362 @@
-import type { Tool } from "ai";
+import type { LanguageModelUsage, ModelMessage, Tool } from "ai";
+import type { Message } from "discord.js";
+import { watch, type FSWatcher } from "fs";
 import { readdir } from "fs/promises";
 import path from "path";
 import { getConfig } from "./config-parser";
+import { parseExtensionManifest } from "./extension-permissions";
+import { SandboxedExtension } from "./extension-sandbox";
 import { Logger } from "./logger";
+import type { Config } from "./type";
 
-export async function loadExtensions() {
-  const { log_level } = await getConfig();
-  const logger = new Logger({ module: "extensions", logLevel: log_level });
-
-  const files = await readdir(path.join(import.meta.dirname, "../extensions/"));
-  const extensionFiles = files.filter((f) => {
-    if (f === "example.ts") return false;
-    return f.endsWith(".ts") || f.endsWith(".js");
-  });
-
-  const tools = await Promise.allSettled(
-    extensionFiles.map(async (f) => {
-      logger.logInfo(`Loading extension [${f}]`);
-      const mod = await import(`../extensions/${f}`);
-      return mod.default() as Promise<Record<string, Tool>>;
-    }),
-  );
-
-  const failed = tools.filter((t) => t.status === "rejected");
-  if (failed.length > 0) {
-    logger.logError(
-      "Error loading extensions:",
-      failed.map((t) => t.reason),
+type Awaitable<T> = T | Promise<T>;
+
+/** File access checked against the manifest's `filesystem` paths. */
+export type SandboxFs = {
+  readFile: (file: string) => Promise<string>;
+  writeFile: (file: string, data: string) => Promise<void>;
+};
+
+export type ExtensionContext = {
+  name: string;
+  /** `extensions.<name>` from config.yaml; `{}` when not set. */
+  config: Record<string, unknown>;
+  logger: Logger;
+  /** Only set for sandboxed extensions. */
+  fs?: SandboxFs;
+};
+
+export type GenerateHookContext = {
+  /** The Discord message being answered. */
+  message: Message;
+  providerModel: string;
+};
+
+export type GenerateResponse = {
+  text: string;
+  /** Assistant and tool messages of the response. */
+  messages: ModelMessage[];
+  usage: LanguageModelUsage | null;
+  /** Discord messages the response was posted as. */
+  messageIds: string[];
+};
+
+export type Extension = {
+  /** Returns the tools the extension provides, if any. */
+  setup?: (ctx: ExtensionContext) => Awaitable<Record<string, Tool> | void>;
+  /** Called before the extension is unloaded, e.g. on `/reload-tools`. */
+  teardown?: () => Awaitable<void>;
+  /**
+   * Sees the conversation (oldest first) before each generation. Return a
+   * new array to replace it.
+   */
+  beforeGenerate?: (
+    messages: ModelMessage[],
+    ctx: GenerateHookContext,
+  ) => Awaitable<ModelMessage[] | void>;
+  afterGenerate?: (
+    response: GenerateResponse,
+    ctx: GenerateHookContext,
+  ) => Awaitable<void>;
+  /** Every message the bot can see, whether or not it answers it. */
+  onMessage?: (msg: Message) => Awaitable<void>;
+};
+
+/** Type helper for `export default defineExtension({ ... })`. */
+export function defineExtension(extension: Extension) {
+  return extension;
+}
+
+type LegacyExtension = () => Awaitable<Record<string, Tool>>;
+
+type LoadedExtension = {
+  name: string;
+  extension: Extension;
+  logger: Logger;
+  tools: Record<string, Tool>;
+};
+
+type ExtensionHostConfig = Pick<Config, "log_level" | "extensions">;
+
+export type ExtensionLoadError = {
+  name: string;
+  message: string;
+  at: number;
+};
+
+/** `/list-tools` lines for extensions whose last load failed. */
+export function formatExtensionErrors(errors: ExtensionLoadError[]): string[] {
+  if (errors.length === 0) return [];
+  return [
+    "**Extensions that failed to load**",
+    ...errors.map(
+      ({ name, message }) =>
+        `- ⚠️ \`${name}\`: ${message.split("\n")[0]!.slice(0, 200)}`,
+    ),
+  ];
+}
+
+const EXTENSIONS_DIR = path.join(import.meta.dirname, "../extensions/");
+const MANIFEST_SUFFIX = ".manifest.json";
+const WATCH_DEBOUNCE_MS = 250;
+
+/** Makes each import URL unique, even for reloads within a millisecond. */
+let importCount = 0;
+
+function isExtensionFile(file: string) {
+  if (file === "example.ts") return false;
+  return file.endsWith(".ts") || file.endsWith(".js");
+}
+
+/** Extension a changed file belongs to: its source or its manifest. */
+function extensionName(file: string) {
+  if (file.endsWith(MANIFEST_SUFFIX))
+    return file.slice(0, -MANIFEST_SUFFIX.length);
+  return isExtensionFile(file) ? path.parse(file).name : null;
+}
+
+async function readManifest(dir: string, name: string) {
+  const file = Bun.file(path.join(dir, `${name}${MANIFEST_SUFFIX}`));
+  if (!(await file.exists())) return null;
+  return parseExtensionManifest(await file.json());
+}
+
+function errorMessage(e: unknown) {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * Loads the files in `extensions/` and runs their hooks. A default export is
+ * either an `Extension` object or, as before, a function returning tools.
+ * Extensions with a manifest run in a `SandboxedExtension` instead.
+ * Hook errors are logged and never reach the caller.
+ */
+export class ExtensionHost {
+  private loaded = new Map<string, LoadedExtension>();
+  private errors = new Map<string, ExtensionLoadError>();
+  private logger = new Logger({ module: "extensions" });
+  private watcher: FSWatcher | null = null;
+  private watchTimers = new Map<string, NodeJS.Timeout>();
+  /** Loads and reloads run one at a time. */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private dir = EXTENSIONS_DIR,
+    private loadConfig: () => Promise<ExtensionHostConfig> = getConfig,
+  ) {}
+
+  /** Load every extension in `extensions/`. */
+  async load() {
+    await this.enqueue(async () => {
+      const { log_level } = await this.loadConfig();
+      this.logger.setLogLevel(log_level ?? "info");
+      const files = (await readdir(this.dir)).filter(isExtensionFile);
+      await Promise.all(files.map((f) => this.loadFile(f)));
+    });
+  }
+
+  /** Tools keyed by extension name. */
+  getTools() {
+    const tools: Record<string, Record<string, Tool>> = {};
+    for (const [name, loaded] of this.loaded) tools[name] = loaded.tools;
+    return tools;
+  }
+
+  /** Extensions whose last load failed. */
+  getErrors(): ExtensionLoadError[] {
+    return [...this.errors.values()];
+  }
+
+  /**
+   * Import a file and set it up, replacing the running version if any. The
+   * import URL changes on every load so edited code is picked up; if the new
+   * code fails to import (or, when sandboxed, to start), the running version
+   * is kept.
+   *
+   * Unsandboxed reloads have two limits: only the entry file is imported
+   * again, so edits to modules it imports need a restart, and the runtime
+   * never frees a module, so every reload keeps the previous version in
+   * memory. Sandboxed extensions get a new worker instead and have neither.
+   */
+  private async loadFile(file: string) {
+    const name = path.parse(file).name;
+    const { log_level, extensions: configs } = await this.loadConfig();
+    this.logger.logInfo(`Loading extension [${file}]`);
+
+    try {
+      const ctx: ExtensionContext = {
+        name,
+        config: configs?.[name] ?? {},
+        logger: new Logger({
+          module: `extension:${name}`,
+          logLevel: log_level,
+        }),
+      };
+      const manifest = await readManifest(this.dir, name);
+      let tools: Record<string, Tool>;
+      if (manifest) {
+        const sandbox = new SandboxedExtension({
+          ...ctx,
+          file: path.join(this.dir, file),
+          manifest,
+          logLevel: log_level,
+        });
+        tools = await sandbox.start();
+        await this.teardown(name);
+        this.loaded.set(name, {
+          name,
+          extension: { teardown: () => sandbox.stop() },
+          logger: ctx.logger,
+          tools,
+        });
+      } else {
+        // a path, not a file:// URL: Bun reuses the cached source for those
+        // even when the query changes
+        const mod = await import(
+          `${path.join(this.dir, file)}?v=${Date.now()}-${++importCount}`
+        );
+        await this.teardown(name);
+        tools = await this.setup(name, mod.default, ctx);
+      }
+      this.errors.delete(name);
+      return tools;
+    } catch (e) {
+      this.logger.logError(`Error loading extension [${file}]:`, e);
+      this.errors.set(name, { name, message: errorMessage(e), at: Date.now() });
+      return null;
+    }
+  }
+
+  private async setup(
+    name: string,
+    exported: Extension | LegacyExtension,
+    ctx: ExtensionContext,
+  ) {
+    if (typeof exported === "function") {
+      const tools = await exported();
+      this.loaded.set(name, { name, extension: {}, logger: ctx.logger, tools });
+      return tools;
+    }
+    if (typeof exported !== "object" || exported === null) {
+      throw new Error(
+        `Extension [${name}] must export a default function or extension object`,
+      );
+    }
+    const tools = (await exported.setup?.(ctx)) ?? {};
+    this.loaded.set(name, {
+      name,
+      extension: exported,
+      logger: ctx.logger,
+      tools,
+    });
+    return tools;
+  }
+
+  private async teardown(name: string) {
+    const loaded = this.loaded.get(name);
+    if (!loaded) return;
+    this.loaded.delete(name);
+    await this.run(name, loaded.logger, "teardown", () =>
+      loaded.extension.teardown?.(),
+    );
+  }
+
+  /** Tear down every loaded extension. */
+  async unload() {
+    this.stopWatcher();
+    await this.enqueue(async () => {
+      await Promise.all([...this.loaded.keys()].map((n) => this.teardown(n)));
+      this.errors.clear();
+    });
+  }
+
+  /** Reload extensions when their files change. */
+  startWatcher() {
+    if (this.watcher) return;
+    this.watcher = watch(this.dir, (_event, filename) => {
+      const name = filename ? extensionName(filename.toString()) : null;
+      if (!name) return;
+      clearTimeout(this.watchTimers.get(name));
+      this.watchTimers.set(
+        name,
+        setTimeout(() => {
+          this.watchTimers.delete(name);
+          this.enqueue(async () => {
+            const file = (await readdir(this.dir)).find(
+              (f) => isExtensionFile(f) && path.parse(f).name === name,
+            );
+            if (file) {
+              await this.loadFile(file);
+            } else {
+              this.logger.logInfo(`Extension [${name}] removed`);
+              await this.teardown(name);
+              this.errors.delete(name);
+            }
+          }).catch((e) => this.logger.logError(e));
+        }, WATCH_DEBOUNCE_MS),
+      );
+    });
+    this.watcher.on("error", (e) =>
+      this.logger.logError("extensions/ watcher error", e),
     );
+    this.logger.logInfo("Watching extensions/ for changes");
   }
 
-  const succeed = tools.filter((t) => t.status === "fulfilled");
-  return succeed
-    .map((t) => t.value)
-    .reduce((acc, tools) => ({ ...acc, ...tools }), {} as Record<string, Tool>);
+  stopWatcher() {
+    this.watcher?.close();
+    this.watcher = null;
+    for (const timer of this.watchTimers.values()) clearTimeout(timer);
+    this.watchTimers.clear();
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(task, task);
+    this.queue = next.catch(() => {});
+    return next;
+  }
+
+  /** Conversation after every extension's `beforeGenerate`, in load order. */
+  async beforeGenerate(messages: ModelMessage[], ctx: GenerateHookContext) {
+    let current = messages;
+    for (const { name, extension, logger } of this.loaded.values()) {
+      if (!extension.beforeGenerate) continue;
+      const next = await this.run(name, logger, "beforeGenerate", () =>
+        extension.beforeGenerate!(current, ctx),
+      );
+      if (next) current = next;
+    }
+    return current;
+  }
+
+  async afterGenerate(response: GenerateResponse, ctx: GenerateHookContext) {
+    await Promise.all(
+      [...this.loaded.values()].map(({ name, extension, logger }) =>
+        this.run(name, logger, "afterGenerate", () =>
+          extension.afterGenerate?.(response, ctx),
+        ),
+      ),
+    );
+  }
+
+  async onMessage(msg: Message) {
+    await Promise.all(
+      [...this.loaded.values()].map(({ name, extension, logger }) =>
+        this.run(name, logger, "onMessage", () => extension.onMessage?.(msg)),
+      ),
+    );
+  }
+
+  private async run<T>(
+    name: string,
+    logger: Logger,
+    hook: string,
+    fn: () => Awaitable<T>,
+  ): Promise<T | undefined> {
+    try {
+      return await fn();
+    } catch (e) {
+      logger.logError(`Extension [${name}] failed in ${hook}:`, e);
+      return undefined;
+    }
+  }
 }
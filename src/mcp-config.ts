@@ -0,0 +1,73 @@
+import type {
+  Config,
+  LocalMCPConfig,
+  McpServerOptions,
+  RemoteMCPConfig,
+} from "./type";
+
+export type McpServerDefinition =
+  | { kind: "local"; name: string; config: LocalMCPConfig }
+  | { kind: "remote"; name: string; config: RemoteMCPConfig };
+
+const SERVER_OPTION_KEYS = [
+  "require_approval",
+  "timeout_ms",
+  "max_output_chars",
+  "max_concurrency",
+  "prefix_tool_names",
+  "rename_tools",
+] as const satisfies ReadonlyArray<keyof McpServerOptions>;
+
+/** Separate the bot's own server options from what the transport gets. */
+export function splitMcpServerConfig<T extends McpServerOptions>(config: T) {
+  const options: McpServerOptions = {};
+  const transport: Record<string, unknown> = { ...config };
+  for (const key of SERVER_OPTION_KEYS) {
+    if (config[key] !== undefined) {
+      (options as Record<string, unknown>)[key] = config[key];
+    }
+    delete transport[key];
+  }
+  return { options, transport: transport as Omit<T, keyof McpServerOptions> };
+}
+
+/** MCP servers from the `tools` section, keyed like ToolManager's clients. */
+export function getMcpServerDefinitions(tools: Config["tools"]) {
+  const servers = new Map<string, McpServerDefinition>();
+  for (const [name, config] of Object.entries(tools?.local_mcp ?? {})) {
+    servers.set(`local_${name}`, { kind: "local", name, config });
+  }
+  for (const [name, config] of Object.entries(tools?.remote_mcp ?? {})) {
+    servers.set(`remote_${name}`, { kind: "remote", name, config });
+  }
+  return servers;
+}
+
+/**
+ * Servers to start, stop or restart when the `tools` section changes. Only
+ * transport settings count; server options apply without a restart.
+ */
+export function diffMcpServers(prev: Config["tools"], next: Config["tools"]) {
+  const before = getMcpServerDefinitions(prev);
+  const after = getMcpServerDefinitions(next);
+
+  const added: McpServerDefinition[] = [];
+  const removed: McpServerDefinition[] = [];
+  const changed: McpServerDefinition[] = [];
+
+  for (const [key, server] of after) {
+    const old = before.get(key);
+    if (!old) added.push(server);
+    else if (
+      JSON.stringify(splitMcpServerConfig(old.config).transport) !==
+      JSON.stringify(splitMcpServerConfig(server.config).transport)
+    ) {
+      changed.push(server);
+    }
+  }
+  for (const [key, server] of before) {
+    if (!after.has(key)) removed.push(server);
+  }
+
+  return { added, removed, changed };
+}
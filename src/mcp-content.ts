@@ -0,0 +1,198 @@
+import type { ModelMessage, TextPart, ImagePart } from "ai";
+
+export type McpPromptArgument = {
+  name: string;
+  description?: string;
+  required?: boolean;
+};
+
+export type McpResourceContents = {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+};
+
+type McpContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "resource"; resource: McpResourceContents }
+  | { type: "resource_link"; uri: string; name: string };
+
+export type McpPromptMessage = {
+  role: "user" | "assistant";
+  content: McpContent;
+};
+
+/** A single-argument prompt only takes pairs that start with its name. */
+function isNameValueList(text: string, args: McpPromptArgument[]) {
+  const name = text.match(/^([\w-]+)\s*=/)?.[1];
+  if (!name) return false;
+  return args.length !== 1 || args[0]!.name === name;
+}
+
+/**
+ * `/prompt` arguments: a JSON object, `name=value` pairs separated by commas,
+ * or a bare value when the prompt takes a single argument.
+ */
+export function parsePromptArguments(
+  input: string | null | undefined,
+  args: McpPromptArgument[],
+): Record<string, string> {
+  const text = input?.trim() ?? "";
+  let values: Record<string, string> = {};
+
+  if (text.startsWith("{")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error("Arguments are not valid JSON");
+    }
+    if (
+      typeof parsed !== "object" ||
+      parsed === null ||
+      Array.isArray(parsed)
+    ) {
+      throw new Error("Arguments must be a JSON object");
+    }
+    for (const [key, value] of Object.entries(parsed)) {
+      values[key] = typeof value === "string" ? value : JSON.stringify(value);
+    }
+  } else if (isNameValueList(text, args)) {
+    for (const pair of text.split(/,\s*(?=[\w-]+\s*=)/)) {
+      const eq = pair.indexOf("=");
+      values[pair.slice(0, eq).trim()] = pair.slice(eq + 1).trim();
+    }
+  } else if (text) {
+    if (args.length !== 1) {
+      const example = args.map((a) => `${a.name}=…`).join(", ");
+      throw new Error(
+        args.length === 0
+          ? "This prompt takes no arguments"
+          : `Use name=value pairs, e.g. \`${example}\``,
+      );
+    }
+    values = { [args[0]!.name]: text };
+  }
+
+  const known = new Set(args.map((a) => a.name));
+  const unknown = Object.keys(values).filter((key) => !known.has(key));
+  if (unknown.length > 0) {
+    const expected = args.length ? args.map((a) => a.name).join(", ") : "none";
+    throw new Error(
+      `Unknown argument(s): ${unknown.join(", ")} (expected: ${expected})`,
+    );
+  }
+  const missing = args
+    .filter((a) => a.required && !values[a.name])
+    .map((a) => a.name);
+  if (missing.length > 0) {
+    throw new Error(`Missing required argument(s): ${missing.join(", ")}`);
+  }
+  return values;
+}
+
+function formatResource(uri: string, text: string) {
+  return `<mcp-resource uri="${uri}">\n${text}\n</mcp-resource>`;
+}
+
+/** Same envelope as user messages read from Discord. */
+function wrapUserText(user: { id: string; username: string }, text: string) {
+  return (
+    "<message>\n" +
+    `user_id: ${user.id}\n` +
+    `username: ${user.username}\n` +
+    `content: |\n${text}\n` +
+    "</message>\n"
+  );
+}
+
+function contentToText(content: McpContent) {
+  switch (content.type) {
+    case "text":
+      return content.text;
+    case "resource":
+      return typeof content.resource.text === "string"
+        ? formatResource(content.resource.uri, content.resource.text)
+        : `[binary resource ${content.resource.uri}]`;
+    case "resource_link":
+      return `[resource ${content.name}: ${content.uri}]`;
+    case "image":
+      return "[image]";
+  }
+}
+
+/**
+ * Turn a rendered MCP prompt into model messages. User text is sent as if
+ * `user` had written it; images are kept for user messages only.
+ */
+export function promptMessagesToModelMessages(
+  messages: McpPromptMessage[],
+  user: { id: string; username: string },
+): ModelMessage[] {
+  return messages.map((message): ModelMessage => {
+    if (message.role === "assistant") {
+      return { role: "assistant", content: contentToText(message.content) };
+    }
+    if (message.content.type === "image") {
+      const parts: Array<TextPart | ImagePart> = [
+        { type: "text", text: wrapUserText(user, "") },
+        {
+          type: "image",
+          image: message.content.data,
+          mediaType: message.content.mimeType,
+        },
+      ];
+      return { role: "user", content: parts };
+    }
+    return {
+      role: "user",
+      content: wrapUserText(user, contentToText(message.content)),
+    };
+  });
+}
+
+/** Text of a read resource, cut at `maxChars`; binary parts are described. */
+export function resourceContentsToText(
+  contents: McpResourceContents[],
+  maxChars: number,
+) {
+  const text = contents
+    .map((c) => {
+      if (typeof c.text === "string") return c.text;
+      const size = c.blob ? Math.floor((c.blob.length * 3) / 4) : 0;
+      return `[binary content: ${c.mimeType ?? "unknown type"}, ${size} bytes]`;
+    })
+    .join("\n");
+  if (text.length <= maxChars) return text;
+  return `${text.slice(0, maxChars)}\n[Resource truncated: showing ${maxChars} of ${text.length} characters]`;
+}
+
+/** System message carrying the resources attached to a channel. */
+export function formatAttachedResources(
+  resources: Array<{ uri: string; text: string }>,
+) {
+  return (
+    "The following resources are attached to this conversation:\n" +
+    resources.map((r) => formatResource(r.uri, r.text)).join("\n")
+  );
+}
+
+export type McpPromptInfo = {
+  /** `local_<name>` or `remote_<name>` */
+  serverKey: string;
+  server: string;
+  name: string;
+  description?: string;
+  arguments: McpPromptArgument[];
+};
+
+export type McpResourceInfo = {
+  serverKey: string;
+  server: string;
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+};
@@ -0,0 +1,89 @@
+export type McpServerState =
+  "connecting" | "connected" | "reconnecting" | "stopped";
+
+export type McpServerStatus = {
+  /** `local_<name>` or `remote_<name>` */
+  key: string;
+  kind: "local" | "remote";
+  name: string;
+  state: McpServerState;
+  toolCount: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  connectedAt: number | null;
+  /** Failed connection attempts since the last successful one. */
+  failures: number;
+  nextRetryAt: number | null;
+};
+
+export const RECONNECT_BASE_DELAY_MS = 1000;
+export const RECONNECT_MAX_DELAY_MS = 5 * 60 * 1000;
+
+/** Exponential backoff: 1s, 2s, 4s, … capped at 5 minutes. */
+export function getReconnectDelay(
+  failures: number,
+  baseMs = RECONNECT_BASE_DELAY_MS,
+  maxMs = RECONNECT_MAX_DELAY_MS,
+) {
+  const exponent = Math.max(0, failures - 1);
+  return Math.min(maxMs, baseMs * 2 ** Math.min(exponent, 30));
+}
+
+/** `3d 4h`, `2h 5m`, `5m 12s`, `42s` */
+export function formatDuration(ms: number) {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(total / 86400);
+  const hours = Math.floor((total % 86400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = total % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${seconds}s`;
+  return `${seconds}s`;
+}
+
+const STATE_ICONS: Record<McpServerState, string> = {
+  connecting: "🟡",
+  connected: "🟢",
+  reconnecting: "🔴",
+  stopped: "⚪",
+};
+
+const MAX_ERROR_LENGTH = 150;
+
+/** One block per server, for `/mcp-status`. */
+export function formatMcpStatus(statuses: McpServerStatus[], now: number) {
+  if (statuses.length === 0) return "No MCP servers configured.";
+
+  return statuses
+    .map((s) => {
+      const parts = [`${STATE_ICONS[s.state]} **${s.name}** (${s.kind})`];
+      parts.push(s.state);
+      if (s.state === "connected") {
+        parts.push(`${s.toolCount} tool(s)`);
+        if (s.connectedAt !== null) {
+          parts.push(`up ${formatDuration(now - s.connectedAt)}`);
+        }
+      }
+      if (s.state === "reconnecting" && s.nextRetryAt !== null) {
+        parts.push(
+          `retry #${s.failures + 1} in ${formatDuration(s.nextRetryAt - now)}`,
+        );
+      }
+
+      let block = parts.join(" · ");
+      if (s.lastError) {
+        const error =
+          s.lastError.length > MAX_ERROR_LENGTH
+            ? `${s.lastError.slice(0, MAX_ERROR_LENGTH - 1)}…`
+            : s.lastError;
+        const ago =
+          s.lastErrorAt === null
+            ? ""
+            : ` (${formatDuration(now - s.lastErrorAt)} ago)`;
+        block += `\n  Last error${ago}: \`${error.replaceAll("`", "'")}\``;
+      }
+      return block;
+    })
+    .join("\n");
+}
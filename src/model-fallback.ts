@@ -0,0 +1,60 @@
+import { APICallError, RetryError, type FinishReason } from "ai";
+import type { Config } from "./type";
+
+/** Thrown when a stream finishes without producing any text. */
+export class NoContentGeneratedError extends Error {
+  constructor(readonly finishReason: FinishReason) {
+    super(`No content generated (finish reason: ${finishReason})`);
+    this.name = "NoContentGeneratedError";
+  }
+}
+
+/**
+ * Ordered list of models to try for a request: the primary model followed by
+ * its `fallback_models` (or the global `fallback_models` when the model has
+ * none). Duplicates and models missing from `models` are dropped.
+ */
+export function getFallbackChain(
+  primary: string,
+  config: Pick<Config, "models" | "fallback_models">,
+): { chain: string[]; skipped: string[] } {
+  const perModel = config.models[primary]?.fallback_models;
+  const fallbacks = Array.isArray(perModel)
+    ? perModel
+    : (config.fallback_models ?? []);
+
+  const chain = [primary];
+  const skipped: string[] = [];
+  for (const raw of fallbacks) {
+    const model = String(raw).trim();
+    if (!model || chain.includes(model)) continue;
+    if (!(model in config.models)) {
+      skipped.push(model);
+      continue;
+    }
+    chain.push(model);
+  }
+
+  return { chain, skipped };
+}
+
+function getStatusCode(error: unknown): number | undefined {
+  if (APICallError.isInstance(error)) return error.statusCode;
+  if (RetryError.isInstance(error)) return getStatusCode(error.lastError);
+  if (error instanceof Error && error.cause) return getStatusCode(error.cause);
+  return undefined;
+}
+
+/**
+ * Errors that will not go away by retrying the same model: rate limits,
+ * provider outages and content-filter refusals.
+ */
+export function shouldFallbackImmediately(error: unknown): boolean {
+  if (error instanceof NoContentGeneratedError) {
+    return error.finishReason === "content-filter";
+  }
+
+  const statusCode = getStatusCode(error);
+  if (statusCode === undefined) return false;
+  return statusCode === 429 || statusCode >= 500;
+}
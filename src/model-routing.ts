@@ -100,7 +100,8 @@ export async function getProvidersFromConfig() {
             headers: providerConfig.extra_headers,
             queryParams: providerConfig.extra_query,
             fetch: fetchImpl,
-            includeUsage: Boolean(config.stats_for_nerds),
+            // usage is recorded in the usage ledger for every request
+            includeUsage: true,
           }),
         ];
       }),
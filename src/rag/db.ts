@@ -44,6 +44,30 @@ export async function pg() {
       )
     `);
 
+    await sql`
+      CREATE TABLE IF NOT EXISTS rag_contents (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        guild_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        source TEXT NOT NULL,
+        full_content TEXT NOT NULL,
+        added_by TEXT NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `;
+
+    await sql.unsafe(`
+      CREATE TABLE IF NOT EXISTS rag_content_chunks (
+        id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+        content_id UUID NOT NULL REFERENCES rag_contents (id) ON DELETE CASCADE,
+        guild_id TEXT NOT NULL,
+        chunk_index INTEGER NOT NULL,
+        heading TEXT,
+        content TEXT NOT NULL,
+        embedding VECTOR(${dimensions}) NOT NULL
+      )
+    `);
+
     await sql`
       INSERT INTO rag_meta (id, embedding_model, embedding_dimensions)
       VALUES (1, ${providerModel}, ${dimensions})
@@ -96,21 +120,21 @@ export async function pg() {
     if (dbDimensions !== dimensions) {
       throw new Error(
         `[RAG] embedding_dimensions mismatch. Config expects ${dimensions} but DB schema is ${dbDimensions}. ` +
-          "Delete the RAG database/table and start over.",
+          "Run `bun run rag:reembed` to re-embed the stored memories and documents.",
       );
     }
 
     if (meta.embedding_dimensions !== dimensions) {
       throw new Error(
         `[RAG] rag_meta.embedding_dimensions mismatch. Expected ${dimensions}, got ${meta.embedding_dimensions}. ` +
-          "Delete the RAG database/table and start over.",
+          "Run `bun run rag:reembed` to re-embed the stored memories and documents.",
       );
     }
 
     if (meta.embedding_model !== providerModel) {
       logger.logWarn(
         `[RAG] embedding_model changed from ${meta.embedding_model} to ${providerModel}. ` +
-          "This is allowed if dimensions match, but existing memories will not be re-embedded.",
+          "This is allowed if dimensions match; run `bun run rag:reembed` to re-embed existing memories.",
       );
     }
   } catch (e) {
@@ -157,5 +181,17 @@ export async function pg() {
     ON embeddings USING gin (summary gin_trgm_ops)
   `;
 
+  await sql`CREATE INDEX IF NOT EXISTS rag_contents_guild_id_idx ON rag_contents (guild_id)`;
+
+  await sql`
+    CREATE INDEX IF NOT EXISTS rag_content_chunks_guild_id_idx
+    ON rag_content_chunks (guild_id)
+  `;
+
+  await sql`
+    CREATE INDEX IF NOT EXISTS rag_content_chunks_embedding_hnsw_idx
+    ON rag_content_chunks USING hnsw (embedding vector_cosine_ops)
+  `;
+
   return sql;
 }
@@ -0,0 +1,182 @@
+import { fromMarkdown } from "mdast-util-from-markdown";
+import { gfm } from "micromark-extension-gfm";
+import { gfmFromMarkdown } from "mdast-util-gfm";
+import type { Nodes } from "mdast";
+import { findLexicalSafeSplitPoint } from "../markdown-splitter";
+
+export type DocumentChunk = {
+  index: number;
+  /** Headings the chunk falls under, e.g. `Setup › Docker`. */
+  heading: string | null;
+  content: string;
+};
+
+export type KnowledgeExcerpt = {
+  title: string;
+  source: string;
+  heading: string | null;
+  content: string;
+};
+
+function nodeText(node: Nodes): string {
+  if ("value" in node) return node.value;
+  if ("children" in node) return node.children.map(nodeText).join("");
+  return "";
+}
+
+function splitSection(text: string, maxChars: number) {
+  const parts: string[] = [];
+  let remaining = text;
+  while (remaining.length > maxChars) {
+    let pos = findLexicalSafeSplitPoint(remaining, maxChars);
+    if (pos <= 0 || pos > maxChars * 1.5) pos = maxChars;
+    const part = remaining.slice(0, pos).trim();
+    if (part) parts.push(part);
+    remaining = remaining.slice(pos);
+  }
+  const rest = remaining.trim();
+  if (rest) parts.push(rest);
+  return parts;
+}
+
+/**
+ * Split a markdown document at its headings, then split sections longer
+ * than `maxChars` at markdown-safe boundaries.
+ */
+export function chunkDocument(
+  content: string,
+  maxChars: number,
+): DocumentChunk[] {
+  const tree = fromMarkdown(content, {
+    extensions: [gfm()],
+    mdastExtensions: [gfmFromMarkdown()],
+  });
+
+  const sections: Array<{ heading: string | null; start: number }> = [
+    { heading: null, start: 0 },
+  ];
+  const bodyEnds: number[] = [];
+  const path: string[] = [];
+  for (const node of tree.children) {
+    if (node.type !== "heading" || !node.position) continue;
+    path.length = node.depth - 1;
+    path[node.depth - 1] = nodeText(node).trim();
+    bodyEnds.push(node.position.start.offset ?? 0);
+    sections.push({
+      heading: path.filter(Boolean).join(" › ") || null,
+      start: node.position.end.offset ?? 0,
+    });
+  }
+  bodyEnds.push(content.length);
+
+  const chunks: DocumentChunk[] = [];
+  sections.forEach(({ heading, start }, i) => {
+    const body = content.slice(start, bodyEnds[i]);
+    for (const part of splitSection(body, Math.max(1, maxChars))) {
+      chunks.push({ index: chunks.length, heading, content: part });
+    }
+  });
+  return chunks;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x?[\da-f]+|\w+);/gi, (match, entity: string) => {
+    if (entity.startsWith("#")) {
+      const code =
+        entity[1]?.toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/** Text embedded for a chunk: its document title and heading, then its content. */
+export function chunkEmbeddingText(
+  title: string,
+  heading: string | null,
+  content: string,
+) {
+  return [heading ? `${title} › ${heading}` : title, content].join("\n\n");
+}
+
+/** Readable text of an HTML page, with its `<title>` if it has one. */
+export function htmlToText(html: string): {
+  title: string | null;
+  text: string;
+} {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const text = html
+    .replace(/<(script|style|noscript|head|svg)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(
+      /<h([1-6])\b[^>]*>/gi,
+      (_, level: string) => `\n\n${"#".repeat(Number(level))} `,
+    )
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|section|article|h[1-6]|tr|pre|blockquote)>/gi, "\n\n")
+    .replace(/<[^>]+>/g, "");
+  return {
+    title: title ? decodeEntities(title).trim() || null : null,
+    text: decodeEntities(text)
+      .replace(/[ \t]+\n/g, "\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim(),
+  };
+}
+
+/**
+ * A response body as text, refusing it once it is longer than `maxBytes`:
+ * up front from its `content-length`, or while streaming, by cancelling the
+ * download.
+ */
+export async function readTextCapped(res: Response, maxBytes: number) {
+  const tooLarge = () =>
+    new Error(`Document is too large (limit ${maxBytes} bytes)`);
+  if (Number(res.headers.get("content-length")) > maxBytes) {
+    await res.body?.cancel();
+    throw tooLarge();
+  }
+  if (!res.body) return "";
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+/** System message with knowledge base excerpts, numbered for citation. */
+export function formatKnowledgeContext(excerpts: KnowledgeExcerpt[]) {
+  const sources = excerpts.map((e, i) => {
+    const section = e.heading ? ` § ${e.heading}` : "";
+    return `<kb-source id="${i + 1}" title="${e.title}${section}" source="${e.source}">\n${e.content}\n</kb-source>`;
+  });
+  return (
+    "Excerpts from this server's knowledge base that may help with the latest message. " +
+    "If you use them, cite them inline as [1], [2], … and end your answer with the cited sources (title and link or file name). " +
+    "Ignore excerpts that are not relevant.\n" +
+    sources.join("\n")
+  );
+}
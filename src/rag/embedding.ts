@@ -1,11 +1,11 @@
 import { tool } from "ai";
 import { getConfig } from "../config-parser";
-import { pg } from "./db";
 import { z } from "zod/v3";
-import type { RagEmbedding } from "./type";
 import { getProvidersFromConfig } from "../model-routing";
 import { Logger } from "../logger";
 import { getRagEmbeddingConfig } from "./config";
+import { DEFAULT_RRF_K, reciprocalRankFusion } from "./hybrid";
+import { getRagStore } from "./store";
 
 function getEmbeddingModel(providerClient: unknown, modelId: string) {
   const client = providerClient as {
@@ -32,6 +32,53 @@ function getEmbeddingModel(providerClient: unknown, modelId: string) {
   );
 }
 
+const EMBED_BATCH_SIZE = 64;
+/** Each retriever fetches this many times `limit` candidates for fusion. */
+const HYBRID_CANDIDATE_FACTOR = 3;
+
+type SearchMode = "vector" | "hybrid";
+
+/** Embed `values` with the configured `embedding_model`, in batches. */
+export async function embedTexts(values: string[]): Promise<number[][]> {
+  const config = await getConfig();
+  const { provider, model, dimensions } = getRagEmbeddingConfig(config);
+
+  const providers = await getProvidersFromConfig();
+  const embeddingProvider = (providers as Record<string, unknown>)[provider];
+  if (!embeddingProvider) {
+    throw new Error(`[RAG] Embedding provider not configured: ${provider}`);
+  }
+
+  const embeddingModel = getEmbeddingModel(embeddingProvider, model);
+  const results: number[][] = [];
+  for (let i = 0; i < values.length; i += EMBED_BATCH_SIZE) {
+    const { embeddings } = await (embeddingModel as any).doEmbed({
+      values: values.slice(i, i + EMBED_BATCH_SIZE),
+    });
+    for (const embedding of embeddings as number[][]) {
+      if (embedding.length !== dimensions) {
+        throw new Error(
+          `[RAG] Embedding dimensions mismatch. Config expects ${dimensions}, model returned ${embedding.length} for ${provider}/${model}`,
+        );
+      }
+      results.push(embedding);
+    }
+  }
+  return results;
+}
+
+/**
+ * Embeds `text` on the first call; later calls share its result or error.
+ * Resolves to `null` for blank text.
+ */
+export function lazyEmbedding(text: string) {
+  let embedding: Promise<number[] | null> | null = null;
+  return () =>
+    (embedding ??= text.trim()
+      ? embedTexts([text]).then(([e]) => e!)
+      : Promise.resolve(null));
+}
+
 export async function findRelevantContent(
   userId: string,
   search: string,
@@ -39,76 +86,62 @@ export async function findRelevantContent(
     simThreshold = 0.3,
     limit = 10,
     type,
+    mode,
   }: {
     simThreshold?: number;
     limit?: number;
     type?: "intent" | "fact" | "preference";
+    /** Default: `rag.search.mode`, else "hybrid". */
+    mode?: SearchMode;
   },
 ) {
   const config = await getConfig();
   const logger = new Logger({ module: "rag", logLevel: config.log_level });
-  const { provider, model, dimensions } = getRagEmbeddingConfig(config);
+  const searchConfig = config.rag?.search;
+  const searchMode = mode ?? searchConfig?.mode ?? "hybrid";
 
-  const providers = await getProvidersFromConfig();
-  const embeddingProvider = (providers as Record<string, unknown>)[provider];
-  if (!embeddingProvider) {
-    throw new Error(`[RAG] Embedding provider not configured: ${provider}`);
+  if (config.debug_message) {
+    logger.logDebug({ simThreshold, limit, type, mode: searchMode });
   }
 
-  if (config.debug_message) logger.logDebug({ simThreshold, limit, type });
-
-  const embeddingModel = getEmbeddingModel(embeddingProvider, model);
-  const { embeddings } = await (embeddingModel as any).doEmbed({ values: [search] });
+  const embedding = (await embedTexts([search]))[0]!;
+  const candidates =
+    searchMode === "hybrid" ? limit * HYBRID_CANDIDATE_FACTOR : limit;
 
-  const embedding = embeddings[0]!;
-  if (embedding.length !== dimensions) {
-    throw new Error(
-      `[RAG] Embedding dimensions mismatch. Config expects ${dimensions}, model returned ${embedding.length} for ${provider}/${model}`,
-    );
-  }
-  const vecLiteral = `[${embedding.join(",")}]`;
+  const store = await getRagStore();
+  let results = await store.searchMemories({
+    userId,
+    embedding,
+    type,
+    simThreshold,
+    limit: candidates,
+  });
 
-  const sql = await pg();
-  let results: RagEmbedding[];
-  if (type) {
-    results = await sql`
-      WITH ranked AS (
-        SELECT
-          e.*,
-          e.embedding <=> ${vecLiteral}::vector AS dist
-        FROM embeddings e
-        WHERE e.user_id = ${userId}
-          AND e.type = ${type}
-          AND e.embedding <=> ${vecLiteral}::vector <= (1 - ${simThreshold})
-      )
-      SELECT
-        r.*,
-        1 - r.dist AS cos_sim
-      FROM ranked r
-      ORDER BY r.dist
-      LIMIT ${limit};
-    `;
-  } else {
-    results = await sql`
-      WITH ranked AS (
-        SELECT
-          e.*,
-          e.embedding <=> ${vecLiteral}::vector AS dist
-        FROM embeddings e
-        WHERE e.user_id = ${userId}
-          AND e.embedding <=> ${vecLiteral}::vector <= (1 - ${simThreshold})
-      )
-      SELECT
-        r.*,
-        1 - r.dist AS cos_sim
-      FROM ranked r
-      ORDER BY r.dist
-      LIMIT ${limit};
-    `;
+  if (searchMode === "hybrid") {
+    // Keyword matches catch exact names, codes and IDs that embeddings
+    // blur; both rankings are merged by reciprocal rank fusion.
+    const keywordResults = await store.searchMemoryKeywords({
+      userId,
+      embedding,
+      type,
+      text: search,
+      limit: candidates,
+    });
+    // Keyword rows go first so their `keyword_score` is the copy kept.
+    results = reciprocalRankFusion(
+      [
+        { items: keywordResults, weight: searchConfig?.keyword_weight ?? 1 },
+        { items: results, weight: searchConfig?.vector_weight ?? 1 },
+      ],
+      (r) => r.id,
+      searchConfig?.rrf_k ?? DEFAULT_RRF_K,
+    )
+      .slice(0, limit)
+      .map(({ item, score }) => ({ ...item, score }));
   }
 
   logger.logInfo(
-    `[RAG] search returned ${results.length} results for user: ${userId}, with search: "${search}"`,
+    `[RAG] ${searchMode} search returned ${results.length} results for user: ${userId}, with search: "${search}"`,
   );
   return results;
 }
@@ -124,59 +157,30 @@ export async function insertEmbeddings(
 ) {
   const config = await getConfig();
   const logger = new Logger({ module: "rag", logLevel: config.log_level });
-  const { provider, model, dimensions } = getRagEmbeddingConfig(config);
-
-  const providers = await getProvidersFromConfig();
-  const embeddingProvider = (providers as Record<string, unknown>)[provider];
-  if (!embeddingProvider) {
-    throw new Error(`[RAG] Embedding provider not configured: ${provider}`);
-  }
 
   logger.logInfo(
     `[RAG] adding ${entries.length} information for user: ${userId}`,
   );
   if (config.debug_message) logger.logDebug(entries);
 
-  const embeddingModel = getEmbeddingModel(embeddingProvider, model);
-  const { embeddings } = await (embeddingModel as any).doEmbed({
-    values: entries.map((e) => e.summary),
-  });
+  const embeddings = await embedTexts(entries.map((e) => e.summary));
 
-  const sql = await pg();
-  await sql.begin(async (tx) => {
-    for (let i = 0; i < entries.length; i++) {
-      const e = entries[i]!;
-      const embedding = embeddings[i]!;
-      if (embedding.length !== dimensions) {
-        throw new Error(
-          `[RAG] Embedding dimensions mismatch. Config expects ${dimensions}, model returned ${embedding.length} for ${provider}/${model}`,
-        );
-      }
-      const vecLiteral = `[${embedding.join(",")}]`;
-      await tx`
-        INSERT INTO embeddings (
-          user_id,
-          summary,
-          memo,
-          type,
-          relevance,
-          embedding
-        ) VALUES (
-          ${userId},
-          ${e.summary},
-          ${e.memo || ""},
-          ${e.type},
-          ${e.relevance},
-          ${vecLiteral}::vector
-        )
-      `;
-    }
-  });
+  const store = await getRagStore();
+  await store.insertMemories(
+    entries.map((e, i) => ({
+      user_id: userId,
+      summary: e.summary,
+      memo: e.memo || "",
+      type: e.type,
+      relevance: e.relevance,
+      embedding: embeddings[i]!,
+    })),
+  );
 }
 
 export async function removeEmbeddings(userId: string, embeddingIds: string[]) {
-  const sql = await pg();
-  await sql`DELETE FROM embeddings WHERE id in ${sql(embeddingIds)} and user_id = ${userId}`;
+  const store = await getRagStore();
+  await store.removeMemories(userId, embeddingIds);
 }
 
 export function getRagTools() {
@@ -281,21 +285,29 @@ export function getRagTools() {
               ])
               .optional()
               .describe("(Optional) Filter by category."),
+            mode: z
+              .union([z.literal("hybrid"), z.literal("vector")])
+              .optional()
+              .describe(
+                "(Optional) 'hybrid' also matches exact words such as names, error codes or ticket IDs; 'vector' matches by meaning only. Default 'hybrid'.",
+              ),
           })
           .optional(),
       }),
       execute: async ({ user_id, search, options }) => {
-        const { simThreshold = 0.3, limit = 10, type } = options ?? {};
+        const { simThreshold = 0.3, limit = 10, type, mode } = options ?? {};
         const results = await findRelevantContent(user_id, search, {
           simThreshold,
           limit,
           type,
+          mode,
         });
         return results.map((r) => ({
           id: r.id,
           summary: r.summary,
           type: r.type,
           similarity: r.cos_sim,
+          keyword_match: r.keyword_score,
           relevance: r.relevance,
           memo: r.memo,
           created_at: r.created_at,
@@ -0,0 +1,94 @@
+export const DEFAULT_RRF_K = 60;
+
+export type RankedList<T> = {
+  /** Best match first. */
+  items: T[];
+  weight: number;
+};
+
+export type FusedResult<T> = {
+  item: T;
+  score: number;
+  /** 1-based rank in each input list, `null` where the item is missing. */
+  ranks: Array<number | null>;
+};
+
+/**
+ * Reciprocal rank fusion: an item scores `weight / (k + rank)` in every list
+ * it appears in. Only ranks matter, so scores from different retrievers
+ * (cosine distance, trigram similarity) need no normalizing. Items are
+ * matched by `key`; the first list's copy of an item is kept.
+ */
+export function reciprocalRankFusion<T>(
+  lists: RankedList<T>[],
+  key: (item: T) => string,
+  k = DEFAULT_RRF_K,
+): FusedResult<T>[] {
+  const fused = new Map<string, FusedResult<T>>();
+  lists.forEach(({ items, weight }, listIndex) => {
+    items.forEach((item, i) => {
+      const id = key(item);
+      let entry = fused.get(id);
+      if (!entry) {
+        entry = { item, score: 0, ranks: lists.map(() => null) };
+        fused.set(id, entry);
+      }
+      if (entry.ranks[listIndex] !== null) return;
+      entry.ranks[listIndex] = i + 1;
+      entry.score += weight / (k + i + 1);
+    });
+  });
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+/** pg_trgm's default `similarity_threshold`. */
+const SIMILARITY_THRESHOLD = 0.3;
+/** pg_trgm's default `word_similarity_threshold`. */
+const WORD_SIMILARITY_THRESHOLD = 0.6;
+
+function words(text: string) {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/** Trigrams of each word, padded like pg_trgm: "cat" → "  c", " ca", "cat", "at ". */
+export function trigrams(text: string) {
+  const result = new Set<string>();
+  for (const word of words(text)) {
+    const padded = `  ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      result.add(padded.slice(i, i + 3));
+    }
+  }
+  return result;
+}
+
+/**
+ * In-process stand-in for the keyword half of a Postgres hybrid search: a
+ * match on trigram similarity, on the share of `search`'s trigrams found in
+ * `text` (close to pg_trgm's `word_similarity`), or on every word of
+ * `search` appearing in `text`. Returns the match score, or `null`.
+ */
+export function keywordScore(search: string, text: string) {
+  const a = trigrams(search);
+  const b = trigrams(text);
+  if (a.size === 0 || b.size === 0) return null;
+
+  let shared = 0;
+  for (const t of a) if (b.has(t)) shared++;
+  const similarity = shared / (a.size + b.size - shared);
+  const wordSimilarity = shared / a.size;
+
+  const textWords = new Set(words(text));
+  const allWords = words(search).every((w) => textWords.has(w));
+  if (
+    similarity < SIMILARITY_THRESHOLD &&
+    wordSimilarity < WORD_SIMILARITY_THRESHOLD &&
+    !allWords
+  ) {
+    return null;
+  }
+  return Math.max(similarity, wordSimilarity);
+}
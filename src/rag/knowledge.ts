@@ -0,0 +1,138 @@
+import { getConfig } from "../config-parser";
+import { Logger } from "../logger";
+import {
+  chunkDocument,
+  chunkEmbeddingText,
+  htmlToText,
+  readTextCapped,
+  type KnowledgeExcerpt,
+} from "./documents";
+import { embedTexts } from "./embedding";
+import { getRagStore } from "./store";
+import type { RagContent, RagContentCreate } from "./type";
+
+const DEFAULT_MAX_RESULTS = 4;
+const DEFAULT_MIN_SIMILARITY = 0.35;
+const DEFAULT_CHUNK_SIZE = 1500;
+const DEFAULT_MAX_DOCUMENT_CHARS = 200_000;
+const FETCH_TIMEOUT_MS = 15_000;
+// UTF-8 takes up to 4 bytes per character; HTML markup counts against it too
+const MAX_BYTES_PER_CHAR = 4;
+
+const TEXT_TYPES =
+  /^(text\/|application\/(json|xml|x-yaml|yaml|toml|javascript|x-sh)\b)/;
+
+export type KnowledgeDocument = Pick<
+  RagContent,
+  "id" | "title" | "source" | "added_by" | "created_at"
+> & { chunk_count: number };
+
+async function getKnowledgeConfig() {
+  const config = await getConfig();
+  const knowledge = config.rag?.knowledge;
+  return {
+    logger: new Logger({ module: "rag", logLevel: config.log_level }),
+    maxResults: knowledge?.max_results ?? DEFAULT_MAX_RESULTS,
+    minSimilarity: knowledge?.min_similarity ?? DEFAULT_MIN_SIMILARITY,
+    chunkSize: knowledge?.chunk_size ?? DEFAULT_CHUNK_SIZE,
+    maxDocumentChars:
+      knowledge?.max_document_chars ?? DEFAULT_MAX_DOCUMENT_CHARS,
+  };
+}
+
+/**
+ * Download a text document. HTML pages are reduced to their text and keep
+ * their `<title>`; other non-text types are rejected, and so are downloads
+ * too large to fit `max_document_chars`.
+ */
+export async function fetchDocument(url: string) {
+  const { maxDocumentChars } = await getKnowledgeConfig();
+  const res = await fetch(url, {
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!res.ok) throw new Error(`Download failed: HTTP ${res.status}`);
+
+  const contentType = res.headers.get("content-type")?.split(";")[0] ?? "";
+  if (contentType && !TEXT_TYPES.test(contentType)) {
+    await res.body?.cancel();
+    throw new Error(`Unsupported content type: ${contentType}`);
+  }
+  const body = await readTextCapped(res, maxDocumentChars * MAX_BYTES_PER_CHAR);
+  if (contentType === "text/html") {
+    const { title, text } = htmlToText(body);
+    return { title, content: text };
+  }
+  return { title: null, content: body };
+}
+
+/** Chunk, embed and store a document for a guild. */
+export async function addDocument(document: RagContentCreate) {
+  const { logger, chunkSize, maxDocumentChars } = await getKnowledgeConfig();
+  if (document.full_content.length > maxDocumentChars) {
+    throw new Error(
+      `Document is too long (${document.full_content.length} characters, limit ${maxDocumentChars})`,
+    );
+  }
+
+  const chunks = chunkDocument(document.full_content, chunkSize);
+  if (chunks.length === 0) throw new Error("Document is empty");
+
+  const embeddings = await embedTexts(
+    chunks.map((c) => chunkEmbeddingText(document.title, c.heading, c.content)),
+  );
+
+  const store = await getRagStore();
+  const id = await store.addDocument(
+    document,
+    chunks.map((c) => ({
+      chunk_index: c.index,
+      heading: c.heading,
+      content: c.content,
+      embedding: embeddings[c.index]!,
+    })),
+  );
+
+  logger.logInfo(
+    `[RAG] added document [${document.title}] with ${chunks.length} chunks for guild: ${document.guild_id}`,
+  );
+  return { id, chunks: chunks.length };
+}
+
+export async function listDocuments(guildId: string) {
+  const store = await getRagStore();
+  return store.listDocuments(guildId);
+}
+
+export async function removeDocument(guildId: string, id: string) {
+  const store = await getRagStore();
+  return store.removeDocument(guildId, id);
+}
+
+/**
+ * Chunks of the guild's documents most similar to the search, whose
+ * embedding `embed` is only asked for when the guild has documents.
+ */
+export async function findRelevantKnowledge(
+  guildId: string,
+  embed: () => Promise<number[] | null>,
+): Promise<KnowledgeExcerpt[]> {
+  const { logger, maxResults, minSimilarity } = await getKnowledgeConfig();
+  if (maxResults === 0) return [];
+
+  const store = await getRagStore();
+  if (!(await store.hasKnowledge(guildId))) return [];
+
+  const embedding = await embed();
+  if (!embedding) return [];
+  const results = await store.searchKnowledge({
+    guildId,
+    embedding,
+    minSimilarity,
+    limit: maxResults,
+  });
+
+  logger.logDebug(
+    `[RAG] knowledge search returned ${results.length} results for guild: ${guildId}`,
+  );
+  return results;
+}
@@ -0,0 +1,351 @@
+import type { SQL } from "bun";
+import { chunkEmbeddingText, type KnowledgeExcerpt } from "./documents";
+import type { KnowledgeDocument } from "./knowledge";
+import {
+  REEMBED_COLUMNS,
+  type RagMeta,
+  type ReembedTable,
+  type ReembedTarget,
+} from "./reembed";
+import type {
+  KnowledgeChunkCreate,
+  KnowledgeSearch,
+  MemorySearch,
+  RagStore,
+} from "./store";
+import type {
+  RagContentCreate,
+  RagEmbedding,
+  RagEmbeddingCreate,
+} from "./type";
+
+const toVector = (embedding: number[]) => `[${embedding.join(",")}]`;
+
+/** pgvector storage; the schema is created by `pg()`. */
+export class PostgresRagStore implements RagStore, ReembedTarget {
+  constructor(private sql: SQL) {}
+
+  async searchMemories({
+    userId,
+    embedding,
+    type,
+    simThreshold,
+    limit,
+  }: MemorySearch & { simThreshold: number }) {
+    const vecLiteral = toVector(embedding);
+    return this.sql<RagEmbedding[]>`
+      WITH ranked AS (
+        SELECT
+          e.*,
+          e.embedding <=> ${vecLiteral}::vector AS dist
+        FROM embeddings e
+        WHERE e.user_id = ${userId}
+          AND (${type ?? null}::text IS NULL OR e.type = ${type ?? null})
+          AND e.embedding <=> ${vecLiteral}::vector <= (1 - ${simThreshold})
+      )
+      SELECT
+        r.*,
+        1 - r.dist AS cos_sim
+      FROM ranked r
+      ORDER BY r.dist
+      LIMIT ${limit};
+    `;
+  }
+
+  async searchMemoryKeywords({
+    userId,
+    embedding,
+    type,
+    text,
+    limit,
+  }: MemorySearch & { text: string }) {
+    const vecLiteral = toVector(embedding);
+    return this.sql<RagEmbedding[]>`
+      SELECT
+        e.*,
+        1 - (e.embedding <=> ${vecLiteral}::vector) AS cos_sim,
+        GREATEST(
+          similarity(e.summary, ${text}),
+          word_similarity(${text}, e.summary)
+        ) AS keyword_score
+      FROM embeddings e
+      WHERE e.user_id = ${userId}
+        AND (${type ?? null}::text IS NULL OR e.type = ${type ?? null})
+        AND (
+          e.summary % ${text}
+          OR ${text} <% e.summary
+          OR to_tsvector('simple', e.summary) @@ plainto_tsquery('simple', ${text})
+        )
+      ORDER BY keyword_score DESC
+      LIMIT ${limit};
+    `;
+  }
+
+  async insertMemories(entries: RagEmbeddingCreate[]) {
+    await this.sql.begin(async (tx) => {
+      for (const e of entries) {
+        await tx`
+          INSERT INTO embeddings (
+            user_id,
+            summary,
+            memo,
+            type,
+            relevance,
+            embedding
+          ) VALUES (
+            ${e.user_id},
+            ${e.summary},
+            ${e.memo},
+            ${e.type},
+            ${e.relevance},
+            ${toVector(e.embedding)}::vector
+          )
+        `;
+      }
+    });
+  }
+
+  async removeMemories(userId: string, ids: string[]) {
+    await this
+      .sql`DELETE FROM embeddings WHERE id in ${this.sql(ids)} and user_id = ${userId}`;
+  }
+
+  async listMemoryCandidates(
+    userId: string,
+    embedding: number[] | null,
+    limit: number,
+  ) {
+    return embedding
+      ? this.sql<RagEmbedding[]>`
+          SELECT
+            id, user_id, summary, memo, type, relevance, created_at,
+            1 - (embedding <=> ${toVector(embedding)}::vector) AS cos_sim
+          FROM embeddings
+          WHERE user_id = ${userId}
+          ORDER BY relevance = 1 DESC, cos_sim DESC
+          LIMIT ${limit};
+        `
+      : this.sql<RagEmbedding[]>`
+          SELECT id, user_id, summary, memo, type, relevance, created_at
+          FROM embeddings
+          WHERE user_id = ${userId}
+          ORDER BY relevance = 1 DESC, created_at DESC
+          LIMIT ${limit};
+        `;
+  }
+
+  async addDocument(
+    document: RagContentCreate,
+    chunks: KnowledgeChunkCreate[],
+  ) {
+    return this.sql.begin(async (tx) => {
+      const [row] = await tx<Array<{ id: string }>>`
+        INSERT INTO rag_contents (guild_id, title, source, full_content, added_by)
+        VALUES (
+          ${document.guild_id},
+          ${document.title},
+          ${document.source},
+          ${document.full_content},
+          ${document.added_by}
+        )
+        RETURNING id
+      `;
+      for (const chunk of chunks) {
+        await tx`
+          INSERT INTO rag_content_chunks (
+            content_id,
+            guild_id,
+            chunk_index,
+            heading,
+            content,
+            embedding
+          ) VALUES (
+            ${row!.id},
+            ${document.guild_id},
+            ${chunk.chunk_index},
+            ${chunk.heading},
+            ${chunk.content},
+            ${toVector(chunk.embedding)}::vector
+          )
+        `;
+      }
+      return row!.id;
+    });
+  }
+
+  async listDocuments(guildId: string) {
+    return this.sql<KnowledgeDocument[]>`
+      SELECT
+        c.id,
+        c.title,
+        c.source,
+        c.added_by,
+        c.created_at,
+        (SELECT COUNT(*)::int FROM rag_content_chunks k WHERE k.content_id = c.id) AS chunk_count
+      FROM rag_contents c
+      WHERE c.guild_id = ${guildId}
+      ORDER BY c.created_at DESC
+    `;
+  }
+
+  async removeDocument(guildId: string, id: string) {
+    const rows = await this.sql<Array<{ title: string }>>`
+      DELETE FROM rag_contents
+      WHERE id = ${id} AND guild_id = ${guildId}
+      RETURNING title
+    `;
+    return rows[0]?.title ?? null;
+  }
+
+  async hasKnowledge(guildId: string) {
+    const rows = await this.sql`
+      SELECT 1 FROM rag_content_chunks WHERE guild_id = ${guildId} LIMIT 1
+    `;
+    return rows.length > 0;
+  }
+
+  async searchKnowledge({
+    guildId,
+    embedding,
+    minSimilarity,
+    limit,
+  }: KnowledgeSearch) {
+    const vecLiteral = toVector(embedding);
+    return this.sql<KnowledgeExcerpt[]>`
+      SELECT c.title, c.source, k.heading, k.content
+      FROM rag_content_chunks k
+      JOIN rag_contents c ON c.id = k.content_id
+      WHERE k.guild_id = ${guildId}
+        AND k.embedding <=> ${vecLiteral}::vector <= (1 - ${minSimilarity})
+      ORDER BY k.embedding <=> ${vecLiteral}::vector
+      LIMIT ${limit}
+    `;
+  }
+
+  async readMeta() {
+    const [table] = await this.sql`
+      SELECT to_regclass('public.rag_meta') IS NOT NULL AS present
+    `;
+    if (!table?.present) return null;
+    const [meta] = await this.sql<RagMeta[]>`
+      SELECT embedding_model, embedding_dimensions FROM rag_meta WHERE id = 1
+    `;
+    return meta ?? null;
+  }
+
+  async countRows(table: ReembedTable) {
+    const [row] = await this.sql.unsafe(
+      `SELECT COUNT(*)::int AS count FROM ${table}`,
+    );
+    return (row as { count: number }).count;
+  }
+
+  async createShadowTable(table: ReembedTable, dimensions: number) {
+    const shadow = `${table}_reembed`;
+    // Indexes other than the primary key are created by `pg()` after the
+    // swap, under their usual names.
+    await this.sql.unsafe(`DROP TABLE IF EXISTS ${shadow}`);
+    await this.sql.unsafe(`
+      CREATE TABLE ${shadow} (LIKE ${table} INCLUDING DEFAULTS INCLUDING CONSTRAINTS)
+    `);
+    await this.sql.unsafe(`
+      ALTER TABLE ${shadow} ALTER COLUMN embedding TYPE VECTOR(${dimensions})
+    `);
+    await this.sql.unsafe(`ALTER TABLE ${shadow} ADD PRIMARY KEY (id)`);
+    if (table === "rag_content_chunks") {
+      await this.sql.unsafe(`
+        ALTER TABLE ${shadow}
+        ADD CONSTRAINT rag_content_chunks_content_id_fkey
+        FOREIGN KEY (content_id) REFERENCES rag_contents (id) ON DELETE CASCADE
+      `);
+    }
+  }
+
+  async readRows(table: ReembedTable, afterId: string | null, limit: number) {
+    if (table === "embeddings") {
+      return this.sql<Array<{ id: string; text: string }>>`
+        SELECT id, COALESCE(summary, '') AS text FROM embeddings
+        WHERE ${afterId}::uuid IS NULL OR id > ${afterId}::uuid
+        ORDER BY id
+        LIMIT ${limit}
+      `;
+    }
+    const rows = await this.sql<
+      Array<{
+        id: string;
+        title: string;
+        heading: string | null;
+        content: string;
+      }>
+    >`
+      SELECT k.id, c.title, k.heading, k.content
+      FROM rag_content_chunks k
+      JOIN rag_contents c ON c.id = k.content_id
+      WHERE ${afterId}::uuid IS NULL OR k.id > ${afterId}::uuid
+      ORDER BY k.id
+      LIMIT ${limit}
+    `;
+    return rows.map((r) => ({
+      id: r.id,
+      text: chunkEmbeddingText(r.title, r.heading, r.content),
+    }));
+  }
+
+  async writeRows(
+    table: ReembedTable,
+    rows: Array<{ id: string; embedding: number[] }>,
+  ) {
+    const columns = REEMBED_COLUMNS[table];
+    const values = columns.map((c) => (c === "embedding" ? "$1::vector" : c));
+    const query = `
+      INSERT INTO ${table}_reembed (${columns.join(", ")})
+      SELECT ${values.join(", ")} FROM ${table} WHERE id = $2
+    `;
+    await this.sql.begin(async (tx) => {
+      for (const row of rows) {
+        await tx.unsafe(query, [toVector(row.embedding), row.id]);
+      }
+    });
+  }
+
+  async swapShadowTables(tables: ReembedTable[], meta: RagMeta) {
+    await this.sql.begin(async (tx) => {
+      for (const table of tables) {
+        const shadow = `${table}_reembed`;
+        await tx.unsafe(`LOCK TABLE ${table} IN EXCLUSIVE MODE`);
+        const [row] = await tx.unsafe(`
+          SELECT COUNT(*)::int AS missing FROM ${table} t
+          WHERE NOT EXISTS (SELECT 1 FROM ${shadow} s WHERE s.id = t.id)
+        `);
+        const { missing } = row as { missing: number };
+        if (missing > 0) {
+          throw new Error(
+            `[RAG] ${missing} rows were added to ${table} during the migration. Stop the bot and run it again.`,
+          );
+        }
+        await tx.unsafe(`
+          DELETE FROM ${shadow} s
+          WHERE NOT EXISTS (SELECT 1 FROM ${table} t WHERE t.id = s.id)
+        `);
+        await tx.unsafe(`DROP TABLE ${table}`);
+        await tx.unsafe(`ALTER TABLE ${shadow} RENAME TO ${table}`);
+        await tx.unsafe(
+          `ALTER TABLE ${table} RENAME CONSTRAINT ${shadow}_pkey TO ${table}_pkey`,
+        );
+      }
+      await tx`
+        UPDATE rag_meta
+        SET
+          embedding_model = ${meta.embedding_model},
+          embedding_dimensions = ${meta.embedding_dimensions}
+        WHERE id = 1
+      `;
+    });
+  }
+
+  async dropShadowTables(tables: ReembedTable[]) {
+    for (const table of tables) {
+      await this.sql.unsafe(`DROP TABLE IF EXISTS ${table}_reembed`);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import type { Config } from "../type";
+import type { RagEmbedding } from "./type";
+
+export type MemoryType = RagEmbedding["type"];
+
+export type MemoryRankingOptions = {
+  /** Most memories of each type injected per user. */
+  caps: Record<MemoryType, number>;
+  /** Minimum score of each type. */
+  thresholds: Record<MemoryType, number>;
+  similarityWeight: number;
+  relevanceWeight: number;
+  recencyWeight: number;
+  /** Age at which the recency score halves. */
+  halfLifeDays: number;
+};
+
+export const DEFAULT_MEMORY_RANKING: MemoryRankingOptions = {
+  caps: { intent: 8, preference: 8, fact: 16 },
+  thresholds: { intent: 0.45, preference: 0.4, fact: 0.45 },
+  similarityWeight: 0.5,
+  relevanceWeight: 0.35,
+  recencyWeight: 0.15,
+  halfLifeDays: 30,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getMemoryRankingOptions(
+  memory: NonNullable<Config["rag"]>["memory"],
+): MemoryRankingOptions {
+  const d = DEFAULT_MEMORY_RANKING;
+  return {
+    caps: { ...d.caps, ...memory?.caps },
+    thresholds: { ...d.thresholds, ...memory?.thresholds },
+    similarityWeight: memory?.similarity_weight ?? d.similarityWeight,
+    relevanceWeight: memory?.relevance_weight ?? d.relevanceWeight,
+    recencyWeight: memory?.recency_weight ?? d.recencyWeight,
+    halfLifeDays: memory?.recency_half_life_days ?? d.halfLifeDays,
+  };
+}
+
+/** 1 for a new memory, 0.5 after `halfLifeDays`, 0.25 after twice that… */
+export function recencyDecay(ageMs: number, halfLifeDays: number) {
+  if (halfLifeDays <= 0) return 1;
+  return 0.5 ** (Math.max(0, ageMs) / (halfLifeDays * DAY_MS));
+}
+
+/**
+ * Weighted mean of similarity to the current message, stored relevance and
+ * recency. Without a message to compare to (`cos_sim` unset), similarity is
+ * left out. Memories with relevance 1 always score 1.
+ */
+export function scoreMemory(
+  memory: Pick<RagEmbedding, "relevance" | "created_at" | "cos_sim">,
+  now: number,
+  options: MemoryRankingOptions,
+) {
+  if (memory.relevance === 1) return 1;
+
+  const age = now - new Date(memory.created_at).getTime();
+  const parts: Array<[weight: number, value: number]> = [
+    [options.relevanceWeight, memory.relevance],
+    [options.recencyWeight, recencyDecay(age, options.halfLifeDays)],
+  ];
+  if (memory.cos_sim != null) {
+    parts.push([options.similarityWeight, Math.max(0, memory.cos_sim)]);
+  }
+
+  const totalWeight = parts.reduce((sum, [w]) => sum + w, 0);
+  if (totalWeight <= 0) return 0;
+  return parts.reduce((sum, [w, v]) => sum + w * v, 0) / totalWeight;
+}
+
+/** Memories above their type's threshold, best first, capped per type. */
+export function selectMemories<T extends RagEmbedding>(
+  memories: T[],
+  now: number,
+  options: MemoryRankingOptions,
+) {
+  const selected: Record<MemoryType, Array<T & { score: number }>> = {
+    intent: [],
+    fact: [],
+    preference: [],
+  };
+  for (const memory of memories) {
+    const score = scoreMemory(memory, now, options);
+    if (score < options.thresholds[memory.type]) continue;
+    selected[memory.type].push({ ...memory, score });
+  }
+  for (const type of Object.keys(selected) as MemoryType[]) {
+    selected[type] = selected[type]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.caps[type]);
+  }
+  return selected;
+}
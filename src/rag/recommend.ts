@@ -1,67 +1,32 @@
 import type { ModelMessage, SystemModelMessage } from "ai";
-import { pg } from "./db";
+import { getConfig } from "../config-parser";
+import {
+  getMemoryRankingOptions,
+  selectMemories,
+  type MemoryRankingOptions,
+} from "./ranking";
+import { getRagStore } from "./store";
 import type { RagEmbedding } from "./type";
 
-type EmbeddingType = "intent" | "fact" | "preference";
-const DEFAULT_CAPS: Record<EmbeddingType, number> = {
-  intent: 8,
-  preference: 8,
-  fact: 16,
-};
-
-const DEFAULT_THRESHOLDS: Record<EmbeddingType, number> = {
-  intent: 0.6,
-  preference: 0.55,
-  fact: 0.6,
-};
-
-// Combined score = 0.75 * relevance + 0.25 * time_score
-const RELEVANCE_WEIGHT = 0.75;
-const TIME_WEIGHT = 0.25;
-
-export async function getRecommendedMemoryForUser(userId: string) {
-  const sql = await pg();
-
-  const results = await sql<RagEmbedding[]>`
-    SELECT *
-    FROM embeddings
-    WHERE user_id = ${userId};
-  `;
-
-  if (!results?.length) return { intent: [], fact: [], preference: [] };
-
-  const times = results
-    .map((r) => new Date(r.created_at).getTime())
-    .sort((a, b) => a - b);
-  const timeBase = times.at(-1)! - times[0]!;
-
-  const scored = results.map((r) => {
-    if (r.relevance === 1) return { ...r, score: 1 };
-
-    const timeScore = new Date(r.created_at).getTime() / timeBase;
-    const score = RELEVANCE_WEIGHT * r.relevance + TIME_WEIGHT * timeScore;
-
-    return { ...r, score };
-  });
-  const selected = scored.filter((r) => {
-    if (r.relevance === 1) return true;
-    return r.score >= DEFAULT_THRESHOLDS[r.type];
-  });
-
-  const intent = selected
-    .filter((r) => r.type === "intent")
-    .sort((a, b) => b.score - a.score)
-    .slice(0, DEFAULT_CAPS.intent);
-  const preference = selected
-    .filter((r) => r.type === "preference")
-    .sort((a, b) => b.score - a.score)
-    .slice(0, DEFAULT_CAPS.preference);
-  const fact = selected
-    .filter((r) => r.type === "fact")
-    .sort((a, b) => b.score - a.score)
-    .slice(0, DEFAULT_CAPS.fact);
-
-  return { intent, fact, preference };
+/** Candidates read per user, as a multiple of the summed caps. */
+const CANDIDATE_FACTOR = 4;
+
+export async function getRecommendedMemoryForUser(
+  userId: string,
+  queryEmbedding: number[] | null,
+  options: MemoryRankingOptions,
+) {
+  const store = await getRagStore();
+  const candidates =
+    CANDIDATE_FACTOR *
+    (options.caps.intent + options.caps.fact + options.caps.preference);
+  const results = await store.listMemoryCandidates(
+    userId,
+    queryEmbedding,
+    candidates,
+  );
+
+  return selectMemories(results, Date.now(), options);
 }
 
 export function getUsersFromModelMessages(messages: ModelMessage[]) {
@@ -90,8 +55,21 @@ export function getUsersFromModelMessages(messages: ModelMessage[]) {
   return userIds;
 }
 
-export async function getRecommendedMemoryStringForUsers(userIds: string[]) {
-  const messages = await Promise.all(userIds.map(getRecommendedMemoryForUser));
+/**
+ * Memories of each user worth injecting for the current message, ranked by
+ * `queryEmbedding`, or newest first without one.
+ */
+export async function getRecommendedMemoryStringForUsers(
+  userIds: string[],
+  queryEmbedding: number[] | null,
+) {
+  const config = await getConfig();
+  const options = getMemoryRankingOptions(config.rag?.memory);
+  const messages = await Promise.all(
+    userIds.map((id) =>
+      getRecommendedMemoryForUser(id, queryEmbedding, options),
+    ),
+  );
 
   const systemMessages: SystemModelMessage[] = [];
 
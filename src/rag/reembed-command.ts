@@ -0,0 +1,70 @@
+import { SQL } from "bun";
+import { getConfig } from "../config-parser";
+import { getRagEmbeddingConfig } from "./config";
+import { embedTexts } from "./embedding";
+import { PostgresRagStore } from "./postgres-store";
+import { reembed, type ReembedTarget } from "./reembed";
+import { SqliteRagStore } from "./sqlite-store";
+import { getRagStore, SQLITE_PATH } from "./store";
+
+const DEFAULT_BATCH_SIZE = 256;
+
+/** `bun run rag:reembed [--batch-size <n>]` */
+function parseBatchSize(args: string[]) {
+  const i = args.findIndex((a) => a.startsWith("--batch-size"));
+  if (i === -1) return DEFAULT_BATCH_SIZE;
+  const value = args[i]!.includes("=") ? args[i]!.split("=")[1] : args[i + 1];
+  const size = Number(value);
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new Error(`--batch-size must be a positive integer. Got: ${value}`);
+  }
+  return size;
+}
+
+async function main() {
+  const batchSize = parseBatchSize(process.argv.slice(2));
+  const config = await getConfig();
+  if (!config.rag?.enable) throw new Error("[RAG] rag.enable not set");
+  const { dimensions, providerModel } = getRagEmbeddingConfig(config);
+
+  let target: ReembedTarget;
+  if (config.rag.backend === "sqlite") {
+    target = new SqliteRagStore(SQLITE_PATH, { dimensions, providerModel });
+  } else {
+    if (!config.rag.postgres_uri) throw new Error("postgres_uri not supplied");
+    target = new PostgresRagStore(new SQL(config.rag.postgres_uri));
+  }
+
+  const previous = await target.readMeta();
+  if (!previous) {
+    console.log("No RAG tables found, nothing to re-embed.");
+    return;
+  }
+  console.log(
+    `Re-embedding with ${providerModel} (${dimensions} dimensions), ` +
+      `replacing ${previous.embedding_model} (${previous.embedding_dimensions} dimensions).`,
+  );
+
+  const counts = await reembed(target, {
+    meta: { embedding_model: providerModel, embedding_dimensions: dimensions },
+    embed: embedTexts,
+    batchSize,
+    onProgress: ({ table, done, total }) => {
+      const percent = total ? Math.round((done / total) * 100) : 100;
+      console.log(`${table}: ${done}/${total} (${percent}%)`);
+    },
+  });
+
+  console.log("Swapped in the new vectors, rebuilding indexes…");
+  await getRagStore();
+  console.log(
+    `Done: re-embedded ${counts.embeddings} memories and ${counts.rag_content_chunks} knowledge base chunks.`,
+  );
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  });
@@ -0,0 +1,120 @@
+export type ReembedTable = "embeddings" | "rag_content_chunks";
+
+export const REEMBED_TABLES: ReembedTable[] = [
+  "embeddings",
+  "rag_content_chunks",
+];
+
+/** Columns of each table, copied unchanged into its shadow but for `embedding`. */
+export const REEMBED_COLUMNS: Record<ReembedTable, string[]> = {
+  embeddings: [
+    "id",
+    "user_id",
+    "summary",
+    "memo",
+    "type",
+    "relevance",
+    "embedding",
+    "created_at",
+  ],
+  rag_content_chunks: [
+    "id",
+    "content_id",
+    "guild_id",
+    "chunk_index",
+    "heading",
+    "content",
+    "embedding",
+  ],
+};
+
+export type RagMeta = {
+  embedding_model: string;
+  embedding_dimensions: number;
+};
+
+/** Storage side of a re-embedding run; see `reembed`. */
+export interface ReembedTarget {
+  /** `null` when the RAG tables were never created. */
+  readMeta(): Promise<RagMeta | null>;
+  countRows(table: ReembedTable): Promise<number>;
+  /**
+   * Empty copy of `table` for vectors of `dimensions`, replacing one left
+   * over by an interrupted run.
+   */
+  createShadowTable(table: ReembedTable, dimensions: number): Promise<void>;
+  /** Rows after `afterId` in id order, with the text their vector embeds. */
+  readRows(
+    table: ReembedTable,
+    afterId: string | null,
+    limit: number,
+  ): Promise<Array<{ id: string; text: string }>>;
+  /** Copy rows into the shadow table with new vectors. */
+  writeRows(
+    table: ReembedTable,
+    rows: Array<{ id: string; embedding: number[] }>,
+  ): Promise<void>;
+  /**
+   * In one transaction, replace each table with its shadow and record
+   * `meta`. Fails when rows were added after they were read.
+   */
+  swapShadowTables(tables: ReembedTable[], meta: RagMeta): Promise<void>;
+  dropShadowTables(tables: ReembedTable[]): Promise<void>;
+}
+
+export type ReembedProgress = {
+  table: ReembedTable;
+  done: number;
+  total: number;
+};
+
+/**
+ * Re-embed every memory and knowledge base chunk with `meta`'s model. New
+ * vectors go to shadow tables, so the bot keeps working on the old ones
+ * until the swap; on failure the shadows are dropped and nothing changes.
+ */
+export async function reembed(
+  target: ReembedTarget,
+  {
+    meta,
+    embed,
+    batchSize,
+    onProgress,
+  }: {
+    meta: RagMeta;
+    embed: (values: string[]) => Promise<number[][]>;
+    batchSize: number;
+    onProgress?: (progress: ReembedProgress) => void;
+  },
+) {
+  const counts = {} as Record<ReembedTable, number>;
+  try {
+    for (const table of REEMBED_TABLES) {
+      const total = await target.countRows(table);
+      await target.createShadowTable(table, meta.embedding_dimensions);
+
+      let done = 0;
+      let afterId: string | null = null;
+      onProgress?.({ table, done, total });
+      while (true) {
+        const rows = await target.readRows(table, afterId, batchSize);
+        if (rows.length === 0) break;
+
+        const embeddings = await embed(rows.map((r) => r.text));
+        await target.writeRows(
+          table,
+          rows.map((r, i) => ({ id: r.id, embedding: embeddings[i]! })),
+        );
+        done += rows.length;
+        afterId = rows[rows.length - 1]!.id;
+        onProgress?.({ table, done, total: Math.max(total, done) });
+      }
+      counts[table] = done;
+    }
+    await target.swapShadowTables(REEMBED_TABLES, meta);
+  } catch (e) {
+    await target.dropShadowTables(REEMBED_TABLES);
+    throw e;
+  }
+  return counts;
+}
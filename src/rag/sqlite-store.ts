@@ -0,0 +1,450 @@
+import { Database } from "bun:sqlite";
+import { chunkEmbeddingText, type KnowledgeExcerpt } from "./documents";
+import { keywordScore } from "./hybrid";
+import {
+  REEMBED_COLUMNS,
+  type RagMeta,
+  type ReembedTable,
+  type ReembedTarget,
+} from "./reembed";
+import type { KnowledgeDocument } from "./knowledge";
+import type {
+  KnowledgeChunkCreate,
+  KnowledgeSearch,
+  MemorySearch,
+  RagStore,
+} from "./store";
+import type {
+  RagContentCreate,
+  RagEmbedding,
+  RagEmbeddingCreate,
+} from "./type";
+
+type MemoryRow = Omit<RagEmbedding, "embedding"> & { embedding: Uint8Array };
+
+type ChunkRow = KnowledgeExcerpt & { embedding: Uint8Array };
+
+const toBlob = (embedding: number[]) => new Float32Array(embedding);
+
+const fromBlob = (blob: Uint8Array) =>
+  new Float32Array(blob.buffer, blob.byteOffset, blob.byteLength / 4);
+
+function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+}
+
+function createMemoryTable(db: Database, name: string) {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS ${name} (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL,
+      summary TEXT,
+      memo TEXT,
+      type TEXT NOT NULL CHECK (type IN ('intent', 'fact', 'preference')),
+      relevance REAL NOT NULL CHECK (relevance >= 0 AND relevance <= 1),
+      embedding BLOB NOT NULL,
+      created_at TEXT NOT NULL
+    )
+  `);
+}
+
+function createChunkTable(db: Database, name: string) {
+  db.run(`
+    CREATE TABLE IF NOT EXISTS ${name} (
+      id TEXT PRIMARY KEY,
+      content_id TEXT NOT NULL REFERENCES rag_contents (id) ON DELETE CASCADE,
+      guild_id TEXT NOT NULL,
+      chunk_index INTEGER NOT NULL,
+      heading TEXT,
+      content TEXT NOT NULL,
+      embedding BLOB NOT NULL
+    )
+  `);
+}
+
+/**
+ * Embedded storage for deployments without Postgres. Vectors are kept as
+ * float32 blobs and compared by brute force, which is fast enough for the
+ * few hundred memories of a user or the chunks of a guild's documents.
+ */
+export class SqliteRagStore implements RagStore, ReembedTarget {
+  private db: Database;
+  /** Model and dimensions the stored vectors were embedded with. */
+  meta: RagMeta;
+
+  constructor(
+    filename: string,
+    {
+      dimensions,
+      providerModel,
+    }: { dimensions: number; providerModel: string },
+  ) {
+    this.db = new Database(filename);
+    this.db.run("PRAGMA foreign_keys = ON");
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS rag_meta (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        embedding_model TEXT NOT NULL,
+        embedding_dimensions INTEGER NOT NULL,
+        created_at TEXT NOT NULL
+      )
+    `);
+    createMemoryTable(this.db, "embeddings");
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS rag_contents (
+        id TEXT PRIMARY KEY,
+        guild_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        source TEXT NOT NULL,
+        full_content TEXT NOT NULL,
+        added_by TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      )
+    `);
+    createChunkTable(this.db, "rag_content_chunks");
+    this.createIndexes();
+
+    this.db.run(
+      `INSERT OR IGNORE INTO rag_meta (id, embedding_model, embedding_dimensions, created_at)
+       VALUES (1, ?, ?, ?)`,
+      [providerModel, dimensions, new Date().toISOString()],
+    );
+    this.meta = this.readMetaRow();
+  }
+
+  close() {
+    this.db.close();
+  }
+
+  private createIndexes() {
+    this.db.run(
+      "CREATE INDEX IF NOT EXISTS embeddings_user_id_idx ON embeddings (user_id)",
+    );
+    this.db.run(
+      "CREATE INDEX IF NOT EXISTS rag_contents_guild_id_idx ON rag_contents (guild_id)",
+    );
+    this.db.run(
+      "CREATE INDEX IF NOT EXISTS rag_content_chunks_guild_id_idx ON rag_content_chunks (guild_id)",
+    );
+  }
+
+  private readMetaRow() {
+    return this.db
+      .query(
+        "SELECT embedding_model, embedding_dimensions FROM rag_meta WHERE id = 1",
+      )
+      .get() as RagMeta;
+  }
+
+  private userMemories(userId: string, type?: RagEmbedding["type"]) {
+    const rows = type
+      ? this.db
+          .query("SELECT * FROM embeddings WHERE user_id = ? AND type = ?")
+          .all(userId, type)
+      : this.db.query("SELECT * FROM embeddings WHERE user_id = ?").all(userId);
+    return rows as MemoryRow[];
+  }
+
+  private withSimilarity(row: MemoryRow, embedding: number[]): RagEmbedding {
+    const vector = fromBlob(row.embedding);
+    return {
+      ...row,
+      embedding: Array.from(vector),
+      cos_sim: cosineSimilarity(vector, embedding),
+    };
+  }
+
+  async searchMemories({
+    userId,
+    embedding,
+    type,
+    simThreshold,
+    limit,
+  }: MemorySearch & { simThreshold: number }) {
+    return this.userMemories(userId, type)
+      .map((row) => this.withSimilarity(row, embedding))
+      .filter((m) => m.cos_sim! >= simThreshold)
+      .sort((a, b) => b.cos_sim! - a.cos_sim!)
+      .slice(0, limit);
+  }
+
+  async searchMemoryKeywords({
+    userId,
+    embedding,
+    type,
+    text,
+    limit,
+  }: MemorySearch & { text: string }) {
+    const results: RagEmbedding[] = [];
+    for (const row of this.userMemories(userId, type)) {
+      const score = keywordScore(text, row.summary ?? "");
+      if (score === null) continue;
+      results.push({
+        ...this.withSimilarity(row, embedding),
+        keyword_score: score,
+      });
+    }
+    return results
+      .sort((a, b) => b.keyword_score! - a.keyword_score!)
+      .slice(0, limit);
+  }
+
+  async insertMemories(entries: RagEmbeddingCreate[]) {
+    const insert = this.db.prepare(
+      `INSERT INTO embeddings (id, user_id, summary, memo, type, relevance, embedding, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    );
+    this.db.transaction(() => {
+      for (const e of entries) {
+        insert.run(
+          crypto.randomUUID(),
+          e.user_id,
+          e.summary,
+          e.memo,
+          e.type,
+          e.relevance,
+          toBlob(e.embedding),
+          new Date().toISOString(),
+        );
+      }
+    })();
+  }
+
+  async removeMemories(userId: string, ids: string[]) {
+    if (ids.length === 0) return;
+    this.db.run(
+      `DELETE FROM embeddings WHERE user_id = ? AND id IN (${ids.map(() => "?").join(", ")})`,
+      [userId, ...ids],
+    );
+  }
+
+  async listMemoryCandidates(
+    userId: string,
+    embedding: number[] | null,
+    limit: number,
+  ) {
+    const pinnedFirst = (a: RagEmbedding, b: RagEmbedding) =>
+      Number(b.relevance === 1) - Number(a.relevance === 1);
+    const rows = this.userMemories(userId);
+    if (!embedding) {
+      return rows
+        .map(({ embedding: _, ...row }) => row as RagEmbedding)
+        .sort(
+          (a, b) =>
+            pinnedFirst(a, b) || b.created_at.localeCompare(a.created_at),
+        )
+        .slice(0, limit);
+    }
+    return rows
+      .map((row) => this.withSimilarity(row, embedding))
+      .sort((a, b) => pinnedFirst(a, b) || b.cos_sim! - a.cos_sim!)
+      .slice(0, limit);
+  }
+
+  async addDocument(
+    document: RagContentCreate,
+    chunks: KnowledgeChunkCreate[],
+  ) {
+    const id = crypto.randomUUID();
+    const insertChunk = this.db.prepare(
+      `INSERT INTO rag_content_chunks (id, content_id, guild_id, chunk_index, heading, content, embedding)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    );
+    this.db.transaction(() => {
+      this.db.run(
+        `INSERT INTO rag_contents (id, guild_id, title, source, full_content, added_by, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          document.guild_id,
+          document.title,
+          document.source,
+          document.full_content,
+          document.added_by,
+          new Date().toISOString(),
+        ],
+      );
+      for (const chunk of chunks) {
+        insertChunk.run(
+          crypto.randomUUID(),
+          id,
+          document.guild_id,
+          chunk.chunk_index,
+          chunk.heading,
+          chunk.content,
+          toBlob(chunk.embedding),
+        );
+      }
+    })();
+    return id;
+  }
+
+  async listDocuments(guildId: string) {
+    return this.db
+      .query(
+        `SELECT
+           c.id,
+           c.title,
+           c.source,
+           c.added_by,
+           c.created_at,
+           (SELECT COUNT(*) FROM rag_content_chunks k WHERE k.content_id = c.id) AS chunk_count
+         FROM rag_contents c
+         WHERE c.guild_id = ?
+         ORDER BY c.created_at DESC`,
+      )
+      .all(guildId) as KnowledgeDocument[];
+  }
+
+  async removeDocument(guildId: string, id: string) {
+    const row = this.db
+      .query(
+        "DELETE FROM rag_contents WHERE id = ? AND guild_id = ? RETURNING title",
+      )
+      .get(id, guildId) as { title: string } | null;
+    return row?.title ?? null;
+  }
+
+  async hasKnowledge(guildId: string) {
+    return (
+      this.db
+        .query("SELECT 1 FROM rag_content_chunks WHERE guild_id = ? LIMIT 1")
+        .get(guildId) !== null
+    );
+  }
+
+  async searchKnowledge({
+    guildId,
+    embedding,
+    minSimilarity,
+    limit,
+  }: KnowledgeSearch) {
+    const rows = this.db
+      .query(
+        `SELECT c.title, c.source, k.heading, k.content, k.embedding
+         FROM rag_content_chunks k
+         JOIN rag_contents c ON c.id = k.content_id
+         WHERE k.guild_id = ?`,
+      )
+      .all(guildId) as ChunkRow[];
+    return rows
+      .map(({ embedding: vector, ...excerpt }) => ({
+        excerpt,
+        similarity: cosineSimilarity(fromBlob(vector), embedding),
+      }))
+      .filter((r) => r.similarity >= minSimilarity)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit)
+      .map((r) => r.excerpt);
+  }
+
+  async readMeta() {
+    return this.readMetaRow();
+  }
+
+  async countRows(table: ReembedTable) {
+    const row = this.db
+      .query(`SELECT COUNT(*) AS count FROM ${table}`)
+      .get() as {
+      count: number;
+    };
+    return row.count;
+  }
+
+  async createShadowTable(table: ReembedTable) {
+    const shadow = `${table}_reembed`;
+    this.db.run(`DROP TABLE IF EXISTS ${shadow}`);
+    if (table === "embeddings") createMemoryTable(this.db, shadow);
+    else createChunkTable(this.db, shadow);
+  }
+
+  async readRows(table: ReembedTable, afterId: string | null, limit: number) {
+    if (table === "embeddings") {
+      return this.db
+        .query(
+          `SELECT id, COALESCE(summary, '') AS text FROM embeddings
+           WHERE ?1 IS NULL OR id > ?1
+           ORDER BY id LIMIT ?2`,
+        )
+        .all(afterId, limit) as Array<{ id: string; text: string }>;
+    }
+    const rows = this.db
+      .query(
+        `SELECT k.id, c.title, k.heading, k.content
+         FROM rag_content_chunks k
+         JOIN rag_contents c ON c.id = k.content_id
+         WHERE ?1 IS NULL OR k.id > ?1
+         ORDER BY k.id LIMIT ?2`,
+      )
+      .all(afterId, limit) as Array<{
+      id: string;
+      title: string;
+      heading: string | null;
+      content: string;
+    }>;
+    return rows.map((r) => ({
+      id: r.id,
+      text: chunkEmbeddingText(r.title, r.heading, r.content),
+    }));
+  }
+
+  async writeRows(
+    table: ReembedTable,
+    rows: Array<{ id: string; embedding: number[] }>,
+  ) {
+    const columns = REEMBED_COLUMNS[table];
+    const values = columns.map((c) => (c === "embedding" ? "?" : c));
+    const insert = this.db.prepare(
+      `INSERT INTO ${table}_reembed (${columns.join(", ")})
+       SELECT ${values.join(", ")} FROM ${table} WHERE id = ?`,
+    );
+    this.db.transaction(() => {
+      for (const row of rows) insert.run(toBlob(row.embedding), row.id);
+    })();
+  }
+
+  async swapShadowTables(tables: ReembedTable[], meta: RagMeta) {
+    this.db.transaction(() => {
+      for (const table of tables) {
+        const shadow = `${table}_reembed`;
+        const { missing } = this.db
+          .query(
+            `SELECT COUNT(*) AS missing FROM ${table} t
+             WHERE NOT EXISTS (SELECT 1 FROM ${shadow} s WHERE s.id = t.id)`,
+          )
+          .get() as { missing: number };
+        if (missing > 0) {
+          throw new Error(
+            `[RAG] ${missing} rows were added to ${table} during the migration. Stop the bot and run it again.`,
+          );
+        }
+        this.db.run(
+          `DELETE FROM ${shadow} WHERE id NOT IN (SELECT id FROM ${table})`,
+        );
+        this.db.run(`DROP TABLE ${table}`);
+        this.db.run(`ALTER TABLE ${shadow} RENAME TO ${table}`);
+      }
+      this.createIndexes();
+      this.db.run(
+        "UPDATE rag_meta SET embedding_model = ?, embedding_dimensions = ? WHERE id = 1",
+        [meta.embedding_model, meta.embedding_dimensions],
+      );
+    })();
+    this.meta = this.readMetaRow();
+  }
+
+  async dropShadowTables(tables: ReembedTable[]) {
+    for (const table of tables) {
+      this.db.run(`DROP TABLE IF EXISTS ${table}_reembed`);
+    }
+  }
+}
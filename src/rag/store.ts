@@ -0,0 +1,110 @@
+import path from "node:path";
+import { getConfig } from "../config-parser";
+import { Logger } from "../logger";
+import { getRagEmbeddingConfig } from "./config";
+import { pg } from "./db";
+import type { KnowledgeExcerpt } from "./documents";
+import type { KnowledgeDocument } from "./knowledge";
+import { PostgresRagStore } from "./postgres-store";
+import { SqliteRagStore } from "./sqlite-store";
+import type {
+  RagContentChunk,
+  RagContentCreate,
+  RagEmbedding,
+  RagEmbeddingCreate,
+} from "./type";
+
+export type RagBackend = "postgres" | "sqlite";
+
+export type MemorySearch = {
+  userId: string;
+  embedding: number[];
+  type?: RagEmbedding["type"];
+  limit: number;
+};
+
+export type KnowledgeChunkCreate = Pick<
+  RagContentChunk,
+  "chunk_index" | "heading" | "content" | "embedding"
+>;
+
+export type KnowledgeSearch = {
+  guildId: string;
+  embedding: number[];
+  minSimilarity: number;
+  limit: number;
+};
+
+/**
+ * Where memories and knowledge base documents live. Callers embed text
+ * themselves; stores only keep vectors and search them.
+ */
+export interface RagStore {
+  /** Memories of a user closest to `embedding`, with `cos_sim`. */
+  searchMemories(
+    search: MemorySearch & { simThreshold: number },
+  ): Promise<RagEmbedding[]>;
+  /** Memories of a user whose summary matches `text`, with `keyword_score`. */
+  searchMemoryKeywords(
+    search: MemorySearch & { text: string },
+  ): Promise<RagEmbedding[]>;
+  insertMemories(entries: RagEmbeddingCreate[]): Promise<void>;
+  removeMemories(userId: string, ids: string[]): Promise<void>;
+  /**
+   * Memories of a user for ranking: pinned ones (relevance 1) first, then
+   * the closest to `embedding`, or the newest without one.
+   */
+  listMemoryCandidates(
+    userId: string,
+    embedding: number[] | null,
+    limit: number,
+  ): Promise<RagEmbedding[]>;
+
+  addDocument(
+    document: RagContentCreate,
+    chunks: KnowledgeChunkCreate[],
+  ): Promise<string>;
+  listDocuments(guildId: string): Promise<KnowledgeDocument[]>;
+  /** Title of the removed document, or `null` if the guild has no such document. */
+  removeDocument(guildId: string, id: string): Promise<string | null>;
+  hasKnowledge(guildId: string): Promise<boolean>;
+  searchKnowledge(search: KnowledgeSearch): Promise<KnowledgeExcerpt[]>;
+}
+
+export const SQLITE_PATH = path.join(import.meta.dirname, "../../data/rag.db");
+
+let store: RagStore | null = null;
+
+/** The store selected by `rag.backend`, opened on first use. */
+export async function getRagStore() {
+  if (store) return store;
+
+  const config = await getConfig();
+  if (config.rag?.backend !== "sqlite") {
+    store = new PostgresRagStore(await pg());
+    return store;
+  }
+
+  if (!config.rag.enable) throw new Error("[RAG] rag.enable not set");
+  const { dimensions, providerModel } = getRagEmbeddingConfig(config);
+  const sqlite = new SqliteRagStore(SQLITE_PATH, {
+    dimensions,
+    providerModel,
+  });
+  if (sqlite.meta.embedding_dimensions !== dimensions) {
+    sqlite.close();
+    throw new Error(
+      `[RAG] rag_meta.embedding_dimensions mismatch. Expected ${dimensions}, got ${sqlite.meta.embedding_dimensions}. ` +
+        "Run `bun run rag:reembed` to re-embed the stored memories and documents.",
+    );
+  }
+  if (sqlite.meta.embedding_model !== providerModel) {
+    const logger = new Logger({ module: "rag", logLevel: config.log_level });
+    logger.logWarn(
+      `[RAG] embedding_model changed from ${sqlite.meta.embedding_model} to ${providerModel}. ` +
+        "This is allowed if dimensions match; run `bun run rag:reembed` to re-embed existing memories.",
+    );
+  }
+  store = sqlite;
+  return store;
+}
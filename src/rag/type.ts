@@ -1,10 +1,27 @@
 export type RagContent = {
   id: string;
+  guild_id: string;
+  title: string;
+  /** URL or file name the document was added from. */
+  source: string;
   full_content: string;
+  added_by: string;
   created_at: string;
 };
 export type RagContentCreate = Omit<RagContent, "id" | "created_at">;
 
+export type RagContentChunk = {
+  id: string;
+  content_id: string;
+  guild_id: string;
+  chunk_index: number;
+  heading: string | null;
+  content: string;
+  embedding: number[];
+
+  cos_sim?: number;
+};
+
 export type RagEmbedding = {
   id: string;
   user_id: string;
@@ -16,5 +33,9 @@ export type RagEmbedding = {
   created_at: string;
 
   cos_sim?: number;
+  /** Trigram similarity of `summary` to a hybrid search. */
+  keyword_score?: number;
+  /** Reciprocal rank fusion score of a hybrid search. */
+  score?: number;
 };
 export type RagEmbeddingCreate = Omit<RagEmbedding, "id" | "created_at">;
@@ -64,7 +64,24 @@ export function maybeYieldBoundarySeparator(
     : "";
 }
 
-function addUsage(
+export function emptyUsage(): LanguageModelUsage {
+  return {
+    inputTokens: undefined,
+    outputTokens: undefined,
+    totalTokens: undefined,
+    inputTokenDetails: {
+      noCacheTokens: undefined,
+      cacheReadTokens: undefined,
+      cacheWriteTokens: undefined,
+    },
+    outputTokenDetails: {
+      textTokens: undefined,
+      reasoningTokens: undefined,
+    },
+  };
+}
+
+export function addUsage(
   target: LanguageModelUsage,
   addition: LanguageModelUsage | null | undefined,
 ) {
@@ -161,20 +178,7 @@ export function streamTextWithCompatibleTools({
   const { promise: totalUsage, resolve: resolveTotalUsage } =
     Promise.withResolvers<LanguageModelUsage>();
 
-  const totalUsageAccu: LanguageModelUsage = {
-    inputTokens: undefined,
-    outputTokens: undefined,
-    totalTokens: undefined,
-    inputTokenDetails: {
-      noCacheTokens: undefined,
-      cacheReadTokens: undefined,
-      cacheWriteTokens: undefined,
-    },
-    outputTokenDetails: {
-      textTokens: undefined,
-      reasoningTokens: undefined,
-    },
-  };
+  const totalUsageAccu = emptyUsage();
 
   if (messages.length === 0) {
     throw new Error(
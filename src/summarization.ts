@@ -0,0 +1,188 @@
+import {
+  generateText,
+  type LanguageModel,
+  type LanguageModelUsage,
+  type ModelMessage,
+} from "ai";
+import type { Config } from "./type";
+
+/** One Discord message of a reply chain and the model messages it produced. */
+export type ChainEntry = {
+  messageId: string;
+  messages: ModelMessage[];
+};
+
+export type SummarizationOptions = {
+  /** provider/model used for summaries; null uses the replying model. */
+  model: string | null;
+  /** Summarize once the reply chain holds more model messages than this. */
+  threshold: number;
+  /** Newest model messages kept verbatim when a new summary is made. */
+  keepRecent: number;
+  /** How many model messages to read back when building a summary. */
+  maxHistory: number;
+};
+
+export type SummarizationPlan = {
+  /** Index (in the newest-first chain) of the oldest entry kept verbatim. */
+  anchorIndex: number;
+  /** True when a cached summary anchored at `anchorIndex` can be reused. */
+  reuse: boolean;
+  /** Older anchor whose summary should be extended instead of restarting. */
+  previousAnchorIndex: number | null;
+};
+
+const DEFAULT_MAX_HISTORY = 200;
+
+export function getSummarizationOptions(
+  config: Pick<Config, "max_messages" | "summarization">,
+): SummarizationOptions | null {
+  const cfg = config.summarization;
+  if (!cfg?.enable) return null;
+
+  const threshold = Math.max(2, cfg.threshold ?? config.max_messages ?? 25);
+  const keepRecent = Math.min(
+    Math.max(1, cfg.keep_recent ?? Math.floor(threshold / 2)),
+    threshold,
+  );
+
+  return {
+    model: cfg.model ?? null,
+    threshold,
+    keepRecent,
+    maxHistory: Math.max(cfg.max_history ?? DEFAULT_MAX_HISTORY, threshold),
+  };
+}
+
+function countMessages(entries: ChainEntry[]) {
+  return entries.reduce((n, e) => n + e.messages.length, 0);
+}
+
+/**
+ * Decide which part of a reply chain (newest first) is kept verbatim and which
+ * part is replaced by a summary. Returns null while the chain is short enough.
+ *
+ * A cached summary is reused as long as the messages after its anchor still
+ * fit under the threshold, so the summary only rolls forward every
+ * `threshold - keepRecent` messages.
+ */
+export function planSummarization(
+  chain: ChainEntry[],
+  options: Pick<SummarizationOptions, "threshold" | "keepRecent">,
+  cachedAnchorIds: Set<string>,
+): SummarizationPlan | null {
+  if (chain.length < 2 || countMessages(chain) <= options.threshold) {
+    return null;
+  }
+
+  let kept = 0;
+  for (let i = 0; i < chain.length - 1; i++) {
+    kept += chain[i]!.messages.length;
+    if (kept > options.threshold) break;
+    if (cachedAnchorIds.has(chain[i]!.messageId)) {
+      return { anchorIndex: i, reuse: true, previousAnchorIndex: null };
+    }
+  }
+
+  let anchorIndex = 0;
+  kept = chain[0]!.messages.length;
+  while (anchorIndex < chain.length - 2 && kept < options.keepRecent) {
+    anchorIndex++;
+    kept += chain[anchorIndex]!.messages.length;
+  }
+  // keep the retained conversation starting on a user turn
+  while (
+    anchorIndex < chain.length - 2 &&
+    chain[anchorIndex]!.messages[0]?.role !== "user"
+  ) {
+    anchorIndex++;
+  }
+
+  let previousAnchorIndex: number | null = null;
+  for (let i = anchorIndex + 1; i < chain.length; i++) {
+    if (cachedAnchorIds.has(chain[i]!.messageId)) {
+      previousAnchorIndex = i;
+      break;
+    }
+  }
+
+  return { anchorIndex, reuse: false, previousAnchorIndex };
+}
+
+function messageToTranscriptText(message: ModelMessage): string {
+  if (typeof message.content === "string") return message.content;
+  return message.content
+    .map((part) => {
+      switch (part.type) {
+        case "text":
+          return part.text;
+        case "image":
+          return "[image]";
+        case "file":
+          return `[file: ${part.mediaType}]`;
+        default:
+          return "";
+      }
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+/** Plain-text transcript of chain entries, oldest first. */
+export function formatTranscript(entries: ChainEntry[]): string {
+  return [...entries]
+    .reverse()
+    .flatMap((e) => e.messages)
+    .filter((m) => m.role === "user" || m.role === "assistant")
+    .flatMap((m) => {
+      const text = messageToTranscriptText(m).trim();
+      return text ? [`[${m.role}]\n${text}`] : [];
+    })
+    .join("\n\n");
+}
+
+export function buildSummaryMessage(summary: string): ModelMessage {
+  return {
+    role: "system",
+    content:
+      "Summary of the earlier part of this conversation (older messages are not shown):\n" +
+      "<conversation-summary>\n" +
+      summary.trim() +
+      "\n</conversation-summary>",
+  };
+}
+
+const SUMMARIZER_PROMPT =
+  "You maintain a running summary of a Discord conversation between users and an AI assistant.\n" +
+  "- Keep decisions, facts, open questions, user preferences and who said what (keep '<@ID>' mentions).\n" +
+  "- Drop greetings, filler and anything superseded later on.\n" +
+  "- Write concise bullet points in the conversation's language; no preamble.";
+
+export async function summarizeConversation({
+  model,
+  transcript,
+  previousSummary,
+  abortSignal,
+}: {
+  model: LanguageModel;
+  transcript: string;
+  previousSummary?: string | null;
+  abortSignal?: AbortSignal;
+}): Promise<{ summary: string; usage: LanguageModelUsage }> {
+  const prompt = previousSummary
+    ? `<previous-summary>\n${previousSummary}\n</previous-summary>\n\n` +
+      `<new-messages>\n${transcript}\n</new-messages>\n\n` +
+      "Update the previous summary with the new messages."
+    : `<messages>\n${transcript}\n</messages>\n\nSummarize these messages.`;
+
+  const { text, usage } = await generateText({
+    model,
+    system: SUMMARIZER_PROMPT,
+    prompt,
+    abortSignal,
+  });
+
+  const summary = text.trim();
+  if (!summary) throw new Error("Summarizer returned an empty summary");
+  return { summary, usage };
+}
@@ -0,0 +1,234 @@
+import type { Tool } from "ai";
+import type { ToolLimitOptions } from "./type";
+
+export const DEFAULT_TOOL_TIMEOUT_MS = 120_000;
+export const DEFAULT_MAX_OUTPUT_CHARS = 50_000;
+
+export type ToolLimits = {
+  timeoutMs: number | null;
+  maxOutputChars: number | null;
+  maxConcurrency: number | null;
+};
+
+/**
+ * Tool options win over the options of the tool's MCP server. `0` disables a
+ * limit.
+ */
+export function resolveToolLimits(
+  toolOptions?: ToolLimitOptions | null,
+  serverOptions?: ToolLimitOptions | null,
+): ToolLimits {
+  const pick = (key: keyof ToolLimitOptions, fallback: number | null) => {
+    const value = toolOptions?.[key] ?? serverOptions?.[key] ?? fallback;
+    return value ? value : null;
+  };
+  return {
+    timeoutMs: pick("timeout_ms", DEFAULT_TOOL_TIMEOUT_MS),
+    maxOutputChars: pick("max_output_chars", DEFAULT_MAX_OUTPUT_CHARS),
+    maxConcurrency: pick("max_concurrency", null),
+  };
+}
+
+/** Result shape of MCP `tools/call`, also used for errors we report. */
+type CallToolResult = {
+  content: Array<{ type: string; text?: string } & Record<string, unknown>>;
+  isError?: boolean;
+};
+
+function isCallToolResult(value: unknown): value is CallToolResult {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Array.isArray((value as { content?: unknown }).content)
+  );
+}
+
+export function toolErrorResult(message: string): CallToolResult {
+  return { content: [{ type: "text", text: message }], isError: true };
+}
+
+export function isToolErrorResult(value: unknown) {
+  return isCallToolResult(value) && value.isError === true;
+}
+
+function truncationNotice(shown: number, total: number) {
+  return `\n\n[Output truncated: showing ${shown} of ${total} characters]`;
+}
+
+/**
+ * Cap the text of a tool result at `maxChars`. MCP results keep their shape
+ * with their text parts shortened; other values are cut as strings or JSON.
+ */
+export function truncateToolOutput(
+  output: unknown,
+  maxChars: number,
+): { output: unknown; truncated: boolean } {
+  if (typeof output === "string") {
+    if (output.length <= maxChars) return { output, truncated: false };
+    return {
+      output:
+        output.slice(0, maxChars) + truncationNotice(maxChars, output.length),
+      truncated: true,
+    };
+  }
+
+  if (isCallToolResult(output)) {
+    const total = output.content.reduce(
+      (sum, part) => sum + (part.text?.length ?? 0),
+      0,
+    );
+    if (total <= maxChars) return { output, truncated: false };
+
+    let remaining = maxChars;
+    const content: CallToolResult["content"] = [];
+    for (const part of output.content) {
+      if (typeof part.text !== "string") {
+        content.push(part);
+        continue;
+      }
+      if (remaining <= 0) continue;
+      content.push({ ...part, text: part.text.slice(0, remaining) });
+      remaining -= part.text.length;
+    }
+    content.push({ type: "text", text: truncationNotice(maxChars, total) });
+    return { output: { ...output, content }, truncated: true };
+  }
+
+  let json: string | undefined;
+  try {
+    json = JSON.stringify(output);
+  } catch {
+    return { output, truncated: false };
+  }
+  if (json === undefined || json.length <= maxChars) {
+    return { output, truncated: false };
+  }
+  return {
+    output: json.slice(0, maxChars) + truncationNotice(maxChars, json.length),
+    truncated: true,
+  };
+}
+
+/** Counting semaphore; waiters are served in order. */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(readonly max: number) {}
+
+  get pending() {
+    return this.waiters.length;
+  }
+
+  /** Resolves with a release function once a slot is free. */
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    if (this.active >= this.max) {
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          this.waiters = this.waiters.filter((w) => w !== grant);
+          reject(signal?.reason ?? new Error("Aborted"));
+        };
+        const grant = () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        };
+        if (signal?.aborted) return onAbort();
+        signal?.addEventListener("abort", onAbort, { once: true });
+        this.waiters.push(grant);
+      });
+    } else {
+      this.active++;
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const next = this.waiters.shift();
+      // hand the slot straight to the next waiter
+      if (next) next();
+      else this.active--;
+    };
+  }
+}
+
+function errorMessage(e: unknown) {
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * Wrap tool executes with a timeout, an output cap and a concurrency limit.
+ * Failures are returned to the model as error results instead of thrown.
+ */
+export function withToolLimits(
+  tools: Record<string, Tool>,
+  getLimits: (toolName: string) => ToolLimits,
+  getLimiter: (toolName: string, max: number) => ConcurrencyLimiter,
+): Record<string, Tool> {
+  const wrapped: Record<string, Tool> = {};
+  for (const [name, tool] of Object.entries(tools)) {
+    const execute = tool.execute;
+    if (!execute) {
+      wrapped[name] = tool;
+      continue;
+    }
+
+    wrapped[name] = {
+      ...tool,
+      execute: async (input, options) => {
+        const limits = getLimits(name);
+        const parentSignal = options?.abortSignal;
+
+        let release: (() => void) | null = null;
+        const timeout = new AbortController();
+        let timer: NodeJS.Timeout | null = null;
+        try {
+          if (limits.maxConcurrency) {
+            release = await getLimiter(name, limits.maxConcurrency).acquire(
+              parentSignal,
+            );
+          }
+
+          const signal = parentSignal
+            ? AbortSignal.any([parentSignal, timeout.signal])
+            : timeout.signal;
+          const run = Promise.resolve(
+            execute(input, { ...options, abortSignal: signal }),
+          );
+
+          let result: unknown;
+          if (limits.timeoutMs) {
+            const timeoutMs = limits.timeoutMs;
+            const timedOut = new Promise<never>((_, reject) => {
+              timer = setTimeout(() => {
+                const error = new Error(
+                  `Tool "${name}" timed out after ${timeoutMs} ms`,
+                );
+                // reject first so a tool that settles on abort doesn't win
+                reject(error);
+                timeout.abort(error);
+              }, timeoutMs);
+            });
+            // the call may still settle after the timeout; ignore it then
+            run.catch(() => {});
+            result = await Promise.race([run, timedOut]);
+          } else {
+            result = await run;
+          }
+
+          if (limits.maxOutputChars) {
+            result = truncateToolOutput(result, limits.maxOutputChars).output;
+          }
+          return result;
+        } catch (e) {
+          if (parentSignal?.aborted) throw e;
+          return toolErrorResult(`Error: ${errorMessage(e)}`);
+        } finally {
+          if (timer) clearTimeout(timer);
+          release?.();
+        }
+      },
+    } as Tool;
+  }
+  return wrapped;
+}
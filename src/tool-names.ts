@@ -0,0 +1,107 @@
+export const TOOL_NAME_SEPARATOR = "__";
+
+export const TOOL_SOURCES = [
+  "local_mcp",
+  "remote_mcp",
+  "extension",
+  "rag",
+] as const;
+export type ToolSource = (typeof TOOL_SOURCES)[number];
+
+export const TOOL_SOURCE_LABELS: Record<ToolSource, string> = {
+  local_mcp: "Local MCP",
+  remote_mcp: "Remote MCP",
+  extension: "Extensions",
+  rag: "RAG",
+};
+
+/** The tools of one MCP server, extension or built-in set. */
+export type ToolGroup<T> = {
+  source: ToolSource;
+  /** Server or extension name, used as the prefix. */
+  name: string;
+  tools: Record<string, T>;
+  /** Expose tools as `<name>__<tool>`. */
+  prefix?: boolean;
+  /** Original tool name → exposed name; wins over the prefix. */
+  rename?: Record<string, string>;
+};
+
+export type ToolOrigin = {
+  source: ToolSource;
+  name: string;
+  /** Name of the tool within its server or extension. */
+  toolName: string;
+};
+
+export type ToolCollision = {
+  name: string;
+  kept: ToolOrigin;
+  dropped: ToolOrigin;
+};
+
+/** Most providers only accept `^[a-zA-Z0-9_-]{1,64}$`. */
+export function sanitizeToolName(name: string) {
+  return name.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 64);
+}
+
+export function resolveToolName(
+  group: Pick<ToolGroup<unknown>, "name" | "prefix" | "rename">,
+  toolName: string,
+) {
+  const renamed = group.rename?.[toolName];
+  if (renamed) return renamed;
+  if (!group.prefix) return toolName;
+  return sanitizeToolName(`${group.name}${TOOL_NAME_SEPARATOR}${toolName}`);
+}
+
+/**
+ * Merge groups into one record under their exposed names. On a collision the
+ * later group wins, so MCP tools are overridden by extensions and RAG tools.
+ */
+export function mergeToolGroups<T>(groups: ToolGroup<T>[]) {
+  const tools: Record<string, T> = {};
+  const origins = new Map<string, ToolOrigin>();
+  const collisions: ToolCollision[] = [];
+  for (const group of groups) {
+    for (const [toolName, tool] of Object.entries(group.tools)) {
+      const name = resolveToolName(group, toolName);
+      const origin = { source: group.source, name: group.name, toolName };
+      const existing = origins.get(name);
+      if (existing) collisions.push({ name, kept: origin, dropped: existing });
+      tools[name] = tool;
+      origins.set(name, origin);
+    }
+  }
+  return { tools, origins, collisions };
+}
+
+export function describeToolOrigin(origin: ToolOrigin) {
+  switch (origin.source) {
+    case "local_mcp":
+      return `local MCP server [${origin.name}]`;
+    case "remote_mcp":
+      return `remote MCP server [${origin.name}]`;
+    case "extension":
+      return `extension [${origin.name}]`;
+    case "rag":
+      return "RAG";
+  }
+}
+
+export function formatToolCollision({ name, kept, dropped }: ToolCollision) {
+  return `Tool [${name}] from ${describeToolOrigin(kept)} hides the one from ${describeToolOrigin(dropped)}; set prefix_tool_names or rename_tools to keep both`;
+}
+
+/** Exposed tool names by source, then by server or extension name. */
+export function groupToolNames(origins: Map<string, ToolOrigin>) {
+  const grouped = new Map<ToolSource, Map<string, string[]>>();
+  for (const source of TOOL_SOURCES) grouped.set(source, new Map());
+  for (const [name, origin] of origins) {
+    const byName = grouped.get(origin.source)!;
+    const names = byName.get(origin.name) ?? [];
+    names.push(name);
+    byName.set(origin.name, names);
+  }
+  return grouped;
+}
@@ -0,0 +1,110 @@
+import type { Config, DbToolScope, ToolScopeRule } from "./type";
+import {
+  resolveChannelOverride,
+  type ChannelRef,
+} from "./utils/channel-inheritance";
+
+export const TOOL_SCOPE_TYPES = ["channel", "role", "user"] as const;
+export type ToolScopeType = (typeof TOOL_SCOPE_TYPES)[number];
+
+/** Rules keyed by channel, role and user ID. */
+export type ToolScopes = Record<ToolScopeType, Map<string, ToolScopeRule>>;
+
+export function emptyToolScopes(): ToolScopes {
+  return { channel: new Map(), role: new Map(), user: new Map() };
+}
+
+function addToRule(
+  scopes: ToolScopes,
+  type: ToolScopeType,
+  id: string,
+  mode: "allow" | "deny",
+  tools: Iterable<string>,
+) {
+  const rule = scopes[type].get(id) ?? {};
+  rule[mode] = [...new Set([...(rule[mode] ?? []), ...tools])];
+  scopes[type].set(id, rule);
+}
+
+export function toolScopesFromConfig(
+  config: NonNullable<Config["tools"]>["scopes"],
+): ToolScopes {
+  const scopes = emptyToolScopes();
+  const sections = {
+    channel: config?.channels,
+    role: config?.roles,
+    user: config?.users,
+  };
+  for (const type of TOOL_SCOPE_TYPES) {
+    for (const [id, rule] of Object.entries(sections[type] ?? {})) {
+      if (!rule) continue;
+      addToRule(scopes, type, String(id), "allow", rule.allow ?? []);
+      addToRule(scopes, type, String(id), "deny", rule.deny ?? []);
+    }
+  }
+  return scopes;
+}
+
+export function toolScopesFromRows(rows: DbToolScope[]): ToolScopes {
+  const scopes = emptyToolScopes();
+  for (const row of rows) {
+    addToRule(scopes, row.scope_type, row.scope_id, row.mode, [row.tool_name]);
+  }
+  return scopes;
+}
+
+/** Combine scopes from several sources; lists for the same ID are merged. */
+export function mergeToolScopes(...sources: ToolScopes[]): ToolScopes {
+  const merged = emptyToolScopes();
+  for (const source of sources) {
+    for (const type of TOOL_SCOPE_TYPES) {
+      for (const [id, rule] of source[type]) {
+        addToRule(merged, type, id, "allow", rule.allow ?? []);
+        addToRule(merged, type, id, "deny", rule.deny ?? []);
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * Rules that apply to a message: the channel's (a thread without its own rule
+ * inherits its parent's), one per role of the author, and the author's.
+ */
+export function getApplicableToolRules(
+  scopes: ToolScopes,
+  target: { channel: ChannelRef; roleIds: Iterable<string>; userId: string },
+): ToolScopeRule[] {
+  const rules: ToolScopeRule[] = [];
+  const channel = resolveChannelOverride(target.channel, scopes.channel);
+  if (channel) rules.push(channel.value);
+  for (const roleId of target.roleIds) {
+    const rule = scopes.role.get(roleId);
+    if (rule) rules.push(rule);
+  }
+  const user = scopes.user.get(target.userId);
+  if (user) rules.push(user);
+  return rules;
+}
+
+/**
+ * A tool is available only if every applicable rule permits it: it must not
+ * be denied, and must be listed wherever a non-empty allow list is set.
+ */
+export function isToolAllowed(toolName: string, rules: ToolScopeRule[]) {
+  return rules.every(
+    (rule) =>
+      !rule.deny?.includes(toolName) &&
+      (!rule.allow?.length || rule.allow.includes(toolName)),
+  );
+}
+
+export function filterToolsByScope<T>(
+  tools: Record<string, T>,
+  rules: ToolScopeRule[],
+): Record<string, T> {
+  if (rules.length === 0) return tools;
+  return Object.fromEntries(
+    Object.entries(tools).filter(([name]) => isToolAllowed(name, rules)),
+  );
+}
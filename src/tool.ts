@@ -5,24 +5,70 @@ import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/
 
 import { getConfig } from "./config-parser";
 import { getRagTools } from "./rag/embedding";
-import { pg } from "./rag/db";
-import { loadExtensions } from "./extensions";
+import { getRagStore } from "./rag/store";
+import { ExtensionHost } from "./extensions";
 import { Logger } from "./logger";
-import type { LocalMCPConfig, RemoteMCPConfig } from "./type";
+import {
+  diffMcpServers,
+  getMcpServerDefinitions,
+  splitMcpServerConfig,
+  type McpServerDefinition,
+} from "./mcp-config";
+import type { McpPromptInfo, McpResourceInfo } from "./mcp-content";
+import { getReconnectDelay, type McpServerStatus } from "./mcp-status";
+import {
+  formatToolCollision,
+  mergeToolGroups,
+  type ToolGroup,
+  type ToolOrigin,
+} from "./tool-names";
+import {
+  ConcurrencyLimiter,
+  resolveToolLimits,
+  withToolLimits,
+} from "./tool-limits";
+import type {
+  Config,
+  LocalMCPConfig,
+  McpServerOptions,
+  RemoteMCPConfig,
+  RemoteMCPTransportConfig,
+} from "./type";
 
 export type MCPClient = Awaited<ReturnType<typeof createMCPClient>>;
 
+const DEFAULT_HEALTH_CHECK_INTERVAL_SECONDS = 60;
+const MCP_REQUEST_TIMEOUT_MS = 10_000;
+
+function describeError(e: unknown): string {
+  if (!(e instanceof Error)) return String(e);
+  return e.cause ? `${e.message}: ${describeError(e.cause)}` : e.message;
+}
+
 export class ToolManager {
   private mcps: Record<string, MCPClient> = {};
-  private mcpTools?: Record<string, Tool>;
+  /** Tools of each MCP client. */
+  private mcpTools?: Map<string, Record<string, Tool>>;
   private ragTools?: Record<string, Tool>;
-  private extensions?: Record<string, Tool>;
+  /** Where each exposed tool comes from, as of the last `getAllTools()`. */
+  private toolOrigins = new Map<string, ToolOrigin>();
+  private reportedCollisions = new Set<string>();
+  /** Options of each MCP client, and which client each MCP tool is from. */
+  private mcpServerOptions = new Map<string, McpServerOptions>();
+  private mcpToolServers = new Map<string, string>();
+  private limiters = new Map<string, ConcurrencyLimiter>();
+  /** Every configured MCP server, connected or not. */
+  private mcpDefinitions = new Map<string, McpServerDefinition>();
+  private mcpStatus = new Map<string, McpServerStatus>();
+  private reconnectTimers = new Map<string, NodeJS.Timeout>();
+  private healthCheckInterval: NodeJS.Timeout | null = null;
   private logger = new Logger({ module: "tool" });
+  readonly extensionHost = new ExtensionHost();
 
   disabledTools: Set<string> = new Set();
 
   async init() {
-    const { rag, log_level } = await getConfig();
+    const { rag, log_level, tools } = await getConfig();
     this.logger.setLogLevel(log_level ?? "info");
 
     try {
@@ -40,26 +86,44 @@ export class ToolManager {
       this.ragTools = getRagTools();
 
       this.logger.logInfo("[RAG] ensure table");
-      await pg();
+      await getRagStore();
     }
 
     try {
-      const extensions = await loadExtensions();
-      if (extensions) this.extensions = extensions;
+      await this.extensionHost.load();
+      if (process.env.NODE_ENV === "development") {
+        this.extensionHost.startWatcher();
+      }
     } catch (e) {
       this.logger.logError("Error loading extensions:", e);
     }
 
+    const healthCheckSeconds =
+      tools?.health_check_interval_seconds ??
+      DEFAULT_HEALTH_CHECK_INTERVAL_SECONDS;
+    if (healthCheckSeconds > 0) {
+      this.healthCheckInterval = setInterval(
+        () =>
+          this.checkMcpHealth().catch((e) =>
+            this.logger.logError("Error checking MCP servers:", e),
+          ),
+        healthCheckSeconds * 1000,
+      );
+    }
+
     this.logger.logInfo("ToolManager initialized");
   }
 
   private async loadLocalMcp(name: string, config: LocalMCPConfig) {
+    const { options, transport } = splitMcpServerConfig(config);
     try {
       const client = await createMCPClient({
-        transport: new StdioClientTransport(config),
+        transport: new StdioClientTransport(transport),
+        onUncaughtError: (e) => this.recordMcpError(`local_${name}`, e),
       });
 
       this.mcps[`local_${name}`] = client;
+      this.mcpServerOptions.set(`local_${name}`, options);
     } catch (e) {
       throw new Error(`Error loading local MCP client: [${name}]`, {
         cause: e,
@@ -67,7 +131,10 @@ export class ToolManager {
     }
   }
 
-  private async loadRemoteMcp(name: string, config: RemoteMCPConfig) {
+  private async loadRemoteMcp(name: string, remoteConfig: RemoteMCPConfig) {
+    const { options, transport } = splitMcpServerConfig(remoteConfig);
+    const config = transport as RemoteMCPTransportConfig;
+    this.mcpServerOptions.set(`remote_${name}`, options);
     try {
       switch (config.type) {
         case "http": {
@@ -76,6 +143,7 @@ export class ToolManager {
             transport: new StreamableHTTPClientTransport(new URL(url), {
               requestInit: opts,
             }),
+            onUncaughtError: (e) => this.recordMcpError(`remote_${name}`, e),
           });
 
           this.mcps[`remote_${name}`] = client;
@@ -89,6 +157,7 @@ export class ToolManager {
               url,
               ...opts,
             },
+            onUncaughtError: (e) => this.recordMcpError(`remote_${name}`, e),
           });
 
           this.mcps[`remote_${name}`] = client;
@@ -108,28 +177,306 @@ export class ToolManager {
   }
 
   async loadMcpTools() {
-    const { tools = {} } = await getConfig();
-    const loadPromises: Promise<void>[] = [];
+    const { tools } = await getConfig();
+    await Promise.all(
+      [...getMcpServerDefinitions(tools).values()].map((server) =>
+        this.connectMcp(server),
+      ),
+    );
+  }
+
+  private async loadMcp(server: McpServerDefinition) {
+    if (server.kind === "local") {
+      await this.loadLocalMcp(server.name, server.config);
+    } else {
+      await this.loadRemoteMcp(server.name, server.config);
+    }
+  }
 
-    for (const [name, config] of Object.entries(tools.local_mcp || {})) {
-      loadPromises.push(this.loadLocalMcp(name, config));
+  /**
+   * Connect to a server and track its status. On failure a reconnect is
+   * scheduled with exponential backoff. Returns whether it connected.
+   */
+  private async connectMcp(server: McpServerDefinition) {
+    const key = `${server.kind}_${server.name}`;
+    this.mcpDefinitions.set(key, server);
+    this.clearReconnect(key);
+
+    let status = this.mcpStatus.get(key);
+    if (!status) {
+      status = {
+        key,
+        kind: server.kind,
+        name: server.name,
+        state: "connecting",
+        toolCount: 0,
+        lastError: null,
+        lastErrorAt: null,
+        connectedAt: null,
+        failures: 0,
+        nextRetryAt: null,
+      };
+      this.mcpStatus.set(key, status);
     }
+    status.state = status.failures > 0 ? "reconnecting" : "connecting";
+    status.nextRetryAt = null;
 
-    for (const [name, config] of Object.entries(tools.remote_mcp || {})) {
-      loadPromises.push(this.loadRemoteMcp(name, config));
+    try {
+      await this.loadMcp(server);
+      if (!this.mcps[key]) throw new Error("MCP server did not connect");
+      status.state = "connected";
+      status.connectedAt = Date.now();
+      status.failures = 0;
+      return true;
+    } catch (e) {
+      this.recordMcpError(key, e);
+      const delay = this.scheduleReconnect(key);
+      this.logger.logError(
+        `Failed to connect MCP server [${key}], retrying in ${Math.round(delay / 1000)}s`,
+        e,
+      );
+      return false;
     }
+  }
+
+  private scheduleReconnect(key: string) {
+    const status = this.mcpStatus.get(key);
+    const server = this.mcpDefinitions.get(key);
+    if (!status || !server) return 0;
+
+    this.clearReconnect(key);
+    status.failures++;
+    const delay = getReconnectDelay(status.failures);
+    status.state = "reconnecting";
+    status.connectedAt = null;
+    status.nextRetryAt = Date.now() + delay;
+    this.reconnectTimers.set(
+      key,
+      setTimeout(async () => {
+        this.reconnectTimers.delete(key);
+        if (await this.connectMcp(server)) {
+          this.logger.logInfo(`MCP server [${key}] reconnected`);
+          await this.refreshMcpTools();
+        }
+      }, delay),
+    );
+    return delay;
+  }
+
+  private clearReconnect(key: string) {
+    const timer = this.reconnectTimers.get(key);
+    if (timer) clearTimeout(timer);
+    this.reconnectTimers.delete(key);
+  }
+
+  private recordMcpError(key: string, e: unknown) {
+    const status = this.mcpStatus.get(key);
+    if (!status) return;
+    status.lastError = describeError(e);
+    status.lastErrorAt = Date.now();
+  }
+
+  /** Close a client; `client` guards against closing a newer connection. */
+  private async disconnectMcp(key: string, client = this.mcps[key]) {
+    if (!client || this.mcps[key] !== client) return;
+    delete this.mcps[key];
+    await client
+      .close()
+      .catch((e) =>
+        this.logger.logError(`Error closing MCP client [${key}]`, e),
+      );
+  }
+
+  /** Forget a server that is no longer configured. */
+  private async removeMcp(key: string) {
+    this.clearReconnect(key);
+    await this.disconnectMcp(key);
+    this.mcpDefinitions.delete(key);
+    this.mcpStatus.delete(key);
+    this.mcpServerOptions.delete(key);
+  }
+
+  private async refreshMcpTools() {
+    this.mcpTools =
+      Object.keys(this.mcps).length > 0 ? await this.getMcpTools() : undefined;
+  }
+
+  /**
+   * Ping every connected server by listing its tools. Servers that fail are
+   * disconnected and reconnected with backoff.
+   */
+  async checkMcpHealth() {
+    let changed = false;
+    await Promise.all(
+      Object.entries(this.mcps).map(async ([key, client]) => {
+        try {
+          const { tools } = await client.listTools({
+            options: { timeout: MCP_REQUEST_TIMEOUT_MS },
+          });
+          const status = this.mcpStatus.get(key);
+          if (status && status.toolCount !== tools.length) {
+            status.toolCount = tools.length;
+            changed = true;
+          }
+        } catch (e) {
+          this.logger.logWarn(`MCP server [${key}] failed its health check`, e);
+          await this.disconnectMcp(key, client);
+          this.recordMcpError(key, e);
+          this.scheduleReconnect(key);
+          changed = true;
+        }
+      }),
+    );
+    if (changed) await this.refreshMcpTools();
+  }
+
+  /**
+   * Reconnect one server by name (`fetch`) or key (`local_fetch`), leaving
+   * the others alone. Returns null if no such server is configured.
+   */
+  async reloadMcpServer(name: string) {
+    const key = [name, `local_${name}`, `remote_${name}`].find((k) =>
+      this.mcpDefinitions.has(k),
+    );
+    if (!key) return null;
+
+    this.clearReconnect(key);
+    await this.disconnectMcp(key);
+    const status = this.mcpStatus.get(key);
+    if (status) status.failures = 0;
+    await this.connectMcp(this.mcpDefinitions.get(key)!);
+    await this.refreshMcpTools();
+    return { ...this.mcpStatus.get(key)! };
+  }
+
+  /** Prompts of every connected server; servers without prompts are skipped. */
+  async listMcpPrompts(): Promise<McpPromptInfo[]> {
+    const lists = await Promise.all(
+      Object.entries(this.mcps).map(async ([key, client]) => {
+        try {
+          const { prompts } = await client.experimental_listPrompts({
+            options: { timeout: MCP_REQUEST_TIMEOUT_MS },
+          });
+          const server = this.mcpDefinitions.get(key)?.name ?? key;
+          return prompts.map((prompt) => ({
+            serverKey: key,
+            server,
+            name: prompt.name,
+            description: prompt.description,
+            arguments: prompt.arguments ?? [],
+          }));
+        } catch (e) {
+          this.logger.logDebug(`No prompts from MCP server [${key}]`, e);
+          return [];
+        }
+      }),
+    );
+    return lists.flat();
+  }
 
-    await Promise.allSettled(loadPromises);
+  async getMcpPrompt(
+    serverKey: string,
+    name: string,
+    args: Record<string, string>,
+  ) {
+    return this.getMcpClient(serverKey).experimental_getPrompt({
+      name,
+      arguments: args,
+      options: { timeout: MCP_REQUEST_TIMEOUT_MS },
+    });
+  }
+
+  /** Resources of every connected server; servers without any are skipped. */
+  async listMcpResources(): Promise<McpResourceInfo[]> {
+    const lists = await Promise.all(
+      Object.entries(this.mcps).map(async ([key, client]) => {
+        try {
+          const { resources } = await client.listResources({
+            options: { timeout: MCP_REQUEST_TIMEOUT_MS },
+          });
+          const server = this.mcpDefinitions.get(key)?.name ?? key;
+          return resources.map((resource) => ({
+            serverKey: key,
+            server,
+            uri: resource.uri,
+            name: resource.name,
+            description: resource.description,
+            mimeType: resource.mimeType,
+          }));
+        } catch (e) {
+          this.logger.logDebug(`No resources from MCP server [${key}]`, e);
+          return [];
+        }
+      }),
+    );
+    return lists.flat();
+  }
+
+  async readMcpResource(serverKey: string, uri: string) {
+    const { contents } = await this.getMcpClient(serverKey).readResource({
+      uri,
+      options: { timeout: MCP_REQUEST_TIMEOUT_MS },
+    });
+    return contents;
+  }
+
+  private getMcpClient(serverKey: string) {
+    const client = this.mcps[serverKey];
+    if (!client) throw new Error(`MCP server [${serverKey}] is not connected`);
+    return client;
+  }
+
+  getMcpStatus(): McpServerStatus[] {
+    return [...this.mcpStatus.values()]
+      .map((status) => ({ ...status }))
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  /**
+   * Apply a new `tools` section: stop removed servers, restart changed ones
+   * and start new ones. Untouched servers keep their connection.
+   */
+  async reconcile(prev: Config["tools"], next: Config["tools"]) {
+    const { added, removed, changed } = diffMcpServers(prev, next);
+    for (const [key, server] of getMcpServerDefinitions(next)) {
+      if (!this.mcps[key]) continue;
+      this.mcpServerOptions.set(
+        key,
+        splitMcpServerConfig(server.config).options,
+      );
+    }
+    if (added.length + removed.length + changed.length === 0) return;
+
+    await Promise.all(
+      [...removed, ...changed].map((server) =>
+        this.removeMcp(`${server.kind}_${server.name}`),
+      ),
+    );
+    await Promise.all(
+      [...changed, ...added].map((server) => this.connectMcp(server)),
+    );
+
+    await this.refreshMcpTools();
+    this.logger.logInfo(
+      `MCP servers reconciled: ${added.length} added, ${removed.length} removed, ${changed.length} restarted`,
+    );
   }
 
   async getMcpTools() {
+    const entries = Object.entries(this.mcps);
     const queryResult = await Promise.allSettled(
-      Object.values(this.mcps).map((mcp) => mcp.tools()),
+      entries.map(([, mcp]) => mcp.tools()),
     );
 
-    const success = queryResult
-      .filter((r) => r.status === "fulfilled")
-      .map((r) => r.value);
+    const tools = new Map<string, Record<string, Tool>>();
+    queryResult.forEach((r, i) => {
+      if (r.status !== "fulfilled") return;
+      const key = entries[i]![0];
+      const status = this.mcpStatus.get(key);
+      if (status) status.toolCount = Object.keys(r.value).length;
+      tools.set(key, r.value as Record<string, Tool>);
+    });
+
     const errors = queryResult
       .filter((r) => r.status === "rejected")
       .map((r) => r.reason);
@@ -137,21 +484,63 @@ export class ToolManager {
       this.logger.logError("Error fetching tools:", errors);
     }
 
-    return success.reduce(
-      (acc, tool) => ({ ...acc, ...tool }) as Record<string, Tool>,
-      {} as Record<string, Tool>,
-    );
+    return tools;
   }
 
+  /** All tools under their exposed names; collisions are logged once. */
   async getAllTools() {
-    let tools: Record<string, Tool> = {};
-    if (this.mcpTools) tools = { ...tools, ...this.mcpTools };
-    if (this.extensions) tools = { ...tools, ...this.extensions };
-    if (this.ragTools) tools = { ...tools, ...this.ragTools };
+    const prefixAll = (await getConfig()).tools?.prefix_tool_names ?? false;
+
+    const groups: ToolGroup<Tool>[] = [];
+    for (const [key, tools] of this.mcpTools ?? []) {
+      const server = this.mcpDefinitions.get(key);
+      if (!server) continue;
+      const options = this.mcpServerOptions.get(key);
+      groups.push({
+        source: server.kind === "local" ? "local_mcp" : "remote_mcp",
+        name: server.name,
+        tools,
+        prefix: options?.prefix_tool_names ?? prefixAll,
+        rename: options?.rename_tools,
+      });
+    }
+    for (const [name, tools] of Object.entries(this.extensionHost.getTools())) {
+      groups.push({ source: "extension", name, tools, prefix: prefixAll });
+    }
+    if (this.ragTools) {
+      groups.push({ source: "rag", name: "rag", tools: this.ragTools });
+    }
+
+    const { tools, origins, collisions } = mergeToolGroups(groups);
+    this.toolOrigins = origins;
+    this.mcpToolServers.clear();
+    for (const [name, origin] of origins) {
+      if (origin.source === "local_mcp") {
+        this.mcpToolServers.set(name, `local_${origin.name}`);
+      } else if (origin.source === "remote_mcp") {
+        this.mcpToolServers.set(name, `remote_${origin.name}`);
+      }
+    }
+    for (const collision of collisions) {
+      const message = formatToolCollision(collision);
+      if (this.reportedCollisions.has(message)) continue;
+      this.reportedCollisions.add(message);
+      this.logger.logWarn(message);
+    }
+
     if (Object.keys(tools).length === 0) return undefined;
     return tools;
   }
 
+  getExtensionErrors() {
+    return this.extensionHost.getErrors();
+  }
+
+  getToolOrigins(): Map<string, ToolOrigin> {
+    return new Map(this.toolOrigins);
+  }
+
+  /** Enabled tools, wrapped with their timeout, output cap and concurrency. */
   async getTools() {
     const tools = await this.getAllTools();
     if (!tools) return undefined;
@@ -161,10 +550,43 @@ export class ToolManager {
       if (this.disabledTools.has(name)) continue;
       filtered[name] = tool;
     }
-    return filtered;
+
+    const toolOptions = (await getConfig()).tools?.tool_options;
+    return withToolLimits(
+      filtered,
+      (name) =>
+        resolveToolLimits(toolOptions?.[name], this.getMcpServerOptions(name)),
+      (name, max) => this.getLimiter(name, max),
+    );
+  }
+
+  /** Options of the MCP server a tool comes from, if any. */
+  getMcpServerOptions(toolName: string) {
+    const server = this.mcpToolServers.get(toolName);
+    return server ? this.mcpServerOptions.get(server) : undefined;
+  }
+
+  private getLimiter(toolName: string, max: number) {
+    let limiter = this.limiters.get(toolName);
+    // a changed limit takes effect for new calls; running ones keep theirs
+    if (!limiter || limiter.max !== max) {
+      limiter = new ConcurrencyLimiter(max);
+      this.limiters.set(toolName, limiter);
+    }
+    return limiter;
   }
 
   async destroy() {
+    await this.extensionHost.unload();
+    if (this.healthCheckInterval) clearInterval(this.healthCheckInterval);
+    this.healthCheckInterval = null;
+    for (const key of this.reconnectTimers.keys()) this.clearReconnect(key);
+    this.mcpDefinitions.clear();
+    this.mcpStatus.clear();
+    this.mcpServerOptions.clear();
+    this.mcpToolServers.clear();
+    this.toolOrigins.clear();
+    this.reportedCollisions.clear();
     const res = await Promise.allSettled(
       Object.values(this.mcps).map((mcp) => mcp.close()),
     );
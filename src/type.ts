@@ -32,14 +32,39 @@ export type Config = {
   };
   additional_vision_models?: Array<string>;
   providers: Record<Providers, ProviderConfig>;
-  models: Record<string, Record<string, string | number | boolean> | undefined>;
+  models: Record<
+    string,
+    Record<string, string | number | boolean | string[]> | undefined
+  >;
+  /** Models to try, in order, when a model without its own list fails. */
+  fallback_models?: string[];
   tools?: {
     include_summary?: boolean;
+    /** Per-tool settings, keyed by tool name. */
+    tool_options?: Record<string, ToolOptions>;
+    /** How long an approval prompt waits for a click. Default: 120. */
+    approval_timeout_seconds?: number;
+    /** Expose MCP and extension tools as `<server>__<tool>`. */
+    prefix_tool_names?: boolean;
+    /** How often MCP servers are pinged; 0 disables. Default: 60. */
+    health_check_interval_seconds?: number;
+    /** Allow/deny lists keyed by channel, role and user ID. */
+    scopes?: {
+      channels?: Record<string, ToolScopeRule>;
+      roles?: Record<string, ToolScopeRule>;
+      users?: Record<string, ToolScopeRule>;
+    };
     local_mcp?: Record<string, LocalMCPConfig>;
     remote_mcp?: Record<string, RemoteMCPConfig>;
   };
   rag?: {
     enable?: boolean;
+    /**
+     * Where memories and documents are stored. "sqlite" keeps them in
+     * `data/rag.db` and needs no database server. Default: "postgres".
+     */
+    backend?: "postgres" | "sqlite";
+    /** Required for the "postgres" backend (pgvector and pg_trgm). */
     postgres_uri?: string;
     /**
      * Embedding model for RAG.
@@ -58,7 +83,77 @@ export type Config = {
      * If omitted for known OpenAI embedding models, it defaults based on model id.
      */
     embedding_dimensions?: number;
+    /** Memory recall (`recallUserContext`). */
+    search?: {
+      /** "hybrid" adds keyword matches to vector search. Default: "hybrid". */
+      mode?: "vector" | "hybrid";
+      /** Weight of the vector ranking when fusing. Default: 1. */
+      vector_weight?: number;
+      /** Weight of the keyword ranking when fusing. Default: 1. */
+      keyword_weight?: number;
+      /** Reciprocal rank fusion constant; larger values flatten rank differences. Default: 60. */
+      rrf_k?: number;
+    };
+    /** Memories injected into every conversation. */
+    memory?: {
+      /** Most memories per type and user. Default: intent 8, preference 8, fact 16. */
+      caps?: Partial<Record<"intent" | "fact" | "preference", number>>;
+      /** Minimum score per type. Default: intent 0.45, preference 0.4, fact 0.45. */
+      thresholds?: Partial<Record<"intent" | "fact" | "preference", number>>;
+      /** Weight of similarity to the current message. Default: 0.5. */
+      similarity_weight?: number;
+      /** Weight of the relevance stored with the memory. Default: 0.35. */
+      relevance_weight?: number;
+      /** Weight of recency. Default: 0.15. */
+      recency_weight?: number;
+      /** Days after which a memory's recency score halves. Default: 30. */
+      recency_half_life_days?: number;
+    };
+    /** Documents added with `/kb add`. */
+    knowledge?: {
+      /** Excerpts added to each conversation. Default: 4. */
+      max_results?: number;
+      /** Minimum cosine similarity of an excerpt. Default: 0.35. */
+      min_similarity?: number;
+      /** Maximum characters per chunk. Default: 1500. */
+      chunk_size?: number;
+      /**
+       * Longer documents are rejected, and downloads are stopped past 4 bytes
+       * per character. Default: 200000.
+       */
+      max_document_chars?: number;
+    };
   };
+  summarization?: {
+    enable?: boolean;
+    /** provider/model used to write summaries. Default: the replying model. */
+    model?: string;
+    /** Summarize once a reply chain is longer than this. Default: max_messages. */
+    threshold?: number;
+    /** Newest messages kept verbatim. Default: half of `threshold`. */
+    keep_recent?: number;
+    /** How far back a reply chain is read for summarizing. Default: 200. */
+    max_history?: number;
+  };
+  budgets?: {
+    /** Admins are not subject to budgets. Default: true. */
+    exempt_admins?: boolean;
+    /** Limits applied to each user individually. */
+    user?: BudgetLimits;
+    /** Limits applied to all usage within a guild combined. */
+    guild?: BudgetLimits;
+  };
+  admin_api?: {
+    enable?: boolean;
+    /** Default: 127.0.0.1 */
+    host?: string;
+    /** Default: 8787 */
+    port?: number;
+    /** Bearer token required by every API call. Falls back to ADMIN_API_TOKEN. */
+    token?: string;
+  };
+  /** Settings passed to each extension's `setup`, keyed by extension name. */
+  extensions?: Record<string, Record<string, unknown>>;
   system_prompt?: string | null;
   additional_headers?: {
     user_id?: {
@@ -68,6 +163,14 @@ export type Config = {
   };
 };
 
+/** Budget windows reset at 00:00 UTC (daily) and on the 1st (monthly). */
+export type BudgetLimits = {
+  daily_usd?: number | null;
+  monthly_usd?: number | null;
+  daily_tokens?: number | null;
+  monthly_tokens?: number | null;
+};
+
 export type ProviderConfig = Record<string, unknown> & {
   base_url: string;
   api_key?: string;
@@ -98,6 +201,50 @@ export type ModelConfig = Record<string, unknown> & {
    * If set to an empty array, the server will refuse to continue.
    */
   ai_gateway_order?: Array<"anthropic" | "bedrock" | "vertex">;
+
+  /**
+   * Models to try, in order, once this model keeps failing.
+   * Overrides the global `fallback_models`.
+   */
+  fallback_models?: string[];
+
+  /**
+   * Context window in tokens, used to trim old messages.
+   * Default: the model's limit on models.dev (no trimming if unknown).
+   */
+  context_window?: number;
+};
+
+/** `0` disables a limit. */
+export type ToolLimitOptions = {
+  /** Default: 120000 */
+  timeout_ms?: number;
+  /** Longer results are cut with a notice. Default: 50000 */
+  max_output_chars?: number;
+  /** Further calls wait for a free slot. Default: unlimited */
+  max_concurrency?: number;
+};
+
+export type ToolOptions = ToolLimitOptions & {
+  /** Ask the author or an admin before each call. */
+  require_approval?: boolean;
+};
+
+/** Set on an MCP server, these apply to each of its tools. */
+export type McpServerOptions = ToolOptions & {
+  /** Expose tools as `<server>__<tool>`. Default: `tools.prefix_tool_names` */
+  prefix_tool_names?: boolean;
+  /** Original tool name → exposed name; wins over the prefix. */
+  rename_tools?: Record<string, string>;
+};
+
+/**
+ * A non-empty `allow` list limits tools to the listed ones; `deny` removes
+ * tools. Every rule that applies to a message must permit a tool.
+ */
+export type ToolScopeRule = {
+  allow?: string[];
+  deny?: string[];
 };
 
 export type LocalMCPConfig = {
@@ -105,13 +252,16 @@ export type LocalMCPConfig = {
   args?: string[];
   env?: Record<string, string>;
   cwd?: string;
-};
+} & McpServerOptions;
 
-export type RemoteMCPConfig = {
+/** What the remote transport gets; other keys (e.g. `headers`) included. */
+export type RemoteMCPTransportConfig = {
   type: "http" | "sse";
   url: string;
 } & Record<string, string | number | boolean>;
 
+export type RemoteMCPConfig = RemoteMCPTransportConfig & McpServerOptions;
+
 export type Providers =
   | "openai"
   | "x-ai"
@@ -142,3 +292,68 @@ export type DbImageCache = {
   original_url: string;
   created_at: number;
 };
+
+export type DbChannelModelOverride = {
+  channel_id: string;
+  guild_id: string | null;
+  provider_model: string;
+  updated_at: number;
+};
+
+export type DbChannelSystemPrompt = {
+  channel_id: string;
+  guild_id: string | null;
+  system_prompt: string;
+  updated_by: string | null;
+  updated_at: number;
+};
+
+export type DbConversationSummary = {
+  anchor_message_id: string;
+  summary: string;
+  provider_model: string;
+  created_at: number;
+};
+
+export type DbUsageLedger = {
+  id: number;
+  message_id: string | null;
+  user_id: string;
+  channel_id: string;
+  guild_id: string | null;
+  provider_model: string;
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  cache_read_tokens: number | null;
+  cache_write_tokens: number | null;
+  reasoning_tokens: number | null;
+  cost_usd: number | null;
+  created_at: number;
+};
+
+export type DbChannelResource = {
+  channel_id: string;
+  uri: string;
+  /** `local_<name>` or `remote_<name>` */
+  server_key: string;
+  guild_id: string | null;
+  attached_by: string | null;
+  attached_at: number;
+};
+
+export type DbBotSetting = {
+  key: string;
+  value: string;
+  updated_at: number;
+};
+
+export type DbToolScope = {
+  scope_type: "channel" | "role" | "user";
+  scope_id: string;
+  guild_id: string | null;
+  tool_name: string;
+  mode: "allow" | "deny";
+  updated_by: string | null;
+  updated_at: number;
+};
@@ -0,0 +1,184 @@
+import type { BudgetLimits, Config } from "../type";
+
+export type BudgetPeriod = "daily" | "monthly";
+export type BudgetScope = "user" | "guild";
+
+export type UsageTotals = {
+  costUsd: number;
+  tokens: number;
+};
+
+export type BudgetViolation = {
+  scope: BudgetScope;
+  period: BudgetPeriod;
+  metric: "usd" | "tokens";
+  limit: number;
+  used: number;
+  resetsAt: number;
+};
+
+export const BUDGET_PERIODS = ["daily", "monthly"] as const;
+
+/** Start of the current budget window (UTC), in epoch milliseconds. */
+export function getBudgetWindowStart(
+  period: BudgetPeriod,
+  now: Date = new Date(),
+): number {
+  if (period === "daily") {
+    return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  }
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1);
+}
+
+/** End of the current budget window (UTC), in epoch milliseconds. */
+export function getBudgetWindowEnd(
+  period: BudgetPeriod,
+  now: Date = new Date(),
+): number {
+  if (period === "daily") {
+    return Date.UTC(
+      now.getUTCFullYear(),
+      now.getUTCMonth(),
+      now.getUTCDate() + 1,
+    );
+  }
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+}
+
+function isLimit(value: number | null | undefined): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+export function hasBudgetLimits(limits: BudgetLimits | undefined): boolean {
+  if (!limits) return false;
+  return (
+    isLimit(limits.daily_usd) ||
+    isLimit(limits.monthly_usd) ||
+    isLimit(limits.daily_tokens) ||
+    isLimit(limits.monthly_tokens)
+  );
+}
+
+/**
+ * Compare recorded usage against the configured limits.
+ * Returns the first exceeded limit (daily before monthly, USD before tokens).
+ */
+export function checkBudgetLimits({
+  scope,
+  limits,
+  totals,
+  now = new Date(),
+}: {
+  scope: BudgetScope;
+  limits: BudgetLimits | undefined;
+  totals: Record<BudgetPeriod, UsageTotals>;
+  now?: Date;
+}): BudgetViolation | null {
+  if (!limits) return null;
+
+  for (const period of BUDGET_PERIODS) {
+    const usdLimit = period === "daily" ? limits.daily_usd : limits.monthly_usd;
+    const tokenLimit =
+      period === "daily" ? limits.daily_tokens : limits.monthly_tokens;
+    const used = totals[period];
+    const resetsAt = getBudgetWindowEnd(period, now);
+
+    if (isLimit(usdLimit) && used.costUsd >= usdLimit) {
+      return {
+        scope,
+        period,
+        metric: "usd",
+        limit: usdLimit,
+        used: used.costUsd,
+        resetsAt,
+      };
+    }
+    if (isLimit(tokenLimit) && used.tokens >= tokenLimit) {
+      return {
+        scope,
+        period,
+        metric: "tokens",
+        limit: tokenLimit,
+        used: used.tokens,
+        resetsAt,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The first budget `userId` has exceeded, on their own or through the usage
+ * of `guildId`. Null if none is, or admins are exempt and `userId` is one.
+ */
+export function getBudgetViolation({
+  budgets,
+  adminIds,
+  userId,
+  guildId,
+  getTotals,
+  now = new Date(),
+}: {
+  budgets: Config["budgets"];
+  adminIds: Set<string>;
+  userId: string;
+  guildId: string | null;
+  getTotals: (filter: {
+    since: number;
+    userId?: string;
+    guildId?: string;
+  }) => UsageTotals;
+  now?: Date;
+}): BudgetViolation | null {
+  if (!budgets) return null;
+  if ((budgets.exempt_admins ?? true) && adminIds.has(userId)) return null;
+
+  const totalsFor = (filter: { userId?: string; guildId?: string }) =>
+    Object.fromEntries(
+      BUDGET_PERIODS.map((period) => [
+        period,
+        getTotals({ ...filter, since: getBudgetWindowStart(period, now) }),
+      ]),
+    ) as Record<BudgetPeriod, UsageTotals>;
+
+  if (hasBudgetLimits(budgets.user)) {
+    const violation = checkBudgetLimits({
+      scope: "user",
+      limits: budgets.user,
+      totals: totalsFor({ userId }),
+      now,
+    });
+    if (violation) return violation;
+  }
+
+  if (guildId && hasBudgetLimits(budgets.guild)) {
+    return checkBudgetLimits({
+      scope: "guild",
+      limits: budgets.guild,
+      totals: totalsFor({ guildId }),
+      now,
+    });
+  }
+
+  return null;
+}
+
+export function formatUsd(value: number): string {
+  return `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`;
+}
+
+export function formatBudgetViolation(violation: BudgetViolation): string {
+  const who = violation.scope === "user" ? "You have" : "This server has";
+  const period = violation.period === "daily" ? "daily" : "monthly";
+  const limit =
+    violation.metric === "usd"
+      ? formatUsd(violation.limit)
+      : `${Intl.NumberFormat("en-US").format(violation.limit)} tokens`;
+  const resetsAt = Math.floor(violation.resetsAt / 1000);
+
+  return (
+    `${who} reached the ${period} usage limit (${limit}). ` +
+    `It resets <t:${resetsAt}:R>.`
+  );
+}
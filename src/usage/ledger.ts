@@ -0,0 +1,157 @@
+import type { Database } from "bun:sqlite";
+import type { LanguageModelUsage } from "ai";
+import type { DbUsageLedger } from "../type";
+import type { UsageTotals } from "./budget";
+
+export type UsageSummaryRow = {
+  key: string;
+  requests: number;
+  tokens: number;
+  cost_usd: number;
+  /** Requests whose cost could not be estimated (model has no pricing). */
+  unpriced: number;
+};
+
+type UsageFilter = {
+  since?: number;
+  userId?: string;
+  guildId?: string;
+};
+
+function buildWhere({ since, userId, guildId }: UsageFilter) {
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+  if (since !== undefined) {
+    conditions.push("created_at >= ?");
+    params.push(since);
+  }
+  if (userId !== undefined) {
+    conditions.push("user_id = ?");
+    params.push(userId);
+  }
+  if (guildId !== undefined) {
+    conditions.push("guild_id = ?");
+    params.push(guildId);
+  }
+  return {
+    where: conditions.length ? `WHERE ${conditions.join(" AND ")}` : "",
+    params,
+  };
+}
+
+const SUMMARY_COLUMNS = `
+  COUNT(*) AS requests,
+  COALESCE(SUM(total_tokens), 0) AS tokens,
+  COALESCE(SUM(cost_usd), 0) AS cost_usd,
+  SUM(CASE WHEN cost_usd IS NULL THEN 1 ELSE 0 END) AS unpriced
+`;
+
+export class UsageLedgerOperator {
+  constructor(private db: Database) {
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS usage_ledger (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        message_id TEXT,
+        user_id TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        guild_id TEXT,
+        provider_model TEXT NOT NULL,
+        input_tokens INTEGER NOT NULL,
+        output_tokens INTEGER NOT NULL,
+        total_tokens INTEGER NOT NULL,
+        cache_read_tokens INTEGER,
+        cache_write_tokens INTEGER,
+        reasoning_tokens INTEGER,
+        cost_usd REAL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS usage_ledger_user_id_created_at_idx
+      ON usage_ledger (user_id, created_at)
+    `);
+    this.db.run(`
+      CREATE INDEX IF NOT EXISTS usage_ledger_guild_id_created_at_idx
+      ON usage_ledger (guild_id, created_at)
+    `);
+  }
+
+  record({
+    messageId,
+    userId,
+    channelId,
+    guildId,
+    providerModel,
+    usage,
+    costUsd,
+  }: {
+    messageId?: string | null;
+    userId: string;
+    channelId: string;
+    guildId: string | null;
+    providerModel: string;
+    usage: LanguageModelUsage;
+    costUsd: number | null;
+  }) {
+    const inputTokens = usage.inputTokens ?? 0;
+    const outputTokens = usage.outputTokens ?? 0;
+    this.db.run(
+      "INSERT INTO usage_ledger (message_id, user_id, channel_id, guild_id, provider_model, input_tokens, output_tokens, total_tokens, cache_read_tokens, cache_write_tokens, reasoning_tokens, cost_usd, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)",
+      [
+        messageId ?? null,
+        userId,
+        channelId,
+        guildId,
+        providerModel,
+        inputTokens,
+        outputTokens,
+        usage.totalTokens ?? inputTokens + outputTokens,
+        usage.inputTokenDetails?.cacheReadTokens ?? null,
+        usage.inputTokenDetails?.cacheWriteTokens ?? null,
+        usage.outputTokenDetails?.reasoningTokens ?? null,
+        costUsd,
+        Date.now(),
+      ],
+    );
+  }
+
+  getTotals(filter: UsageFilter): UsageTotals {
+    const { where, params } = buildWhere(filter);
+    const row = this.db
+      .query(
+        `SELECT COALESCE(SUM(cost_usd), 0) AS cost_usd, COALESCE(SUM(total_tokens), 0) AS tokens FROM usage_ledger ${where}`,
+      )
+      .get(...params) as { cost_usd: number; tokens: number } | null;
+    return { costUsd: row?.cost_usd ?? 0, tokens: row?.tokens ?? 0 };
+  }
+
+  getRecent(limit = 50) {
+    return this.db
+      .query(
+        `SELECT * FROM usage_ledger ORDER BY created_at DESC, id DESC LIMIT ?`,
+      )
+      .all(limit) as DbUsageLedger[];
+  }
+
+  summarize(filter: UsageFilter, limit = 10) {
+    const { where, params } = buildWhere(filter);
+
+    const total = this.db
+      .query(
+        `SELECT 'total' AS key, ${SUMMARY_COLUMNS} FROM usage_ledger ${where}`,
+      )
+      .get(...params) as UsageSummaryRow;
+    const byUser = this.db
+      .query(
+        `SELECT user_id AS key, ${SUMMARY_COLUMNS} FROM usage_ledger ${where} GROUP BY user_id ORDER BY cost_usd DESC, tokens DESC LIMIT ?`,
+      )
+      .all(...params, limit) as UsageSummaryRow[];
+    const byModel = this.db
+      .query(
+        `SELECT provider_model AS key, ${SUMMARY_COLUMNS} FROM usage_ledger ${where} GROUP BY provider_model ORDER BY cost_usd DESC, tokens DESC LIMIT ?`,
+      )
+      .all(...params, limit) as UsageSummaryRow[];
+
+    return { total, byUser, byModel };
+  }
+}
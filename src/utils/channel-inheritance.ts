@@ -0,0 +1,27 @@
+export type ChannelRef = {
+  id: string;
+  parentId?: string | null;
+};
+
+/**
+ * Look up a channel-scoped override with thread inheritance:
+ * - A thread's own override wins
+ * - Otherwise a thread inherits its parent channel's override
+ * - Returns null when neither is set
+ */
+export function resolveChannelOverride<T>(
+  channel: ChannelRef,
+  overrides: Map<string, T>,
+): { channelId: string; value: T } | null {
+  const own = overrides.get(channel.id);
+  if (own !== undefined) return { channelId: channel.id, value: own };
+
+  if (channel.parentId) {
+    const parent = overrides.get(channel.parentId);
+    if (parent !== undefined) {
+      return { channelId: channel.parentId, value: parent };
+    }
+  }
+
+  return null;
+}
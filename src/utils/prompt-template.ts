@@ -0,0 +1,32 @@
+export type SystemPromptVariables = {
+  date: string;
+  time: string;
+  channel_name: string;
+  channel_id: string;
+  guild_name: string;
+  guild_id: string;
+};
+
+export const SYSTEM_PROMPT_PLACEHOLDERS = [
+  "date",
+  "time",
+  "channel_name",
+  "channel_id",
+  "guild_name",
+  "guild_id",
+] as const satisfies ReadonlyArray<keyof SystemPromptVariables>;
+
+/**
+ * Replace every `{placeholder}` occurrence with its value. Unknown
+ * placeholders are left untouched so prompts can still contain braces.
+ */
+export function renderSystemPrompt(
+  template: string,
+  variables: SystemPromptVariables,
+): string {
+  return template.replace(/\{([a-z_]+)\}/g, (match, key: string) =>
+    Object.hasOwn(variables, key)
+      ? variables[key as keyof SystemPromptVariables]
+      : match,
+  );
+}
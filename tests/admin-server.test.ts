@@ -0,0 +1,104 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  createAdminFetchHandler,
+  type AdminApiContext,
+} from "../src/admin-server";
+
+const TOKEN = "s3cret";
+
+function makeContext() {
+  const calls: string[] = [];
+  const ctx: AdminApiContext = {
+    getModels: () => ({
+      default: "openai/gpt-5",
+      global: "openai/gpt-5",
+      perChannelModel: true,
+      configured: ["openai/gpt-5"],
+      overrides: [],
+    }),
+    getTools: async () => [
+      { name: "fetch", description: "Fetch a URL", disabled: false },
+    ],
+    getRecentGenerations: (limit) => {
+      calls.push(`generations:${limit}`);
+      return [];
+    },
+    getConfigStatus: async () => ({ ok: true, errors: [], warnings: [] }),
+    reloadTools: async () => {
+      calls.push("reload");
+    },
+  };
+  return { ctx, calls };
+}
+
+function request(path: string, init: RequestInit & { token?: string } = {}) {
+  const { token = TOKEN, ...rest } = init;
+  return new Request(`http://localhost${path}`, {
+    ...rest,
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+}
+
+describe("admin API", () => {
+  test("rejects requests without a valid token", async () => {
+    const { ctx } = makeContext();
+    const handle = createAdminFetchHandler(ctx, { token: TOKEN });
+
+    expect((await handle(request("/api/models", { token: "" }))).status).toBe(
+      401,
+    );
+    expect(
+      (await handle(request("/api/models", { token: "wrong" }))).status,
+    ).toBe(401);
+  });
+
+  test("serves the dashboard without a token", async () => {
+    const { ctx } = makeContext();
+    const handle = createAdminFetchHandler(ctx, { token: TOKEN });
+
+    const res = await handle(request("/", { token: "" }));
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("text/html");
+  });
+
+  test("returns models and tools", async () => {
+    const { ctx } = makeContext();
+    const handle = createAdminFetchHandler(ctx, { token: TOKEN });
+
+    const models = (await (await handle(request("/api/models"))).json()) as {
+      global: string;
+    };
+    expect(models.global).toBe("openai/gpt-5");
+
+    const tools = (await (await handle(request("/api/tools"))).json()) as {
+      tools: unknown[];
+    };
+    expect(tools.tools).toEqual([
+      { name: "fetch", description: "Fetch a URL", disabled: false },
+    ]);
+  });
+
+  test("caps and validates the generations limit", async () => {
+    const { ctx, calls } = makeContext();
+    const handle = createAdminFetchHandler(ctx, { token: TOKEN });
+
+    expect((await handle(request("/api/generations?limit=10000"))).status).toBe(
+      200,
+    );
+    expect(calls).toEqual(["generations:500"]);
+    expect((await handle(request("/api/generations?limit=abc"))).status).toBe(
+      400,
+    );
+  });
+
+  test("reloads tools only on POST", async () => {
+    const { ctx, calls } = makeContext();
+    const handle = createAdminFetchHandler(ctx, { token: TOKEN });
+
+    expect((await handle(request("/api/tools/reload"))).status).toBe(404);
+    const res = await handle(request("/api/tools/reload", { method: "POST" }));
+    expect(res.status).toBe(200);
+    expect(calls).toEqual(["reload"]);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  interpolateConfig,
+  interpolateString,
+  type InterpolationSources,
+} from "../src/config-interpolation";
+
+const sources: InterpolationSources = {
+  env: { BOT_TOKEN: "abc", EMPTY: "" },
+  readFile: async (path) => {
+    if (path === "/run/secrets/openai") return "sk-123\n";
+    throw new Error("ENOENT");
+  },
+};
+
+describe("config interpolation", () => {
+  test("resolves env variables, defaults and files", async () => {
+    expect(await interpolateString("${BOT_TOKEN}", sources)).toBe("abc");
+    expect(await interpolateString("${MISSING:-x}", sources)).toBe("x");
+    expect(await interpolateString("${EMPTY:-x}", sources)).toBe("x");
+    expect(await interpolateString("${EMPTY}", sources)).toBe("");
+    expect(
+      await interpolateString("Bearer ${file:/run/secrets/openai}", sources),
+    ).toBe("Bearer sk-123");
+  });
+
+  test("keeps escaped placeholders literal", async () => {
+    expect(await interpolateString("$${BOT_TOKEN} ${BOT_TOKEN}", sources)).toBe(
+      "${BOT_TOKEN} abc",
+    );
+  });
+
+  test("interpolates nested strings and reports failures by path", async () => {
+    const { value, errors } = await interpolateConfig(
+      {
+        bot_token: "${BOT_TOKEN}",
+        max_steps: 10,
+        providers: { openai: { api_key: "${file:/run/secrets/openai}" } },
+        tools: {
+          local_mcp: { fs: { command: "mcp", env: { TOKEN: "${NOPE}" } } },
+          remote_mcp: {
+            docs: { headers: { Authorization: "${file:/missing}" } },
+          },
+        },
+        admin_ids: ["${BOT_TOKEN}"],
+      },
+      sources,
+    );
+
+    expect(value).toMatchObject({
+      bot_token: "abc",
+      max_steps: 10,
+      providers: { openai: { api_key: "sk-123" } },
+      admin_ids: ["abc"],
+    });
+    expect(errors).toEqual([
+      "tools.local_mcp.fs.env.TOKEN: environment variable NOPE is not set",
+      "tools.remote_mcp.docs.headers.Authorization: cannot read /missing: ENOENT",
+    ]);
+  });
+
+  test("rejects malformed placeholders", async () => {
+    await expect(interpolateString("${not valid}", sources)).rejects.toThrow(
+      "invalid placeholder",
+    );
+  });
+});
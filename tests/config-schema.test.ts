@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  ConfigValidationError,
+  formatConfigPath,
+  validateConfig,
+} from "../src/config-schema";
+
+async function loadExample() {
+  const text = await Bun.file(
+    new URL("../config-example.yaml", import.meta.url),
+  ).text();
+  return Bun.YAML.parse(text) as Record<string, any>;
+}
+
+describe("config schema", () => {
+  test("accepts config-example.yaml", async () => {
+    expect(validateConfig(await loadExample())).toEqual({
+      errors: [],
+      warnings: [],
+    });
+  });
+
+  test("reports a misspelled section with its path", async () => {
+    const config = await loadExample();
+    config.permisions = config.permissions;
+    delete config.permissions;
+
+    const { errors, warnings } = validateConfig(config);
+    expect(warnings).toEqual(["permisions: unknown key (typo?)"]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toStartWith("permissions: ");
+  });
+
+  test("detects IDs that lost precision", async () => {
+    const config = await loadExample();
+    const parsed = Bun.YAML.parse(
+      "client_id: 1234567890123456789\nadmin_ids: [123]",
+    ) as { client_id: number; admin_ids: number[] };
+    config.client_id = parsed.client_id;
+    config.permissions.users.admin_ids = parsed.admin_ids;
+
+    const { errors, warnings } = validateConfig(config);
+    expect(errors).toEqual([
+      expect.stringMatching(/^client_id: lost precision/),
+    ]);
+    expect(warnings).toEqual([
+      "permissions.users.admin_ids[0]: IDs should be quoted in YAML to avoid precision loss",
+    ]);
+  });
+
+  test("reports every issue at once", async () => {
+    const config = await loadExample();
+    config.max_messages = "25";
+    config.models["gpt-5"] = {};
+    config.tools.remote_mcp.context7.type = "websocket";
+
+    const { errors } = validateConfig(config);
+    expect(errors.map((e) => e.slice(0, e.indexOf(":")))).toEqual([
+      "max_messages",
+      "models.gpt-5",
+      "tools.remote_mcp.context7.type",
+    ]);
+  });
+
+  test("rejects a config that is not a mapping", () => {
+    expect(validateConfig(null).errors).toEqual([
+      "config.yaml must be a YAML mapping",
+    ]);
+  });
+
+  test("formats paths", () => {
+    expect(formatConfigPath(["models", "openai/gpt-5", "tools"])).toBe(
+      'models["openai/gpt-5"].tools',
+    );
+    expect(formatConfigPath([])).toBe("(root)");
+    expect(new ConfigValidationError(["a: b"]).message).toBe(
+      "Invalid config.yaml (1 issue):\n  - a: b",
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+import type { ModelMessage } from "ai";
+
+import {
+  estimateMessageTokens,
+  fitMessagesToContextWindow,
+  getInputTokenBudget,
+} from "../src/context-window";
+
+const text = (role: "user" | "assistant", chars: number): ModelMessage => ({
+  role,
+  content: "x".repeat(chars),
+});
+
+describe("context window", () => {
+  test("estimates roughly four characters per token", () => {
+    expect(estimateMessageTokens(text("user", 400))).toBe(104);
+    expect(
+      estimateMessageTokens({
+        role: "user",
+        content: [
+          { type: "text", text: "x".repeat(40) },
+          { type: "image", image: new URL("https://example.com/a.png") },
+        ],
+      }),
+    ).toBe(4 + 10 + 1_000);
+  });
+
+  test("reserves output tokens from the context window", () => {
+    expect(
+      getInputTokenBudget({ contextWindow: 10_000, maxOutputTokens: 2_000 }),
+    ).toBe(7_200);
+    // default reservation is capped at a quarter of the window
+    expect(
+      getInputTokenBudget({ contextWindow: 200_000, outputLimit: 128_000 }),
+    ).toBe(135_000);
+  });
+
+  test("keeps everything when it fits", () => {
+    const messages = [text("user", 40), text("assistant", 40)];
+    const fitted = fitMessagesToContextWindow({ messages, budget: 1_000 });
+    expect(fitted.droppedCount).toBe(0);
+    expect(fitted.messages).toBe(messages);
+  });
+
+  test("drops the oldest turns first and keeps system messages", () => {
+    // newest first
+    const messages: ModelMessage[] = [
+      text("user", 400), // current message
+      text("assistant", 400),
+      text("user", 400),
+      text("assistant", 400),
+      text("user", 400), // oldest turn
+      { role: "system", content: "be nice" },
+    ];
+    const fitted = fitMessagesToContextWindow({
+      messages,
+      budget: 350,
+    });
+    expect(fitted.droppedCount).toBe(2);
+    expect(fitted.messages).toEqual([
+      messages[0]!,
+      messages[1]!,
+      messages[2]!,
+      messages[5]!,
+    ]);
+  });
+
+  test("does not leave an assistant message as the oldest turn", () => {
+    const messages = [
+      text("user", 400),
+      text("assistant", 400),
+      text("user", 400),
+      text("assistant", 400),
+    ];
+    const fitted = fitMessagesToContextWindow({ messages, budget: 250 });
+    expect(fitted.messages).toEqual([messages[0]!]);
+  });
+
+  test("counts tool definitions against the budget", () => {
+    const messages = [text("user", 400), text("assistant", 400)];
+    expect(
+      fitMessagesToContextWindow({ messages, budget: 250 }).droppedCount,
+    ).toBe(0);
+    expect(
+      fitMessagesToContextWindow({ messages, budget: 250, reservedTokens: 100 })
+        .droppedCount,
+    ).toBe(1);
+  });
+
+  test("never drops the current message", () => {
+    const messages = [text("user", 4_000)];
+    const fitted = fitMessagesToContextWindow({ messages, budget: 10 });
+    expect(fitted.messages).toEqual(messages);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "bun:test";
+import {
+  findForbiddenImports,
+  findUnguardedApis,
+  isHostAllowed,
+  isPathAllowed,
+  parseExtensionManifest,
+  pickEnv,
+} from "../src/extension-permissions";
+
+describe("parseExtensionManifest", () => {
+  it("fills in defaults", () => {
+    expect(parseExtensionManifest({})).toEqual({
+      permissions: {
+        network: [],
+        filesystem: { read: [], write: [] },
+        env: [],
+      },
+      timeout_seconds: 30,
+    });
+  });
+
+  it("reports invalid fields with their path", () => {
+    expect(() =>
+      parseExtensionManifest({ permissions: { network: "x" } }),
+    ).toThrow("permissions.network");
+    expect(() => parseExtensionManifest({ sandbox: true })).toThrow(
+      "Invalid manifest",
+    );
+  });
+});
+
+describe("isHostAllowed", () => {
+  it("matches exact hosts and wildcard subdomains", () => {
+    const hosts = ["api.example.com", "*.weather.dev"];
+    expect(isHostAllowed("https://API.example.com/v1", hosts)).toBe(true);
+    expect(isHostAllowed("https://eu.weather.dev", hosts)).toBe(true);
+    expect(isHostAllowed("https://weather.dev", hosts)).toBe(false);
+    expect(isHostAllowed("https://example.com", hosts)).toBe(false);
+    expect(isHostAllowed("https://evilweather.dev", hosts)).toBe(false);
+    expect(isHostAllowed("not a url", ["*"])).toBe(false);
+  });
+});
+
+describe("isPathAllowed", () => {
+  it("allows listed paths and their children only", () => {
+    const allowed = ["data", "./cache/file.json"];
+    expect(isPathAllowed("data", allowed, "/app")).toBe(true);
+    expect(isPathAllowed("data/a/b.txt", allowed, "/app")).toBe(true);
+    expect(isPathAllowed("/app/cache/file.json", allowed, "/app")).toBe(true);
+    expect(isPathAllowed("data/../config.yaml", allowed, "/app")).toBe(false);
+    expect(isPathAllowed("database", allowed, "/app")).toBe(false);
+    expect(isPathAllowed("data", [], "/app")).toBe(false);
+  });
+});
+
+describe("pickEnv", () => {
+  it("copies only listed variables that are set", () => {
+    expect(pickEnv({ A: "1", B: "2" }, ["A", "C"])).toEqual({ A: "1" });
+  });
+});
+
+describe("findForbiddenImports", () => {
+  it("rejects builtins with system access", () => {
+    expect(
+      findForbiddenImports([
+        "ai",
+        "zod",
+        "./helper",
+        "node:path",
+        "crypto",
+        "fs",
+        "node:fs/promises",
+        "child_process",
+        "bun:sqlite",
+        "bun",
+      ]),
+    ).toEqual(["fs", "node:fs/promises", "child_process", "bun:sqlite", "bun"]);
+  });
+});
+
+describe("findUnguardedApis", () => {
+  it("finds Bun.fetch however it is reached", () => {
+    expect(findUnguardedApis(`await Bun.fetch(url);`)).toEqual(["Bun.fetch"]);
+    expect(findUnguardedApis(`Bun["fetch"](url);`)).toEqual(["Bun.fetch"]);
+    expect(findUnguardedApis(`const { fetch: f } = Bun;`)).toEqual([
+      "Bun.fetch",
+    ]);
+  });
+
+  it("finds import() of a computed specifier", () => {
+    expect(findUnguardedApis(`await import(["f", "s"].join(""));`)).toEqual([
+      "import() with a computed specifier",
+    ]);
+    expect(findUnguardedApis("await import(`node:${name}`);")).toEqual([
+      "import() with a computed specifier",
+    ]);
+    expect(
+      findUnguardedApis(`await import("./helper.js"); import.meta.url;`),
+    ).toEqual([]);
+    expect(
+      findUnguardedApis(
+        `await import("./data.json", { with: { type: "json" } });`,
+      ),
+    ).toEqual([]);
+  });
+
+  it("allows the guarded fetch", () => {
+    expect(findUnguardedApis(`await fetch(url); Bun.fetchLater;`)).toEqual([]);
+  });
+});
@@ -0,0 +1,182 @@
+import { afterAll, beforeAll, describe, expect, it, mock } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import type { Tool } from "ai";
+import { parseExtensionManifest } from "../src/extension-permissions";
+import { SandboxedExtension } from "../src/extension-sandbox";
+import type { Logger } from "../src/logger";
+
+const EXTENSION = `
+export default {
+  setup: (ctx) => ({
+    echo: { execute: async (input) => input },
+    spin: { execute: async () => { while (true) {} } },
+    crash: {
+      execute: () => {
+        setTimeout(() => { throw new Error("boom"); });
+        return new Promise(() => {});
+      },
+    },
+    read: { execute: ({ file }) => ctx.fs.readFile(file) },
+    fetch: { execute: ({ url }) => fetch(url).then((r) => r.text()) },
+    shell: { execute: () => Bun.$\`echo hi\` },
+    require: { execute: ({ id }) => { require(id); return "loaded"; } },
+    worker: { execute: () => { new Worker("./other.ts"); } },
+    eval: { execute: () => eval('import("fs")') },
+    function: { execute: () => (async () => {}).constructor('return import("fs")')() },
+  }),
+};
+`;
+
+let dir: string;
+let server: ReturnType<typeof Bun.serve>;
+const running: SandboxedExtension[] = [];
+
+beforeAll(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "sandbox-"));
+  writeFileSync(path.join(dir, "tools.js"), EXTENSION);
+  server = Bun.serve({
+    port: 0,
+    fetch(req) {
+      const { pathname } = new URL(req.url);
+      if (pathname === "/hop") return Response.redirect("/ok", 302);
+      if (pathname === "/away") {
+        return Response.redirect(`http://127.0.0.1:${server.port}/ok`, 302);
+      }
+      return new Response("ok");
+    },
+  });
+});
+
+afterAll(async () => {
+  await Promise.all(running.map((s) => s.stop()));
+  server.stop(true);
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function sandbox(file = "tools.js", timeout_seconds = 5) {
+  const logger = { logError: mock(() => {}) };
+  const extension = new SandboxedExtension({
+    name: "tools",
+    file: path.join(dir, file),
+    config: {},
+    manifest: parseExtensionManifest({
+      permissions: { network: ["localhost"] },
+      timeout_seconds,
+    }),
+    logger: logger as unknown as Logger,
+    logLevel: "error",
+  });
+  running.push(extension);
+  return { extension, logger };
+}
+
+function call(tools: Record<string, Tool>, name: string, input: unknown = {}) {
+  return tools[name]!.execute!(input, { toolCallId: "1", messages: [] });
+}
+
+/** `expect().rejects` stops worker messages from arriving, so catch instead. */
+async function failure(promise: PromiseLike<unknown>) {
+  try {
+    await promise;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+  throw new Error("Expected a rejection");
+}
+
+describe("SandboxedExtension", () => {
+  it("runs tools in the worker", async () => {
+    const tools = await sandbox().extension.start();
+    expect(await call(tools, "echo", { hello: "world" })).toEqual({
+      hello: "world",
+    });
+  });
+
+  it("stops a tool that runs too long and restarts on the next call", async () => {
+    const { extension, logger } = sandbox("tools.js", 1);
+    const tools = await extension.start();
+
+    expect(await failure(call(tools, "spin"))).toContain("timed out after 1s");
+    expect(logger.logError).toHaveBeenCalled();
+    expect(await call(tools, "echo", { n: 1 })).toEqual({ n: 1 });
+  });
+
+  it("fails pending calls when the worker crashes", async () => {
+    const { extension, logger } = sandbox();
+    const tools = await extension.start();
+
+    expect(await failure(call(tools, "crash"))).toContain("crashed");
+    expect(logger.logError).toHaveBeenCalled();
+    expect(await call(tools, "echo", { n: 2 })).toEqual({ n: 2 });
+  });
+
+  it("limits files to the manifest", async () => {
+    const tools = await sandbox().extension.start();
+    expect(
+      await failure(call(tools, "read", { file: "package.json" })),
+    ).toContain("Read access to package.json is not allowed by the manifest");
+  });
+
+  it("checks the host of every redirect", async () => {
+    const tools = await sandbox().extension.start();
+    const base = `http://localhost:${server.port}`;
+
+    expect(await call(tools, "fetch", { url: `${base}/hop` })).toBe("ok");
+    expect(
+      await failure(call(tools, "fetch", { url: `${base}/away` })),
+    ).toContain(
+      `Network access to http://127.0.0.1:${server.port}/ok is not allowed`,
+    );
+    expect(
+      await failure(call(tools, "fetch", { url: "https://example.com" })),
+    ).toContain("not allowed by the manifest");
+  });
+
+  it("disables APIs that bypass the manifest", async () => {
+    const tools = await sandbox().extension.start();
+
+    expect(await failure(call(tools, "shell"))).toContain(
+      "Bun.$ is not available",
+    );
+    expect(await failure(call(tools, "worker"))).toContain(
+      "Worker is not available",
+    );
+    expect(
+      await failure(call(tools, "require", { id: "child_process" })),
+    ).toContain("child_process is not available");
+    expect(await call(tools, "require", { id: "path" })).toBe("loaded");
+    expect(await failure(call(tools, "eval"))).toContain(
+      "eval is not available",
+    );
+    expect(await failure(call(tools, "function"))).toContain(
+      "The Function constructor is not available",
+    );
+  });
+
+  it("refuses to start code that imports a computed module", async () => {
+    writeFileSync(
+      path.join(dir, "computed-import.js"),
+      `export default () => ({
+        read: { execute: async () => (await import(["f", "s"].join(""))).readFileSync("/etc/hostname", "utf8") },
+        connect: { execute: async () => typeof (await import("node:" + "net")).connect },
+      });`,
+    );
+    const error = await failure(
+      sandbox("computed-import.js").extension.start(),
+    );
+    expect(error).toContain("import() with a computed specifier");
+    expect(error).toContain("node:net");
+  });
+
+  it("refuses to start code that uses Bun.fetch", async () => {
+    writeFileSync(
+      path.join(dir, "raw-fetch.js"),
+      `export default () => ({ get: { execute: () => Bun.fetch("https://example.com") } });`,
+    );
+    expect(await failure(sandbox("raw-fetch.js").extension.start())).toContain(
+      "may not use Bun.fetch",
+    );
+  });
+});
@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import type { ModelMessage } from "ai";
+import type { Message } from "discord.js";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import {
+  ExtensionHost,
+  formatExtensionErrors,
+  type ExtensionContext,
+} from "../src/extensions";
+
+let dir: string;
+let configs: Record<string, Record<string, unknown>>;
+
+function host() {
+  return new ExtensionHost(dir, async () => ({
+    log_level: "error",
+    extensions: configs,
+  }));
+}
+
+function writeExtension(name: string, source: string) {
+  writeFileSync(path.join(dir, `${name}.ts`), source);
+}
+
+const hookCtx = { message: {} as Message, providerModel: "openai/test" };
+
+function userMessage(content: string): ModelMessage {
+  return { role: "user", content };
+}
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "extensions-"));
+  configs = {};
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe("ExtensionHost", () => {
+  it("loads a default function returning tools", async () => {
+    writeExtension(
+      "legacy",
+      `export default () => ({ ping: { description: "ping" } });`,
+    );
+    const extensions = host();
+    await extensions.load();
+
+    expect(Object.keys(extensions.getTools().legacy!)).toEqual(["ping"]);
+    expect(extensions.getErrors()).toEqual([]);
+  });
+
+  it("passes extensions.<name> to setup", async () => {
+    let received: ExtensionContext | null = null;
+    configs.weather = {
+      unit: "fahrenheit",
+      onSetup: (ctx: ExtensionContext) => (received = ctx),
+    };
+    writeExtension(
+      "weather",
+      `export default { setup: (ctx) => { ctx.config.onSetup(ctx); } };`,
+    );
+    await host().load();
+
+    expect(received!.name).toBe("weather");
+    expect(received!.config.unit).toBe("fahrenheit");
+  });
+
+  it("chains beforeGenerate and uses the returned messages", async () => {
+    writeExtension(
+      "a",
+      `export default {
+        beforeGenerate: (messages) => [...messages, { role: "user", content: "from a" }],
+      };`,
+    );
+    writeExtension(
+      "b",
+      `export default {
+        beforeGenerate: (messages) => [...messages, { role: "user", content: "from b" }],
+      };`,
+    );
+    writeExtension("c", `export default { beforeGenerate: () => {} };`);
+    const extensions = host();
+    await extensions.load();
+
+    const messages = await extensions.beforeGenerate(
+      [userMessage("hi")],
+      hookCtx,
+    );
+    const contents = messages.map((m) => m.content);
+    expect(contents).toHaveLength(3);
+    expect(contents[0]).toBe("hi");
+    expect(contents).toContain("from a");
+    expect(contents).toContain("from b");
+  });
+
+  it("logs a throwing hook without failing the caller", async () => {
+    let logger: ExtensionContext["logger"] | null = null;
+    configs.broken = {
+      onSetup: (ctx: ExtensionContext) => (logger = ctx.logger),
+    };
+    writeExtension(
+      "broken",
+      `export default {
+        setup: (ctx) => { ctx.config.onSetup(ctx); },
+        beforeGenerate: () => { throw new Error("boom"); },
+        afterGenerate: async () => { throw new Error("boom"); },
+      };`,
+    );
+    const extensions = host();
+    await extensions.load();
+    const logError = spyOn(logger!, "logError").mockImplementation(() => {});
+
+    const messages = [userMessage("hi")];
+    expect(await extensions.beforeGenerate(messages, hookCtx)).toBe(messages);
+    await extensions.afterGenerate(
+      { text: "", messages: [], usage: null, messageIds: [] },
+      hookCtx,
+    );
+    expect(logError).toHaveBeenCalledTimes(2);
+    expect(String(logError.mock.calls[0]![0])).toContain("beforeGenerate");
+  });
+
+  it("runs teardown on unload", async () => {
+    let tornDown = 0;
+    configs.cleanup = { onTeardown: () => tornDown++ };
+    writeExtension(
+      "cleanup",
+      `let config;
+      export default {
+        setup: (ctx) => { config = ctx.config; },
+        teardown: () => config.onTeardown(),
+      };`,
+    );
+    const extensions = host();
+    await extensions.load();
+    expect(tornDown).toBe(0);
+
+    await extensions.unload();
+    expect(tornDown).toBe(1);
+    expect(extensions.getTools()).toEqual({});
+  });
+});
+
+describe("ExtensionHost reloads", () => {
+  it("replaces the tools of a reloaded extension", async () => {
+    let tornDown = 0;
+    configs.weather = { onTeardown: () => tornDown++ };
+    const source = (tool: string) =>
+      `let config;
+      export default {
+        setup: (ctx) => { config = ctx.config; return { ${tool}: {} }; },
+        teardown: () => config.onTeardown(),
+      };`;
+    writeExtension("weather", source("forecast"));
+    const extensions = host();
+    await extensions.load();
+
+    writeExtension("weather", source("radar"));
+    await extensions.load();
+    expect(Object.keys(extensions.getTools().weather!)).toEqual(["radar"]);
+    expect(tornDown).toBe(1);
+  });
+
+  it("keeps the running version when the new one fails to import", async () => {
+    writeExtension("weather", `export default () => ({ forecast: {} });`);
+    const extensions = host();
+    await extensions.load();
+
+    writeExtension("weather", `export default () => ({ forecast: {`);
+    await extensions.load();
+    expect(Object.keys(extensions.getTools().weather!)).toEqual(["forecast"]);
+    expect(extensions.getErrors().map((e) => e.name)).toEqual(["weather"]);
+
+    writeExtension("weather", `export default () => ({ radar: {} });`);
+    await extensions.load();
+    expect(Object.keys(extensions.getTools().weather!)).toEqual(["radar"]);
+    expect(extensions.getErrors()).toEqual([]);
+  });
+
+  it("lists failed extensions in /list-tools", async () => {
+    writeExtension("broken", `throw new Error("missing API key\\nstack");`);
+    const extensions = host();
+    await extensions.load();
+
+    expect(formatExtensionErrors(extensions.getErrors())).toEqual([
+      "**Extensions that failed to load**",
+      "- ⚠️ `broken`: missing API key",
+    ]);
+    expect(formatExtensionErrors([])).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  diffMcpServers,
+  getMcpServerDefinitions,
+  splitMcpServerConfig,
+} from "../src/mcp-config";
+
+describe("MCP server config", () => {
+  test("keys servers by kind and name", () => {
+    const servers = getMcpServerDefinitions({
+      local_mcp: { fs: { command: "mcp-fs" } },
+      remote_mcp: { fs: { type: "http", url: "https://example.com/mcp" } },
+    });
+    expect([...servers.keys()]).toEqual(["local_fs", "remote_fs"]);
+    expect(getMcpServerDefinitions(undefined).size).toBe(0);
+  });
+
+  test("diffs added, removed and changed servers", () => {
+    const { added, removed, changed } = diffMcpServers(
+      {
+        local_mcp: {
+          fs: { command: "mcp-fs", args: ["/data"] },
+          git: { command: "mcp-git" },
+        },
+        remote_mcp: { docs: { type: "http", url: "https://a.example/mcp" } },
+      },
+      {
+        local_mcp: {
+          fs: { command: "mcp-fs", args: ["/srv"] },
+          time: { command: "mcp-time" },
+        },
+        remote_mcp: { docs: { type: "http", url: "https://a.example/mcp" } },
+      },
+    );
+
+    expect(added.map((s) => s.name)).toEqual(["time"]);
+    expect(removed.map((s) => s.name)).toEqual(["git"]);
+    expect(changed.map((s) => s.name)).toEqual(["fs"]);
+  });
+
+  test("reports nothing when the tools section is unchanged", () => {
+    const tools = { local_mcp: { fs: { command: "mcp-fs" } } };
+    expect(diffMcpServers(tools, structuredClone(tools))).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+    });
+  });
+
+  test("separates server options from the transport config", () => {
+    expect(
+      splitMcpServerConfig({
+        type: "http",
+        url: "https://example.com/mcp",
+        headers: "x",
+        timeout_ms: 1000,
+        require_approval: true,
+      }),
+    ).toEqual({
+      options: { timeout_ms: 1000, require_approval: true },
+      transport: { type: "http", url: "https://example.com/mcp", headers: "x" },
+    });
+  });
+
+  test("does not restart servers when only server options change", () => {
+    expect(
+      diffMcpServers(
+        { local_mcp: { fs: { command: "mcp-fs" } } },
+        { local_mcp: { fs: { command: "mcp-fs", timeout_ms: 5000 } } },
+      ).changed,
+    ).toEqual([]);
+  });
+});
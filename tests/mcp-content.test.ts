@@ -0,0 +1,136 @@
+import { describe, expect, it } from "bun:test";
+import {
+  formatAttachedResources,
+  parsePromptArguments,
+  promptMessagesToModelMessages,
+  resourceContentsToText,
+} from "../src/mcp-content";
+
+const args = [
+  { name: "topic", required: true },
+  { name: "tone", required: false },
+];
+
+describe("parsePromptArguments", () => {
+  it("parses name=value pairs", () => {
+    expect(
+      parsePromptArguments("topic=cats, dogs, tone = formal", args),
+    ).toEqual({ topic: "cats, dogs", tone: "formal" });
+  });
+
+  it("parses JSON objects", () => {
+    expect(parsePromptArguments('{"topic": "cats", "tone": 1}', args)).toEqual({
+      topic: "cats",
+      tone: "1",
+    });
+    expect(() => parsePromptArguments("{nope", args)).toThrow("not valid JSON");
+  });
+
+  it("takes a bare value for single-argument prompts", () => {
+    expect(parsePromptArguments("a = b", [{ name: "text" }])).toEqual({
+      text: "a = b",
+    });
+    expect(parsePromptArguments(" hello ", [{ name: "text" }])).toEqual({
+      text: "hello",
+    });
+    expect(() => parsePromptArguments("hello", args)).toThrow(
+      "Use name=value pairs",
+    );
+    expect(() => parsePromptArguments("hello", [])).toThrow("no arguments");
+  });
+
+  it("rejects unknown and missing arguments", () => {
+    expect(() => parsePromptArguments("topic=x, mood=y", args)).toThrow(
+      "Unknown argument(s): mood (expected: topic, tone)",
+    );
+    expect(() => parsePromptArguments("tone=formal", args)).toThrow(
+      "Missing required argument(s): topic",
+    );
+    expect(parsePromptArguments(null, [{ name: "x" }])).toEqual({});
+  });
+});
+
+describe("promptMessagesToModelMessages", () => {
+  const user = { id: "42", username: "alice" };
+
+  it("wraps user text like a Discord message and keeps roles", () => {
+    const messages = promptMessagesToModelMessages(
+      [
+        { role: "user", content: { type: "text", text: "Summarize" } },
+        { role: "assistant", content: { type: "text", text: "Sure." } },
+        {
+          role: "user",
+          content: {
+            type: "resource",
+            resource: { uri: "file:///a.md", text: "# A" },
+          },
+        },
+      ],
+      user,
+    );
+    expect(messages).toEqual([
+      {
+        role: "user",
+        content:
+          "<message>\nuser_id: 42\nusername: alice\ncontent: |\nSummarize\n</message>\n",
+      },
+      { role: "assistant", content: "Sure." },
+      {
+        role: "user",
+        content:
+          '<message>\nuser_id: 42\nusername: alice\ncontent: |\n<mcp-resource uri="file:///a.md">\n# A\n</mcp-resource>\n</message>\n',
+      },
+    ]);
+  });
+
+  it("keeps images in user messages only", () => {
+    const [userMsg, assistantMsg] = promptMessagesToModelMessages(
+      [
+        {
+          role: "user",
+          content: { type: "image", data: "aGk=", mimeType: "image/png" },
+        },
+        {
+          role: "assistant",
+          content: { type: "image", data: "aGk=", mimeType: "image/png" },
+        },
+      ],
+      user,
+    );
+    expect(Array.isArray(userMsg!.content)).toBe(true);
+    expect((userMsg!.content as Array<Record<string, unknown>>)[1]).toEqual({
+      type: "image",
+      image: "aGk=",
+      mediaType: "image/png",
+    });
+    expect(assistantMsg).toEqual({ role: "assistant", content: "[image]" });
+  });
+});
+
+describe("resourceContentsToText", () => {
+  it("joins text and describes binary contents", () => {
+    expect(
+      resourceContentsToText(
+        [
+          { uri: "a", text: "hello" },
+          { uri: "b", blob: "AAAA", mimeType: "image/png" },
+        ],
+        1000,
+      ),
+    ).toBe("hello\n[binary content: image/png, 3 bytes]");
+  });
+
+  it("truncates long contents", () => {
+    expect(resourceContentsToText([{ uri: "a", text: "abcdef" }], 3)).toBe(
+      "abc\n[Resource truncated: showing 3 of 6 characters]",
+    );
+  });
+});
+
+describe("formatAttachedResources", () => {
+  it("wraps each resource", () => {
+    expect(formatAttachedResources([{ uri: "a://x", text: "X" }])).toBe(
+      'The following resources are attached to this conversation:\n<mcp-resource uri="a://x">\nX\n</mcp-resource>',
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "bun:test";
+import {
+  formatDuration,
+  formatMcpStatus,
+  getReconnectDelay,
+  RECONNECT_MAX_DELAY_MS,
+  type McpServerStatus,
+} from "../src/mcp-status";
+
+function status(overrides: Partial<McpServerStatus>): McpServerStatus {
+  return {
+    key: "local_fetch",
+    kind: "local",
+    name: "fetch",
+    state: "connected",
+    toolCount: 0,
+    lastError: null,
+    lastErrorAt: null,
+    connectedAt: null,
+    failures: 0,
+    nextRetryAt: null,
+    ...overrides,
+  };
+}
+
+describe("getReconnectDelay", () => {
+  it("doubles the delay with each failure", () => {
+    expect(getReconnectDelay(1)).toBe(1000);
+    expect(getReconnectDelay(2)).toBe(2000);
+    expect(getReconnectDelay(4)).toBe(8000);
+  });
+
+  it("caps the delay", () => {
+    expect(getReconnectDelay(20)).toBe(RECONNECT_MAX_DELAY_MS);
+    expect(getReconnectDelay(1000)).toBe(RECONNECT_MAX_DELAY_MS);
+    expect(getReconnectDelay(3, 100, 250)).toBe(250);
+  });
+});
+
+describe("formatDuration", () => {
+  it("shows the two largest units", () => {
+    expect(formatDuration(42_000)).toBe("42s");
+    expect(formatDuration(312_000)).toBe("5m 12s");
+    expect(formatDuration(7_500_000)).toBe("2h 5m");
+    expect(formatDuration(273_600_000)).toBe("3d 4h");
+  });
+
+  it("clamps negative durations", () => {
+    expect(formatDuration(-5000)).toBe("0s");
+  });
+});
+
+describe("formatMcpStatus", () => {
+  const now = 1_000_000;
+
+  it("handles no servers", () => {
+    expect(formatMcpStatus([], now)).toBe("No MCP servers configured.");
+  });
+
+  it("shows tool count and uptime of connected servers", () => {
+    const out = formatMcpStatus(
+      [status({ toolCount: 3, connectedAt: now - 65_000 })],
+      now,
+    );
+    expect(out).toBe("🟢 **fetch** (local) · connected · 3 tool(s) · up 1m 5s");
+  });
+
+  it("shows the next retry and last error of failing servers", () => {
+    const out = formatMcpStatus(
+      [
+        status({
+          kind: "remote",
+          name: "search",
+          state: "reconnecting",
+          failures: 2,
+          nextRetryAt: now + 4000,
+          lastError: "fetch `failed`",
+          lastErrorAt: now - 10_000,
+        }),
+      ],
+      now,
+    );
+    expect(out).toBe(
+      "🔴 **search** (remote) · reconnecting · retry #3 in 4s\n" +
+        "  Last error (10s ago): `fetch 'failed'`",
+    );
+  });
+
+  it("shortens long errors", () => {
+    const out = formatMcpStatus(
+      [status({ lastError: "x".repeat(500), lastErrorAt: now })],
+      now,
+    );
+    expect(out).toContain(`${"x".repeat(149)}…`);
+    expect(out).not.toContain("x".repeat(150));
+  });
+});
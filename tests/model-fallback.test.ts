@@ -0,0 +1,110 @@
+import { describe, expect, test } from "bun:test";
+import { APICallError, RetryError } from "ai";
+
+import {
+  getFallbackChain,
+  NoContentGeneratedError,
+  shouldFallbackImmediately,
+} from "../src/model-fallback";
+
+function apiError(statusCode: number) {
+  return new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: "https://example.com/v1/chat/completions",
+    requestBodyValues: {},
+    statusCode,
+  });
+}
+
+describe("model fallback", () => {
+  describe("getFallbackChain", () => {
+    const models = {
+      "openrouter/anthropic/claude-sonnet-4": {
+        fallback_models: ["anthropic/claude-sonnet-4", "openai/gpt-5"],
+      },
+      "anthropic/claude-sonnet-4": {},
+      "openai/gpt-5": {},
+      "openai/gpt-5-mini": {},
+    };
+
+    test("uses the model's own fallback list", () => {
+      expect(
+        getFallbackChain("openrouter/anthropic/claude-sonnet-4", {
+          models,
+          fallback_models: ["openai/gpt-5-mini"],
+        }),
+      ).toEqual({
+        chain: [
+          "openrouter/anthropic/claude-sonnet-4",
+          "anthropic/claude-sonnet-4",
+          "openai/gpt-5",
+        ],
+        skipped: [],
+      });
+    });
+
+    test("falls back to the global list", () => {
+      expect(
+        getFallbackChain("openai/gpt-5", {
+          models,
+          fallback_models: ["openai/gpt-5-mini"],
+        }).chain,
+      ).toEqual(["openai/gpt-5", "openai/gpt-5-mini"]);
+    });
+
+    test("drops duplicates and unknown models", () => {
+      expect(
+        getFallbackChain("openai/gpt-5", {
+          models,
+          fallback_models: ["openai/gpt-5", "google/gemini-2.5-pro"],
+        }),
+      ).toEqual({
+        chain: ["openai/gpt-5"],
+        skipped: ["google/gemini-2.5-pro"],
+      });
+    });
+
+    test("an empty per-model list disables the global fallbacks", () => {
+      expect(
+        getFallbackChain("openai/gpt-5", {
+          models: { ...models, "openai/gpt-5": { fallback_models: [] } },
+          fallback_models: ["openai/gpt-5-mini"],
+        }).chain,
+      ).toEqual(["openai/gpt-5"]);
+    });
+  });
+
+  describe("shouldFallbackImmediately", () => {
+    test("rate limits and server errors skip retries", () => {
+      expect(shouldFallbackImmediately(apiError(429))).toBe(true);
+      expect(shouldFallbackImmediately(apiError(503))).toBe(true);
+    });
+
+    test("client errors are retried on the same model", () => {
+      expect(shouldFallbackImmediately(apiError(400))).toBe(false);
+      expect(shouldFallbackImmediately(new Error("socket hang up"))).toBe(
+        false,
+      );
+    });
+
+    test("looks through retry wrappers", () => {
+      const error = new RetryError({
+        message: "Failed after 3 attempts",
+        reason: "maxRetriesExceeded",
+        errors: [apiError(500), apiError(529)],
+      });
+      expect(shouldFallbackImmediately(error)).toBe(true);
+    });
+
+    test("content-filter refusals fall back", () => {
+      expect(
+        shouldFallbackImmediately(
+          new NoContentGeneratedError("content-filter"),
+        ),
+      ).toBe(true);
+      expect(
+        shouldFallbackImmediately(new NoContentGeneratedError("stop")),
+      ).toBe(false);
+    });
+  });
+});
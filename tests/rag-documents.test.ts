@@ -0,0 +1,132 @@
+import { describe, expect, it } from "bun:test";
+import {
+  chunkDocument,
+  formatKnowledgeContext,
+  htmlToText,
+  readTextCapped,
+} from "../src/rag/documents";
+
+describe("chunkDocument", () => {
+  it("splits at headings and keeps the heading path", () => {
+    const doc = [
+      "Intro text.",
+      "",
+      "# Setup",
+      "",
+      "Install it.",
+      "",
+      "## Docker",
+      "",
+      "Run `docker compose up`.",
+      "",
+      "# FAQ",
+      "## Empty",
+      "## Why?",
+      "",
+      "Because.",
+    ].join("\n");
+    expect(chunkDocument(doc, 1000)).toEqual([
+      { index: 0, heading: null, content: "Intro text." },
+      { index: 1, heading: "Setup", content: "Install it." },
+      {
+        index: 2,
+        heading: "Setup › Docker",
+        content: "Run `docker compose up`.",
+      },
+      { index: 3, heading: "FAQ › Why?", content: "Because." },
+    ]);
+  });
+
+  it("splits long sections without breaking markdown", () => {
+    const paragraph = "Some **bold words** and a [link](https://example.com).";
+    const doc = `# Long\n\n${Array(10).fill(paragraph).join("\n\n")}`;
+    const chunks = chunkDocument(doc, 120);
+    expect(chunks.length).toBeGreaterThan(3);
+    for (const chunk of chunks) {
+      expect(chunk.heading).toBe("Long");
+      expect(chunk.content.length).toBeLessThanOrEqual(120);
+      expect(chunk.content.split("**").length % 2).toBe(1);
+      expect(chunk.content).not.toMatch(/\[link\]\(https:\/\/exam$/);
+    }
+    expect(chunks.map((c) => c.content).join(" ")).toContain(paragraph);
+  });
+
+  it("returns nothing for blank documents", () => {
+    expect(chunkDocument("  \n\n", 100)).toEqual([]);
+  });
+});
+
+describe("htmlToText", () => {
+  it("keeps readable text, headings and the title", () => {
+    const html =
+      "<html><head><title>Docs &amp; Notes</title><style>p{}</style></head>" +
+      "<body><h2>Usage</h2><p>Run&nbsp;it.</p><script>alert(1)</script>" +
+      "<ul><li>one</li><li>two &#x263A;</li></ul></body></html>";
+    expect(htmlToText(html)).toEqual({
+      title: "Docs & Notes",
+      text: "## Usage\n\nRun it.\n\n- one\n- two ☺",
+    });
+  });
+});
+
+describe("readTextCapped", () => {
+  function streamed(chunks: string[]) {
+    let pulled = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        const chunk = chunks[pulled++];
+        if (chunk === undefined) controller.close();
+        else controller.enqueue(new TextEncoder().encode(chunk));
+      },
+    });
+    return { res: new Response(body), pulled: () => pulled };
+  }
+
+  it("reads a body within the limit, including split characters", async () => {
+    const bytes = new TextEncoder().encode("café ✓");
+    const res = new Response(
+      new ReadableStream({
+        start(controller) {
+          controller.enqueue(bytes.slice(0, 4));
+          controller.enqueue(bytes.slice(4));
+          controller.close();
+        },
+      }),
+    );
+    expect(await readTextCapped(res, bytes.length)).toBe("café ✓");
+  });
+
+  it("stops downloading once the body passes the limit", async () => {
+    const { res, pulled } = streamed(["12345", "67890", "abcde", "fghij"]);
+    await expect(readTextCapped(res, 8)).rejects.toThrow(
+      "Document is too large (limit 8 bytes)",
+    );
+    expect(pulled()).toBeLessThan(4);
+  });
+
+  it("rejects a declared content-length over the limit without reading", async () => {
+    const { res, pulled } = streamed(["12345"]);
+    res.headers.set("content-length", "100");
+    await expect(readTextCapped(res, 8)).rejects.toThrow("too large");
+    expect(pulled()).toBe(0);
+  });
+});
+
+describe("formatKnowledgeContext", () => {
+  it("numbers the excerpts for citation", () => {
+    const text = formatKnowledgeContext([
+      { title: "Guide", source: "guide.md", heading: "Setup", content: "A" },
+      {
+        title: "Wiki",
+        source: "https://w.example",
+        heading: null,
+        content: "B",
+      },
+    ]);
+    expect(text).toContain("cite them inline as [1], [2]");
+    expect(text).toContain(
+      '<kb-source id="1" title="Guide § Setup" source="guide.md">\nA\n</kb-source>\n' +
+        '<kb-source id="2" title="Wiki" source="https://w.example">\nB\n</kb-source>',
+    );
+  });
+});
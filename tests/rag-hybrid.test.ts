@@ -0,0 +1,93 @@
+import { describe, expect, it } from "bun:test";
+import {
+  keywordScore,
+  reciprocalRankFusion,
+  trigrams,
+} from "../src/rag/hybrid";
+
+const id = (x: { id: string }) => x.id;
+
+describe("reciprocalRankFusion", () => {
+  it("ranks items found by both retrievers first", () => {
+    const vector = [{ id: "a" }, { id: "b" }, { id: "c" }];
+    const keyword = [{ id: "c" }, { id: "d" }];
+    const fused = reciprocalRankFusion(
+      [
+        { items: vector, weight: 1 },
+        { items: keyword, weight: 1 },
+      ],
+      id,
+    );
+    expect(fused.map((r) => r.item.id)).toEqual(["c", "a", "b", "d"]);
+    expect(fused[0]!.ranks).toEqual([3, 1]);
+    expect(fused[0]!.score).toBeCloseTo(1 / 63 + 1 / 61);
+    expect(fused[3]!.ranks).toEqual([null, 2]);
+  });
+
+  it("applies weights and keeps the first list's copy", () => {
+    const fused = reciprocalRankFusion(
+      [
+        { items: [{ id: "a", from: "vector" }], weight: 1 },
+        {
+          items: [
+            { id: "b", from: "keyword" },
+            { id: "a", from: "keyword" },
+          ],
+          weight: 3,
+        },
+      ],
+      id,
+      1,
+    );
+    expect(fused.map((r) => [r.item.id, r.item.from])).toEqual([
+      ["a", "vector"],
+      ["b", "keyword"],
+    ]);
+    expect(fused[0]!.score).toBeCloseTo(1 / 2 + 3 / 3);
+    expect(fused[1]!.score).toBeCloseTo(3 / 2);
+  });
+
+  it("counts duplicates within a list once", () => {
+    const fused = reciprocalRankFusion(
+      [{ items: [{ id: "a" }, { id: "a" }], weight: 1 }],
+      id,
+    );
+    expect(fused).toHaveLength(1);
+    expect(fused[0]!.score).toBeCloseTo(1 / 61);
+  });
+
+  it("adds items from zero-weight lists without scoring them", () => {
+    const fused = reciprocalRankFusion(
+      [
+        { items: [{ id: "a" }, { id: "b" }], weight: 0 },
+        { items: [{ id: "b" }], weight: 1 },
+      ],
+      id,
+    );
+    expect(fused.map((r) => r.item.id)).toEqual(["b", "a"]);
+  });
+});
+
+describe("trigrams", () => {
+  it("pads each word like pg_trgm", () => {
+    expect([...trigrams("Cat!")]).toEqual(["  c", " ca", "cat", "at "]);
+  });
+});
+
+describe("keywordScore", () => {
+  it("matches codes and misspelled names", () => {
+    expect(keywordScore("ABC-123", "Ticket abc-123 is blocked")).toBe(1);
+    expect(keywordScore("Kubernets", "Runs Kubernetes at work")).not.toBeNull();
+  });
+
+  it("matches when every word appears", () => {
+    expect(
+      keywordScore("go", "Writes go and rust in a very long sentence"),
+    ).not.toBeNull();
+  });
+
+  it("ignores unrelated text", () => {
+    expect(keywordScore("billing", "Prefers short answers")).toBeNull();
+    expect(keywordScore("", "anything")).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "bun:test";
+import {
+  DEFAULT_MEMORY_RANKING,
+  getMemoryRankingOptions,
+  recencyDecay,
+  scoreMemory,
+  selectMemories,
+} from "../src/rag/ranking";
+import type { RagEmbedding } from "../src/rag/type";
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = Date.parse("2025-06-01T00:00:00Z");
+
+function memory(
+  id: string,
+  fields: Partial<RagEmbedding> & { ageDays?: number },
+): RagEmbedding {
+  return {
+    id,
+    user_id: "u",
+    summary: id,
+    memo: "",
+    type: "fact",
+    relevance: 0.5,
+    embedding: [],
+    created_at: new Date(now - (fields.ageDays ?? 0) * DAY).toISOString(),
+    ...fields,
+  };
+}
+
+describe("recencyDecay", () => {
+  it("halves every half-life", () => {
+    expect(recencyDecay(0, 30)).toBe(1);
+    expect(recencyDecay(30 * DAY, 30)).toBeCloseTo(0.5);
+    expect(recencyDecay(60 * DAY, 30)).toBeCloseTo(0.25);
+    expect(recencyDecay(-DAY, 30)).toBe(1);
+    expect(recencyDecay(1000 * DAY, 0)).toBe(1);
+  });
+});
+
+describe("scoreMemory", () => {
+  const options = {
+    ...DEFAULT_MEMORY_RANKING,
+    similarityWeight: 2,
+    relevanceWeight: 1,
+    recencyWeight: 1,
+  };
+
+  it("weighs similarity, relevance and recency", () => {
+    const m = memory("a", { cos_sim: 0.8, relevance: 0.4, ageDays: 30 });
+    expect(scoreMemory(m, now, options)).toBeCloseTo((2 * 0.8 + 0.4 + 0.5) / 4);
+  });
+
+  it("leaves similarity out without a query", () => {
+    const m = memory("a", { relevance: 0.4 });
+    expect(scoreMemory(m, now, options)).toBeCloseTo((0.4 + 1) / 2);
+  });
+
+  it("always keeps pinned memories", () => {
+    const m = memory("a", { relevance: 1, cos_sim: 0, ageDays: 900 });
+    expect(scoreMemory(m, now, options)).toBe(1);
+  });
+});
+
+describe("selectMemories", () => {
+  it("prefers memories related to the message over unrelated ones", () => {
+    const selected = selectMemories(
+      [
+        memory("unrelated", { cos_sim: 0.05, relevance: 0.8 }),
+        memory("related", { cos_sim: 0.9, relevance: 0.5, ageDays: 90 }),
+        memory("pref", { type: "preference", cos_sim: 0.6 }),
+      ],
+      now,
+      getMemoryRankingOptions({ caps: { fact: 1 } }),
+    );
+    expect(selected.fact.map((m) => m.id)).toEqual(["related"]);
+    expect(selected.preference.map((m) => m.id)).toEqual(["pref"]);
+    expect(selected.intent).toEqual([]);
+  });
+
+  it("drops memories under their type's threshold", () => {
+    const selected = selectMemories(
+      [memory("weak", { cos_sim: 0.1, relevance: 0.2, ageDays: 365 })],
+      now,
+      getMemoryRankingOptions({ thresholds: { fact: 0.3 } }),
+    );
+    expect(selected.fact).toEqual([]);
+  });
+});
+
+describe("getMemoryRankingOptions", () => {
+  it("merges config over the defaults", () => {
+    const options = getMemoryRankingOptions({
+      caps: { intent: 2 },
+      recency_half_life_days: 7,
+    });
+    expect(options.caps).toEqual({ intent: 2, preference: 8, fact: 16 });
+    expect(options.halfLifeDays).toBe(7);
+    expect(options.similarityWeight).toBe(0.5);
+  });
+});
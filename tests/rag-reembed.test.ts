@@ -0,0 +1,140 @@
+import { describe, expect, it } from "bun:test";
+import { reembed, type ReembedProgress } from "../src/rag/reembed";
+import { SqliteRagStore } from "../src/rag/sqlite-store";
+
+const meta = { embedding_model: "openai/new", embedding_dimensions: 2 };
+
+/** Two-dimensional vectors that tell the texts apart by length. */
+const embed = async (values: string[]) => values.map((v) => [v.length, 1]);
+
+async function seeded() {
+  const store = new SqliteRagStore(":memory:", {
+    dimensions: 3,
+    providerModel: "openai/old",
+  });
+  await store.insertMemories(
+    ["a", "bb", "ccc"].map((summary) => ({
+      user_id: "u1",
+      summary,
+      memo: "",
+      type: "fact" as const,
+      relevance: 0.5,
+      embedding: [1, 0, 0],
+    })),
+  );
+  await store.addDocument(
+    {
+      guild_id: "g1",
+      title: "Guide",
+      source: "guide.md",
+      full_content: "...",
+      added_by: "admin",
+    },
+    [
+      {
+        chunk_index: 0,
+        heading: "Setup",
+        content: "Run",
+        embedding: [0, 1, 0],
+      },
+    ],
+  );
+  return store;
+}
+
+describe("reembed", () => {
+  it("re-embeds memories and chunks in batches and swaps them in", async () => {
+    const store = await seeded();
+    const progress: ReembedProgress[] = [];
+    const texts: string[] = [];
+
+    const counts = await reembed(store, {
+      meta,
+      embed: (values) => {
+        texts.push(...values);
+        return embed(values);
+      },
+      batchSize: 2,
+      onProgress: (p) => progress.push(p),
+    });
+
+    expect(counts).toEqual({ embeddings: 3, rag_content_chunks: 1 });
+    expect(texts).toContain("Guide › Setup\n\nRun");
+    expect(progress.filter((p) => p.table === "embeddings")).toEqual([
+      { table: "embeddings", done: 0, total: 3 },
+      { table: "embeddings", done: 2, total: 3 },
+      { table: "embeddings", done: 3, total: 3 },
+    ]);
+    expect(await store.readMeta()).toEqual(meta);
+
+    const [closest] = await store.searchMemories({
+      userId: "u1",
+      embedding: [3, 1],
+      simThreshold: 0,
+      limit: 1,
+    });
+    expect(closest).toMatchObject({ summary: "ccc", embedding: [3, 1] });
+    expect(
+      await store.searchKnowledge({
+        guildId: "g1",
+        embedding: [18, 1],
+        minSimilarity: 0.9,
+        limit: 1,
+      }),
+    ).toHaveLength(1);
+    expect(await store.countRows("embeddings")).toBe(3);
+  });
+
+  it("leaves the stored vectors alone when embedding fails", async () => {
+    const store = await seeded();
+    let calls = 0;
+    const failing = async (values: string[]) => {
+      if (++calls === 2) throw new Error("rate limited");
+      return embed(values);
+    };
+
+    await expect(
+      reembed(store, { meta, embed: failing, batchSize: 2 }),
+    ).rejects.toThrow("rate limited");
+
+    expect(await store.readMeta()).toEqual({
+      embedding_model: "openai/old",
+      embedding_dimensions: 3,
+    });
+    const memories = await store.listMemoryCandidates("u1", [1, 0, 0], 10);
+    expect(memories.map((m) => m.embedding)).toEqual([
+      [1, 0, 0],
+      [1, 0, 0],
+      [1, 0, 0],
+    ]);
+
+    // An interrupted run can be restarted.
+    await reembed(store, { meta, embed, batchSize: 2 });
+    expect(await store.readMeta()).toEqual(meta);
+  });
+
+  it("refuses to swap when memories were added during the run", async () => {
+    const store = await seeded();
+    const racing = async (values: string[]) => {
+      if (values.includes("Guide › Setup\n\nRun")) {
+        await store.insertMemories([
+          {
+            user_id: "u2",
+            summary: "new",
+            memo: "",
+            type: "fact",
+            relevance: 0.5,
+            embedding: [0, 0, 1],
+          },
+        ]);
+      }
+      return embed(values);
+    };
+
+    await expect(
+      reembed(store, { meta, embed: racing, batchSize: 10 }),
+    ).rejects.toThrow("1 rows were added to embeddings");
+    expect((await store.readMeta())!.embedding_model).toBe("openai/old");
+    expect(await store.countRows("embeddings")).toBe(4);
+  });
+});
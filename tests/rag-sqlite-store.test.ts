@@ -0,0 +1,165 @@
+import { describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { SqliteRagStore } from "../src/rag/sqlite-store";
+import type { RagEmbeddingCreate } from "../src/rag/type";
+
+const options = { dimensions: 3, providerModel: "openai/test" };
+
+function memory(
+  summary: string,
+  embedding: number[],
+  fields: Partial<RagEmbeddingCreate> = {},
+): RagEmbeddingCreate {
+  return {
+    user_id: "u1",
+    summary,
+    memo: "",
+    type: "fact",
+    relevance: 0.5,
+    embedding,
+    ...fields,
+  };
+}
+
+async function seeded() {
+  const store = new SqliteRagStore(":memory:", options);
+  await store.insertMemories([
+    memory("Works on the billing service", [1, 0, 0]),
+    memory("Prefers short answers", [0, 1, 0], { type: "preference" }),
+    memory("Ticket ABC-123 is blocked", [0, 0, 1], { relevance: 1 }),
+    memory("Lives in Berlin", [1, 0, 0], { user_id: "u2" }),
+  ]);
+  return store;
+}
+
+describe("SqliteRagStore memories", () => {
+  it("finds a user's memories by cosine similarity", async () => {
+    const store = await seeded();
+    const results = await store.searchMemories({
+      userId: "u1",
+      embedding: [1, 0.2, 0],
+      simThreshold: 0.3,
+      limit: 10,
+    });
+    expect(results.map((r) => r.summary)).toEqual([
+      "Works on the billing service",
+    ]);
+    expect(results[0]!.cos_sim).toBeCloseTo(1 / Math.sqrt(1.04));
+    expect(results[0]!.embedding).toEqual([1, 0, 0]);
+  });
+
+  it("filters by type", async () => {
+    const store = await seeded();
+    const results = await store.searchMemories({
+      userId: "u1",
+      embedding: [1, 1, 1],
+      type: "preference",
+      simThreshold: 0,
+      limit: 10,
+    });
+    expect(results.map((r) => r.summary)).toEqual(["Prefers short answers"]);
+  });
+
+  it("matches exact words and codes by keyword", async () => {
+    const store = await seeded();
+    const results = await store.searchMemoryKeywords({
+      userId: "u1",
+      embedding: [1, 0, 0],
+      text: "abc-123",
+      limit: 10,
+    });
+    expect(results.map((r) => r.summary)).toEqual([
+      "Ticket ABC-123 is blocked",
+    ]);
+    expect(results[0]!.keyword_score).toBeGreaterThan(0.6);
+    expect(results[0]!.cos_sim).toBe(0);
+  });
+
+  it("lists pinned memories first, then by similarity", async () => {
+    const store = await seeded();
+    const ranked = await store.listMemoryCandidates("u1", [0, 1, 0], 10);
+    expect(ranked.map((r) => r.summary)).toEqual([
+      "Ticket ABC-123 is blocked",
+      "Prefers short answers",
+      "Works on the billing service",
+    ]);
+    const limited = await store.listMemoryCandidates("u1", null, 1);
+    expect(limited.map((r) => r.summary)).toEqual([
+      "Ticket ABC-123 is blocked",
+    ]);
+  });
+
+  it("only removes the given user's memories", async () => {
+    const store = await seeded();
+    const [other] = await store.listMemoryCandidates("u2", null, 1);
+    const [own] = await store.listMemoryCandidates("u1", null, 1);
+    await store.removeMemories("u1", [other!.id, own!.id]);
+    expect(await store.listMemoryCandidates("u1", null, 10)).toHaveLength(2);
+    expect(await store.listMemoryCandidates("u2", null, 10)).toHaveLength(1);
+  });
+});
+
+describe("SqliteRagStore knowledge", () => {
+  const document = {
+    guild_id: "g1",
+    title: "Guide",
+    source: "guide.md",
+    full_content: "...",
+    added_by: "admin",
+  };
+
+  it("stores, searches and removes documents per guild", async () => {
+    const store = new SqliteRagStore(":memory:", options);
+    const id = await store.addDocument(document, [
+      { chunk_index: 0, heading: null, content: "Intro", embedding: [1, 0, 0] },
+      {
+        chunk_index: 1,
+        heading: "Setup",
+        content: "Run",
+        embedding: [0, 1, 0],
+      },
+    ]);
+
+    expect(await store.hasKnowledge("g1")).toBe(true);
+    expect(await store.hasKnowledge("g2")).toBe(false);
+    expect(await store.listDocuments("g1")).toMatchObject([
+      { id, title: "Guide", chunk_count: 2 },
+    ]);
+    expect(
+      await store.searchKnowledge({
+        guildId: "g1",
+        embedding: [0.1, 1, 0],
+        minSimilarity: 0.5,
+        limit: 4,
+      }),
+    ).toEqual([
+      { title: "Guide", source: "guide.md", heading: "Setup", content: "Run" },
+    ]);
+
+    expect(await store.removeDocument("g2", id)).toBeNull();
+    expect(await store.removeDocument("g1", id)).toBe("Guide");
+    expect(await store.hasKnowledge("g1")).toBe(false);
+  });
+});
+
+describe("SqliteRagStore schema", () => {
+  it("keeps the model and dimensions it was created with", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "rag-store-"));
+    const file = path.join(dir, "rag.db");
+    try {
+      new SqliteRagStore(file, options);
+      const reopened = new SqliteRagStore(file, {
+        dimensions: 4,
+        providerModel: "openai/other",
+      });
+      expect(reopened.meta).toEqual({
+        embedding_model: "openai/test",
+        embedding_dimensions: 3,
+      });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  formatTranscript,
+  getSummarizationOptions,
+  planSummarization,
+  type ChainEntry,
+} from "../src/summarization";
+
+/** Alternating user/assistant chain, newest first, ids "m<n>" oldest = m1. */
+function makeChain(length: number): ChainEntry[] {
+  return Array.from({ length }, (_, i) => {
+    const n = length - i;
+    return {
+      messageId: `m${n}`,
+      messages: [
+        {
+          role: n % 2 === 1 ? ("user" as const) : ("assistant" as const),
+          content: `message ${n}`,
+        },
+      ],
+    };
+  });
+}
+
+const options = { threshold: 6, keepRecent: 3 };
+
+describe("summarization", () => {
+  test("is disabled unless enabled in config", () => {
+    expect(getSummarizationOptions({ max_messages: 25 })).toBeNull();
+    expect(
+      getSummarizationOptions({
+        max_messages: 25,
+        summarization: { enable: true },
+      }),
+    ).toEqual({ model: null, threshold: 25, keepRecent: 12, maxHistory: 200 });
+  });
+
+  test("leaves short chains alone", () => {
+    expect(planSummarization(makeChain(6), options, new Set())).toBeNull();
+  });
+
+  test("keeps the newest messages, starting on a user turn", () => {
+    // m9 (user), m8, m7 (user) are the newest three; m7 is a user turn
+    expect(planSummarization(makeChain(9), options, new Set())).toEqual({
+      anchorIndex: 2,
+      reuse: false,
+      previousAnchorIndex: null,
+    });
+    // m10 (assistant), m9, m8 → extend to m7 so the chain starts with a user
+    expect(planSummarization(makeChain(10), options, new Set())).toEqual({
+      anchorIndex: 3,
+      reuse: false,
+      previousAnchorIndex: null,
+    });
+  });
+
+  test("reuses a cached summary while the recent part fits", () => {
+    expect(planSummarization(makeChain(11), options, new Set(["m7"]))).toEqual({
+      anchorIndex: 4,
+      reuse: true,
+      previousAnchorIndex: null,
+    });
+  });
+
+  test("rolls a stale summary forward", () => {
+    // m7 is now 8 messages back, over the threshold of 6; the new anchor is
+    // m11 and its summary extends the one anchored at m7
+    expect(planSummarization(makeChain(14), options, new Set(["m7"]))).toEqual({
+      anchorIndex: 3,
+      reuse: false,
+      previousAnchorIndex: 7,
+    });
+  });
+
+  test("formats an oldest-first transcript", () => {
+    const chain: ChainEntry[] = [
+      {
+        messageId: "2",
+        messages: [{ role: "assistant", content: "Hi <@1>!" }],
+      },
+      {
+        messageId: "1",
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: "hello" },
+              { type: "image", image: new URL("https://example.com/a.png") },
+            ],
+          },
+        ],
+      },
+    ];
+    expect(formatTranscript(chain)).toBe(
+      "[user]\nhello\n[image]\n\n[assistant]\nHi <@1>!",
+    );
+  });
+});
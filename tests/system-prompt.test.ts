@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test";
+
+import { resolveChannelOverride } from "../src/utils/channel-inheritance";
+import { renderSystemPrompt } from "../src/utils/prompt-template";
+
+const variables = {
+  date: "Mon, Jan 05, 2026 (UTC)",
+  time: "12:00:00 (UTC)",
+  channel_name: "code-review",
+  channel_id: "111",
+  guild_name: "Acme",
+  guild_id: "222",
+};
+
+describe("system prompt", () => {
+  describe("resolveChannelOverride", () => {
+    test("prefers the thread's own override", () => {
+      const overrides = new Map([
+        ["channel-1", "parent prompt"],
+        ["thread-1", "thread prompt"],
+      ]);
+      expect(
+        resolveChannelOverride(
+          { id: "thread-1", parentId: "channel-1" },
+          overrides,
+        ),
+      ).toEqual({ channelId: "thread-1", value: "thread prompt" });
+    });
+
+    test("falls back to the parent channel override", () => {
+      const overrides = new Map([["channel-1", "parent prompt"]]);
+      expect(
+        resolveChannelOverride(
+          { id: "thread-1", parentId: "channel-1" },
+          overrides,
+        ),
+      ).toEqual({ channelId: "channel-1", value: "parent prompt" });
+    });
+
+    test("returns null when nothing is set", () => {
+      expect(
+        resolveChannelOverride(
+          { id: "thread-1", parentId: "channel-1" },
+          new Map([["channel-2", "other prompt"]]),
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("renderSystemPrompt", () => {
+    test("replaces every occurrence of known placeholders", () => {
+      expect(
+        renderSystemPrompt(
+          "You are in #{channel_name} of {guild_name}. {date} {time}. Again: {channel_name}",
+          variables,
+        ),
+      ).toBe(
+        "You are in #code-review of Acme. Mon, Jan 05, 2026 (UTC) 12:00:00 (UTC). Again: code-review",
+      );
+    });
+
+    test("leaves unknown placeholders and braces untouched", () => {
+      expect(
+        renderSystemPrompt('Reply as JSON: {"a": 1} {unknown}', variables),
+      ).toBe('Reply as JSON: {"a": 1} {unknown}');
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, test } from "bun:test";
+import type { Tool } from "ai";
+
+import {
+  ToolApprovalDeniedError,
+  ToolApprovalManager,
+  withToolApproval,
+  type ToolApprovalTarget,
+} from "../src/discord/tool-approval";
+
+function makeTarget() {
+  const posted: Array<{ content?: string; customIds: string[] }> = [];
+  const edits: string[] = [];
+  const target: ToolApprovalTarget = {
+    reply: async (options) => {
+      posted.push({
+        content: options.content,
+        customIds:
+          JSON.stringify(options.components).match(
+            /tool_(approve|deny)_[\w-]+/g,
+          ) ?? [],
+      });
+      return {
+        edit: async (options) => {
+          edits.push(String(options.content));
+        },
+      };
+    },
+  };
+  return { target, posted, edits };
+}
+
+async function nextTick() {
+  await new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("tool approval", () => {
+  test("only allowed users can decide", async () => {
+    const manager = new ToolApprovalManager();
+    const { target, posted, edits } = makeTarget();
+
+    const outcome = manager.request({
+      target,
+      toolName: "shell",
+      input: { command: "ls" },
+      canDecide: (userId) => userId === "author",
+    });
+    await nextTick();
+
+    const id = posted[0]!.customIds[0]!.replace("tool_approve_", "");
+    expect(posted[0]!.customIds).toEqual([
+      `tool_approve_${id}`,
+      `tool_deny_${id}`,
+    ]);
+    expect(manager.decide(id, "someone", true)).toBe("forbidden");
+    expect(manager.decide(id, "author", false)).toBe("denied");
+    expect(await outcome).toBe("denied");
+    expect(manager.decide(id, "author", true)).toBe("expired");
+    expect(edits[0]).toContain("Denied by <@author>");
+  });
+
+  test("times out and cancels", async () => {
+    const manager = new ToolApprovalManager();
+    const { target } = makeTarget();
+
+    expect(
+      await manager.request({
+        target,
+        toolName: "shell",
+        input: {},
+        canDecide: () => true,
+        timeoutMs: 5,
+      }),
+    ).toBe("timeout");
+
+    const controller = new AbortController();
+    const outcome = manager.request({
+      target,
+      toolName: "shell",
+      input: {},
+      canDecide: () => true,
+      signal: controller.signal,
+    });
+    await nextTick();
+    controller.abort();
+    expect(await outcome).toBe("cancelled");
+  });
+
+  test("wraps only tools that need approval", async () => {
+    const calls: string[] = [];
+    const makeTool = (name: string) =>
+      ({
+        inputSchema: {},
+        execute: async () => {
+          calls.push(name);
+          return name;
+        },
+      }) as unknown as Tool;
+    const tools = { shell: makeTool("shell"), fetch: makeTool("fetch") };
+
+    let answer: "approved" | "denied" = "denied";
+    const wrapped = withToolApproval(
+      tools,
+      (name) => name === "shell",
+      async () => answer,
+    );
+    const options = { toolCallId: "1", messages: [] };
+
+    expect(wrapped.fetch).toBe(tools.fetch);
+    await expect(wrapped.shell!.execute!({}, options)).rejects.toBeInstanceOf(
+      ToolApprovalDeniedError,
+    );
+    expect(calls).toEqual([]);
+
+    answer = "approved";
+    expect(await wrapped.shell!.execute!({}, options)).toBe("shell");
+    expect(calls).toEqual(["shell"]);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, test } from "bun:test";
+import type { Tool } from "ai";
+
+import {
+  ConcurrencyLimiter,
+  DEFAULT_TOOL_TIMEOUT_MS,
+  isToolErrorResult,
+  resolveToolLimits,
+  truncateToolOutput,
+  withToolLimits,
+  type ToolLimits,
+} from "../src/tool-limits";
+
+const options = { toolCallId: "1", messages: [] };
+
+function makeTool(execute: (input: any, options: any) => unknown) {
+  return { inputSchema: {}, execute } as unknown as Tool;
+}
+
+describe("tool limits", () => {
+  test("tool options win over server options and defaults", () => {
+    expect(resolveToolLimits()).toEqual({
+      timeoutMs: DEFAULT_TOOL_TIMEOUT_MS,
+      maxOutputChars: 50_000,
+      maxConcurrency: null,
+    });
+    expect(
+      resolveToolLimits(
+        { timeout_ms: 0, max_concurrency: 2 },
+        { timeout_ms: 5000, max_output_chars: 100, max_concurrency: 1 },
+      ),
+    ).toEqual({ timeoutMs: null, maxOutputChars: 100, maxConcurrency: 2 });
+  });
+
+  test("truncates strings, MCP results and other values", () => {
+    expect(truncateToolOutput("short", 10)).toEqual({
+      output: "short",
+      truncated: false,
+    });
+    expect(truncateToolOutput("x".repeat(20), 10).output).toBe(
+      "x".repeat(10) + "\n\n[Output truncated: showing 10 of 20 characters]",
+    );
+
+    const { output } = truncateToolOutput(
+      {
+        content: [
+          { type: "text", text: "aaaaaa" },
+          { type: "image", data: "…" },
+          { type: "text", text: "bbbbbb" },
+        ],
+      },
+      8,
+    );
+    expect(output).toEqual({
+      content: [
+        { type: "text", text: "aaaaaa" },
+        { type: "image", data: "…" },
+        { type: "text", text: "bb" },
+        {
+          type: "text",
+          text: "\n\n[Output truncated: showing 8 of 12 characters]",
+        },
+      ],
+    });
+
+    expect(truncateToolOutput({ a: "x".repeat(20) }, 5).output).toStartWith(
+      '{"a":',
+    );
+  });
+
+  test("limits concurrent holders and serves waiters in order", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const order: string[] = [];
+
+    const releaseA = await limiter.acquire();
+    const b = limiter.acquire().then((release) => {
+      order.push("b");
+      return release;
+    });
+    const c = limiter.acquire().then((release) => {
+      order.push("c");
+      release();
+    });
+    expect(limiter.pending).toBe(2);
+
+    releaseA();
+    (await b)();
+    await c;
+    expect(order).toEqual(["b", "c"]);
+  });
+
+  test("stops waiting when aborted", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    await limiter.acquire();
+    const controller = new AbortController();
+    const waiting = limiter.acquire(controller.signal);
+    controller.abort(new Error("cancelled"));
+    await expect(waiting).rejects.toThrow("cancelled");
+    expect(limiter.pending).toBe(0);
+  });
+
+  test("returns error results for timeouts and failures", async () => {
+    const limits: ToolLimits = {
+      timeoutMs: 10,
+      maxOutputChars: 5,
+      maxConcurrency: null,
+    };
+    let aborted = false;
+    const tools = withToolLimits(
+      {
+        hang: makeTool(
+          (_input, { abortSignal }) =>
+            new Promise((resolve) =>
+              abortSignal.addEventListener("abort", () => {
+                aborted = true;
+                resolve("late");
+              }),
+            ),
+        ),
+        fail: makeTool(async () => {
+          throw new Error("boom");
+        }),
+        big: makeTool(async () => "0123456789"),
+      },
+      () => limits,
+      (_name, max) => new ConcurrencyLimiter(max),
+    );
+
+    const timedOut = await tools.hang!.execute!({}, options);
+    expect(isToolErrorResult(timedOut)).toBe(true);
+    expect(JSON.stringify(timedOut)).toContain("timed out after 10 ms");
+    expect(aborted).toBe(true);
+
+    expect(await tools.fail!.execute!({}, options)).toEqual({
+      content: [{ type: "text", text: "Error: boom" }],
+      isError: true,
+    });
+    expect(await tools.big!.execute!({}, options)).toStartWith("01234\n\n");
+  });
+
+  test("rethrows when the generation is cancelled", async () => {
+    const controller = new AbortController();
+    const tools = withToolLimits(
+      {
+        fail: makeTool(async () => {
+          controller.abort();
+          throw new Error("aborted");
+        }),
+      },
+      () => ({ timeoutMs: null, maxOutputChars: null, maxConcurrency: null }),
+      (_name, max) => new ConcurrencyLimiter(max),
+    );
+
+    await expect(
+      tools.fail!.execute!({}, { ...options, abortSignal: controller.signal }),
+    ).rejects.toThrow("aborted");
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "bun:test";
+import {
+  formatToolCollision,
+  groupToolNames,
+  mergeToolGroups,
+  resolveToolName,
+  sanitizeToolName,
+} from "../src/tool-names";
+
+describe("resolveToolName", () => {
+  it("keeps the name unless prefixing is on", () => {
+    expect(resolveToolName({ name: "web" }, "search")).toBe("search");
+    expect(resolveToolName({ name: "web", prefix: true }, "search")).toBe(
+      "web__search",
+    );
+  });
+
+  it("lets renames win over the prefix", () => {
+    const group = { name: "web", prefix: true, rename: { search: "find" } };
+    expect(resolveToolName(group, "search")).toBe("find");
+    expect(resolveToolName(group, "fetch")).toBe("web__fetch");
+  });
+
+  it("sanitizes prefixed names", () => {
+    expect(resolveToolName({ name: "my.server", prefix: true }, "go")).toBe(
+      "my_server__go",
+    );
+    expect(sanitizeToolName("x".repeat(100))).toHaveLength(64);
+  });
+});
+
+describe("mergeToolGroups", () => {
+  it("reports collisions and keeps the later tool", () => {
+    const { tools, origins, collisions } = mergeToolGroups([
+      { source: "local_mcp", name: "a", tools: { search: 1, fetch: 2 } },
+      { source: "remote_mcp", name: "b", tools: { search: 3 } },
+    ]);
+    expect(tools).toEqual({ search: 3, fetch: 2 });
+    expect(origins.get("search")).toEqual({
+      source: "remote_mcp",
+      name: "b",
+      toolName: "search",
+    });
+    expect(collisions).toHaveLength(1);
+    expect(formatToolCollision(collisions[0]!)).toBe(
+      "Tool [search] from remote MCP server [b] hides the one from local MCP server [a]; set prefix_tool_names or rename_tools to keep both",
+    );
+  });
+
+  it("keeps both tools when prefixed", () => {
+    const { tools, collisions } = mergeToolGroups([
+      { source: "local_mcp", name: "a", tools: { search: 1 }, prefix: true },
+      { source: "extension", name: "b", tools: { search: 2 }, prefix: true },
+    ]);
+    expect(tools).toEqual({ a__search: 1, b__search: 2 });
+    expect(collisions).toEqual([]);
+  });
+});
+
+describe("groupToolNames", () => {
+  it("groups by source, then by server", () => {
+    const { origins } = mergeToolGroups([
+      { source: "rag", name: "rag", tools: { remember: 0 } },
+      { source: "local_mcp", name: "a", tools: { x: 0, y: 0 } },
+    ]);
+    const grouped = groupToolNames(origins);
+    expect([...grouped.keys()]).toEqual([
+      "local_mcp",
+      "remote_mcp",
+      "extension",
+      "rag",
+    ]);
+    expect(grouped.get("local_mcp")!.get("a")).toEqual(["x", "y"]);
+    expect(grouped.get("rag")!.get("rag")).toEqual(["remember"]);
+    expect(grouped.get("remote_mcp")!.size).toBe(0);
+  });
+});
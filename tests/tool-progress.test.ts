@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import type { Tool } from "ai";
+
+import {
+  ToolProgressTracker,
+  summarizeToolInput,
+  withToolProgress,
+} from "../src/discord/tool-progress";
+
+function makeClock() {
+  let t = 0;
+  return { now: () => t, advance: (ms: number) => (t += ms) };
+}
+
+describe("tool progress", () => {
+  test("summarizes inputs on one line", () => {
+    expect(summarizeToolInput({ url: "https://example.com" })).toBe(
+      '{"url":"https://example.com"}',
+    );
+    expect(summarizeToolInput({})).toBe("");
+    expect(summarizeToolInput("a `b`\n c")).toBe("a 'b' c");
+    expect(summarizeToolInput("x".repeat(100), 10)).toBe("xxxxxxxxx…");
+  });
+
+  test("renders running and finished calls", () => {
+    const clock = makeClock();
+    const tracker = new ToolProgressTracker(clock.now);
+
+    expect(tracker.render(true)).toBeNull();
+    tracker.start("1", "fetch", { url: "a" });
+    tracker.start("2", "shell", {});
+    clock.advance(1200);
+    tracker.finish("1", true);
+
+    expect(tracker.render(true)).toBe(
+      '✅ `fetch` `{"url":"a"}` · 1.2s\n⏳ `shell`',
+    );
+
+    clock.advance(300);
+    tracker.finish("2", false);
+    expect(tracker.render(false)).toBe("`fetch` ✅ 1.2s · `shell` ❌ 1.5s");
+  });
+
+  test("collapses many calls into counts", () => {
+    const clock = makeClock();
+    const tracker = new ToolProgressTracker(clock.now);
+    for (let i = 0; i < 10; i++) {
+      tracker.start(String(i), "search", { q: i });
+      clock.advance(100);
+      tracker.finish(String(i), i !== 3);
+    }
+
+    expect(tracker.render(false)).toBe("10 tool calls (9 ✅, 1 ❌) · 1.0s");
+    const live = tracker.render(true)!.split("\n");
+    expect(live[0]).toBe("…2 earlier call(s)");
+    expect(live).toHaveLength(9);
+  });
+
+  test("tracks calls through wrapped tools", async () => {
+    const tracker = new ToolProgressTracker();
+    const tools = withToolProgress(
+      {
+        ok: { execute: async () => "done" } as unknown as Tool,
+        bad: {
+          execute: async () => {
+            throw new Error("boom");
+          },
+        } as unknown as Tool,
+      },
+      tracker,
+    );
+    const options = { messages: [] };
+
+    expect(await tools.ok!.execute!({}, { ...options, toolCallId: "a" })).toBe(
+      "done",
+    );
+    await expect(
+      tools.bad!.execute!({}, { ...options, toolCallId: "b" }),
+    ).rejects.toThrow("boom");
+    expect(tracker.render(false)).toMatch(/^`ok` ✅ \S+ · `bad` ❌ \S+$/);
+  });
+});
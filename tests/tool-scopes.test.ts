@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  filterToolsByScope,
+  getApplicableToolRules,
+  isToolAllowed,
+  mergeToolScopes,
+  toolScopesFromConfig,
+  toolScopesFromRows,
+} from "../src/tool-scopes";
+
+const tools = { shell: 1, fetch: 2, search: 3 };
+
+describe("tool scopes", () => {
+  test("allow lists limit and deny lists remove", () => {
+    expect(isToolAllowed("shell", [])).toBe(true);
+    expect(isToolAllowed("shell", [{ allow: ["fetch"] }])).toBe(false);
+    expect(isToolAllowed("fetch", [{ allow: ["fetch"] }])).toBe(true);
+    expect(isToolAllowed("fetch", [{ allow: [] }])).toBe(true);
+    expect(
+      isToolAllowed("fetch", [{ allow: ["fetch"] }, { deny: ["fetch"] }]),
+    ).toBe(false);
+  });
+
+  test("threads inherit the parent channel's rule", () => {
+    const scopes = toolScopesFromConfig({
+      channels: { "100": { deny: ["shell"] }, "200": { allow: ["search"] } },
+    });
+
+    const inherited = getApplicableToolRules(scopes, {
+      channel: { id: "101", parentId: "100" },
+      roleIds: [],
+      userId: "u",
+    });
+    expect(Object.keys(filterToolsByScope(tools, inherited))).toEqual([
+      "fetch",
+      "search",
+    ]);
+
+    const own = getApplicableToolRules(scopes, {
+      channel: { id: "200", parentId: "100" },
+      roleIds: [],
+      userId: "u",
+    });
+    expect(Object.keys(filterToolsByScope(tools, own))).toEqual(["search"]);
+  });
+
+  test("combines channel, role and user rules", () => {
+    const scopes = mergeToolScopes(
+      toolScopesFromConfig({ roles: { "10": { deny: ["fetch"] } } }),
+      toolScopesFromRows([
+        {
+          scope_type: "user",
+          scope_id: "u",
+          guild_id: null,
+          tool_name: "shell",
+          mode: "deny",
+          updated_by: "admin",
+          updated_at: 0,
+        },
+      ]),
+    );
+
+    const rules = getApplicableToolRules(scopes, {
+      channel: { id: "1" },
+      roleIds: ["10", "11"],
+      userId: "u",
+    });
+    expect(Object.keys(filterToolsByScope(tools, rules))).toEqual(["search"]);
+  });
+
+  test("merges lists for the same ID", () => {
+    const merged = mergeToolScopes(
+      toolScopesFromConfig({ users: { u: { deny: ["shell"] } } }),
+      toolScopesFromConfig({ users: { u: { deny: ["fetch", "shell"] } } }),
+    );
+    expect(merged.user.get("u")).toEqual({
+      allow: [],
+      deny: ["shell", "fetch"],
+    });
+  });
+});
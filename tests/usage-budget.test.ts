@@ -0,0 +1,96 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  checkBudgetLimits,
+  formatBudgetViolation,
+  getBudgetWindowEnd,
+  getBudgetWindowStart,
+  hasBudgetLimits,
+} from "../src/usage/budget";
+
+const now = new Date(Date.UTC(2026, 0, 15, 13, 30));
+
+const totals = (
+  daily: { costUsd: number; tokens: number },
+  monthly: { costUsd: number; tokens: number },
+) => ({ daily, monthly });
+
+describe("usage budgets", () => {
+  test("budget windows follow UTC days and months", () => {
+    expect(getBudgetWindowStart("daily", now)).toBe(Date.UTC(2026, 0, 15));
+    expect(getBudgetWindowEnd("daily", now)).toBe(Date.UTC(2026, 0, 16));
+    expect(getBudgetWindowStart("monthly", now)).toBe(Date.UTC(2026, 0, 1));
+    expect(getBudgetWindowEnd("monthly", now)).toBe(Date.UTC(2026, 1, 1));
+  });
+
+  test("month window rolls over the year", () => {
+    const december = new Date(Date.UTC(2025, 11, 31, 23, 59));
+    expect(getBudgetWindowEnd("monthly", december)).toBe(Date.UTC(2026, 0, 1));
+  });
+
+  test("hasBudgetLimits ignores empty and null limits", () => {
+    expect(hasBudgetLimits(undefined)).toBe(false);
+    expect(hasBudgetLimits({})).toBe(false);
+    expect(hasBudgetLimits({ daily_usd: null })).toBe(false);
+    expect(hasBudgetLimits({ monthly_tokens: 0 })).toBe(true);
+  });
+
+  test("returns null while under every limit", () => {
+    expect(
+      checkBudgetLimits({
+        scope: "user",
+        limits: { daily_usd: 1, monthly_tokens: 100_000 },
+        totals: totals(
+          { costUsd: 0.5, tokens: 1_000 },
+          { costUsd: 3, tokens: 50_000 },
+        ),
+        now,
+      }),
+    ).toBeNull();
+  });
+
+  test("reports the daily limit before the monthly one", () => {
+    const violation = checkBudgetLimits({
+      scope: "guild",
+      limits: { daily_usd: 1, monthly_usd: 5 },
+      totals: totals(
+        { costUsd: 1.2, tokens: 1_000 },
+        { costUsd: 6, tokens: 50_000 },
+      ),
+      now,
+    });
+    expect(violation).toEqual({
+      scope: "guild",
+      period: "daily",
+      metric: "usd",
+      limit: 1,
+      used: 1.2,
+      resetsAt: Date.UTC(2026, 0, 16),
+    });
+  });
+
+  test("enforces token limits", () => {
+    const violation = checkBudgetLimits({
+      scope: "user",
+      limits: { monthly_tokens: 10_000 },
+      totals: totals({ costUsd: 0, tokens: 0 }, { costUsd: 0, tokens: 10_000 }),
+      now,
+    });
+    expect(violation?.period).toBe("monthly");
+    expect(violation?.metric).toBe("tokens");
+  });
+
+  test("formats a readable message with a relative reset time", () => {
+    const text = formatBudgetViolation({
+      scope: "user",
+      period: "monthly",
+      metric: "tokens",
+      limit: 250_000,
+      used: 250_100,
+      resetsAt: Date.UTC(2026, 1, 1),
+    });
+    expect(text).toContain("You have reached the monthly usage limit");
+    expect(text).toContain("250,000 tokens");
+    expect(text).toContain(`<t:${Date.UTC(2026, 1, 1) / 1000}:R>`);
+  });
+});
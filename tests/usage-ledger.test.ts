@@ -0,0 +1,156 @@
+import { Database } from "bun:sqlite";
+import { beforeEach, describe, expect, setSystemTime, test } from "bun:test";
+import type { LanguageModelUsage } from "ai";
+
+import { getBudgetViolation } from "../src/usage/budget";
+import { UsageLedgerOperator } from "../src/usage/ledger";
+
+const now = new Date(Date.UTC(2026, 0, 15, 13, 30));
+
+function usage(inputTokens: number, outputTokens: number): LanguageModelUsage {
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: undefined,
+    inputTokenDetails: {
+      noCacheTokens: undefined,
+      cacheReadTokens: undefined,
+      cacheWriteTokens: undefined,
+    },
+    outputTokenDetails: { textTokens: undefined, reasoningTokens: undefined },
+  };
+}
+
+let ledger: UsageLedgerOperator;
+
+function record(
+  at: Date,
+  fields: {
+    userId?: string;
+    guildId?: string | null;
+    tokens?: number;
+    costUsd?: number | null;
+  } = {},
+) {
+  setSystemTime(at);
+  ledger.record({
+    messageId: null,
+    userId: fields.userId ?? "u1",
+    channelId: "c1",
+    guildId: fields.guildId === undefined ? "g1" : fields.guildId,
+    providerModel: "openai/test",
+    usage: usage(fields.tokens ?? 100, 0),
+    costUsd: fields.costUsd === undefined ? 0.1 : fields.costUsd,
+  });
+  setSystemTime();
+}
+
+beforeEach(() => {
+  ledger = new UsageLedgerOperator(new Database(":memory:"));
+});
+
+describe("UsageLedgerOperator", () => {
+  test("totals cost and tokens by user, guild and window", () => {
+    record(now, { tokens: 100, costUsd: 0.25 });
+    record(now, { tokens: 50, costUsd: null });
+    record(now, { userId: "u2", tokens: 10, costUsd: 0.5 });
+    record(new Date(Date.UTC(2026, 0, 10)), { tokens: 1_000, costUsd: 1 });
+
+    const today = Date.UTC(2026, 0, 15);
+    expect(ledger.getTotals({ userId: "u1", since: today })).toEqual({
+      costUsd: 0.25,
+      tokens: 150,
+    });
+    expect(ledger.getTotals({ userId: "u1" })).toEqual({
+      costUsd: 1.25,
+      tokens: 1_150,
+    });
+    expect(ledger.getTotals({ guildId: "g1", since: today })).toEqual({
+      costUsd: 0.75,
+      tokens: 160,
+    });
+    expect(ledger.getTotals({ userId: "nobody" })).toEqual({
+      costUsd: 0,
+      tokens: 0,
+    });
+  });
+
+  test("falls back to input plus output when the total is not reported", () => {
+    ledger.record({
+      userId: "u1",
+      channelId: "c1",
+      guildId: null,
+      providerModel: "openai/test",
+      usage: { ...usage(30, 12), totalTokens: 50 },
+      costUsd: null,
+    });
+    ledger.record({
+      userId: "u1",
+      channelId: "c1",
+      guildId: null,
+      providerModel: "openai/test",
+      usage: usage(30, 12),
+      costUsd: null,
+    });
+
+    expect(ledger.getRecent().map((row) => row.total_tokens)).toEqual([42, 50]);
+  });
+});
+
+describe("budget refusal", () => {
+  const check = (
+    budgets: Parameters<typeof getBudgetViolation>[0]["budgets"],
+    fields: { userId?: string; guildId?: string | null; adminIds?: string[] },
+  ) =>
+    getBudgetViolation({
+      budgets,
+      adminIds: new Set(fields.adminIds ?? []),
+      userId: fields.userId ?? "u1",
+      guildId: fields.guildId === undefined ? "g1" : fields.guildId,
+      getTotals: (filter) => ledger.getTotals(filter),
+      now,
+    });
+
+  test("refuses a user over their daily limit until the window resets", () => {
+    record(now, { costUsd: 0.6 });
+    record(now, { costUsd: 0.5 });
+    record(new Date(Date.UTC(2026, 0, 14)), { userId: "u2", costUsd: 5 });
+
+    expect(check({ user: { daily_usd: 1 } }, {})).toEqual({
+      scope: "user",
+      period: "daily",
+      metric: "usd",
+      limit: 1,
+      used: 1.1,
+      resetsAt: Date.UTC(2026, 0, 16),
+    });
+    expect(check({ user: { daily_usd: 1 } }, { userId: "u2" })).toBeNull();
+  });
+
+  test("refuses everyone in a guild over its limit", () => {
+    record(now, { tokens: 600 });
+    record(now, { userId: "u2", tokens: 600 });
+
+    const budgets = { guild: { monthly_tokens: 1_000 } };
+    expect(check(budgets, { userId: "u3" })).toMatchObject({
+      scope: "guild",
+      period: "monthly",
+      metric: "tokens",
+      used: 1_200,
+    });
+    expect(check(budgets, { userId: "u3", guildId: null })).toBeNull();
+  });
+
+  test("lets admins through unless exempt_admins is false", () => {
+    record(now, { costUsd: 2 });
+
+    expect(check({ user: { daily_usd: 1 } }, { adminIds: ["u1"] })).toBeNull();
+    expect(
+      check(
+        { exempt_admins: false, user: { daily_usd: 1 } },
+        { adminIds: ["u1"] },
+      ),
+    ).toMatchObject({ scope: "user" });
+    expect(check(undefined, {})).toBeNull();
+  });
+});